@@ -14,9 +14,11 @@ import AdminShopDetail from "./pages/AdminShopDetail";
 import AdminUsers from "./pages/AdminUsers";
 import AdminComplaints from "./pages/AdminComplaints";
 import AdminSettings from "./pages/AdminSettings";
+import AdminBanners from "./pages/AdminBanners";
 import AdminMap from "./pages/AdminMap";
 import AdminReports from "./pages/AdminReports";
 import NotFound from "./pages/NotFound";
+import MaintenanceGate from "./components/MaintenanceGate";
 
 const queryClient = new QueryClient();
 
@@ -27,10 +29,12 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route element={<MaintenanceGate />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/shopkeeper" element={<Shopkeeper />} />
+            <Route path="/customer" element={<Customer />} />
+          </Route>
           <Route path="/auth" element={<Auth />} />
-          <Route path="/shopkeeper" element={<Shopkeeper />} />
-          <Route path="/customer" element={<Customer />} />
           <Route path="/admin" element={<AdminLayout />}>
             <Route index element={<AdminDashboard />} />
             <Route path="shops" element={<AdminShops />} />
@@ -38,6 +42,7 @@ const App = () => (
             <Route path="users" element={<AdminUsers />} />
             <Route path="complaints" element={<AdminComplaints />} />
             <Route path="settings" element={<AdminSettings />} />
+            <Route path="banners" element={<AdminBanners />} />
             <Route path="map" element={<AdminMap />} />
             <Route path="reports" element={<AdminReports />} />
           </Route>
@@ -0,0 +1,55 @@
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Banner, useActiveBanners } from "@/hooks/use-banners";
+
+const TYPE_STYLES: Record<Banner["type"], { className: string; icon: typeof Info }> = {
+  info: { className: "border-blue-200 bg-blue-50 text-blue-900", icon: Info },
+  success: { className: "border-green-200 bg-green-50 text-green-900", icon: CheckCircle2 },
+  warning: { className: "border-yellow-200 bg-yellow-50 text-yellow-900", icon: AlertTriangle },
+  error: { className: "border-red-200 bg-red-50 text-red-900", icon: AlertCircle },
+};
+
+interface BannerViewProps {
+  banner: Pick<Banner, "title" | "message" | "type">;
+  onDismiss?: () => void;
+}
+
+// Presentational banner, shared by the live banner strip and the admin preview
+export const BannerView = ({ banner, onDismiss }: BannerViewProps) => {
+  const { className, icon: Icon } = TYPE_STYLES[banner.type];
+
+  return (
+    <div role="status" className={cn("flex items-start gap-3 rounded-lg border px-4 py-3 text-sm", className)}>
+      <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+      <div className="flex-1">
+        <span className="font-semibold">{banner.title}</span>
+        {banner.message && <span className="ml-2">{banner.message}</span>}
+      </div>
+      {onDismiss && (
+        <button type="button" aria-label="Dismiss announcement" onClick={onDismiss} className="opacity-70 hover:opacity-100">
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface AnnouncementBannerProps {
+  className?: string;
+}
+
+const AnnouncementBanner = ({ className }: AnnouncementBannerProps) => {
+  const { banners, dismiss } = useActiveBanners();
+
+  if (banners.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {banners.map((banner) => (
+        <BannerView key={banner.id} banner={banner} onDismiss={() => dismiss(banner.id)} />
+      ))}
+    </div>
+  );
+};
+
+export default AnnouncementBanner;
@@ -40,7 +40,8 @@ const ChatBot = ({ userRole }: ChatBotProps) => {
     setIsLoading(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (!user) throw new Error('Not authenticated');
 
       await supabase.from('chat_messages').insert({
@@ -54,7 +55,7 @@ const ChatBot = ({ userRole }: ChatBotProps) => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${session.access_token}`,
         },
         body: JSON.stringify({ messages: [...messages, userMessage], userRole }),
       });
@@ -68,6 +69,15 @@ const ChatBot = ({ userRole }: ChatBotProps) => {
           });
           return;
         }
+        if (resp.status === 403) {
+          const { error } = await resp.json();
+          toast({
+            title: "Access Denied",
+            description: error,
+            variant: "destructive"
+          });
+          return;
+        }
         throw new Error('Failed to get response');
       }
 
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Send } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { ComplaintParticipant, useComplaintThread } from "@/hooks/use-complaint-thread";
+
+const ROLE_LABELS: Record<ComplaintParticipant, string> = {
+  customer: "Customer",
+  shop: "Shop",
+  admin: "ClearShelf support",
+};
+
+interface ComplaintThreadProps {
+  complaintId: string;
+  // Closed complaints keep their history but take no new messages
+  open: boolean;
+}
+
+const ComplaintThread = ({ complaintId, open }: ComplaintThreadProps) => {
+  const { toast } = useToast();
+  const { messages, isLoading, viewer, sendMessage, sending } = useComplaintThread(complaintId);
+  const [draft, setDraft] = useState("");
+
+  const send = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    try {
+      await sendMessage(body);
+      setDraft("");
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading conversation...</p>
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No messages yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {messages.map((message) => {
+            const own = message.sender_id === viewer?.userId;
+            return (
+              <div
+                key={message.id}
+                className={cn(
+                  "rounded-lg p-2 text-sm max-w-[85%]",
+                  own ? "ml-auto bg-primary text-primary-foreground" : "bg-muted"
+                )}
+              >
+                <p className={cn("text-xs", own ? "opacity-80" : "text-muted-foreground")}>
+                  {own ? "You" : ROLE_LABELS[message.sender_role as ComplaintParticipant]} ·{" "}
+                  {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                </p>
+                <p className="whitespace-pre-line">{message.body}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {open && viewer?.role && (
+        <div className="flex gap-2">
+          <Textarea
+            placeholder="Write a message"
+            maxLength={2000}
+            rows={2}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <Button size="icon" onClick={send} disabled={sending || !draft.trim()} aria-label="Send message">
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComplaintThread;
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Images } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { evidenceUrls } from "@/hooks/use-complaints";
+
+interface EvidencePhotosProps {
+  paths: string[];
+}
+
+// Complaint photos are private, so signed links are only fetched when someone asks to see them
+const EvidencePhotos = ({ paths }: EvidencePhotosProps) => {
+  const { toast } = useToast();
+  const [urls, setUrls] = useState<string[] | null>(null);
+
+  const show = async () => {
+    try {
+      setUrls(await evidenceUrls(paths));
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  if (!urls) {
+    return (
+      <Button size="sm" variant="ghost" onClick={show}>
+        <Images className="w-4 h-4 mr-2" />
+        {paths.length} photo{paths.length === 1 ? "" : "s"}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-5 gap-2">
+      {urls.map((url, index) => (
+        <a key={url} href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt={`Evidence ${index + 1}`} className="h-16 w-full rounded object-cover" />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+export default EvidencePhotos;
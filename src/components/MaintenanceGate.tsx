@@ -0,0 +1,21 @@
+import { Outlet } from "react-router-dom";
+import { useMaintenanceMode } from "@/hooks/use-maintenance-mode";
+import Maintenance from "@/pages/Maintenance";
+
+// Layout route for the public and signed-in app. The admin panel and sign-in
+// page sit outside it so admins can still get in to switch maintenance off.
+const MaintenanceGate = () => {
+  const { blocked, isLoading } = useMaintenanceMode();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return blocked ? <Maintenance /> : <Outlet />;
+};
+
+export default MaintenanceGate;
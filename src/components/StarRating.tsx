@@ -0,0 +1,43 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  value: number;
+  // Renders clickable stars when set
+  onChange?: (value: number) => void;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const StarRating = ({ value, onChange, size = "sm", className }: StarRatingProps) => {
+  const iconClass = size === "sm" ? "w-3.5 h-3.5" : "w-6 h-6";
+
+  return (
+    <div className={cn("flex items-center gap-0.5", className)}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              iconClass,
+              star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+            )}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            aria-label={`${star} star${star > 1 ? "s" : ""}`}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "react-router-dom";
-import { LayoutDashboard, Store, Users, MessageSquare, BarChart3, Settings, MapPin } from "lucide-react";
+import { LayoutDashboard, Store, Users, MessageSquare, BarChart3, Settings, MapPin, Megaphone } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { useEffect, useState } from "react";
@@ -52,6 +52,7 @@ const AdminSidebar = () => {
     { icon: MessageSquare, label: "Complaints", path: "/admin/complaints", badge: pendingComplaints },
     { icon: MapPin, label: "Map View", path: "/admin/map" },
     { icon: BarChart3, label: "Reports", path: "/admin/reports" },
+    { icon: Megaphone, label: "Banners", path: "/admin/banners" },
     { icon: Settings, label: "Settings", path: "/admin/settings" },
   ];
 
@@ -9,6 +9,7 @@ interface AdminStatsCardProps {
   trend?: {
     value: number;
     isPositive: boolean;
+    label?: string;
   };
   className?: string;
 }
@@ -26,7 +27,7 @@ const AdminStatsCard = ({ title, value, icon: Icon, trend, className }: AdminSta
                 "text-sm mt-2",
                 trend.isPositive ? "text-green-600" : "text-red-600"
               )}>
-                {trend.isPositive ? "+" : ""}{trend.value}% from last month
+                {trend.isPositive ? "+" : ""}{trend.value}% {trend.label ?? "from last month"}
               </p>
             )}
           </div>
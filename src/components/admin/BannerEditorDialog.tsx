@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { z } from "zod";
+import { BannerView } from "@/components/AnnouncementBanner";
+import { BANNER_AUDIENCES, type Banner } from "@/hooks/use-banners";
+
+const bannerSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(100, "Title too long"),
+    message: z.string().trim().min(1, "Message is required").max(500, "Message too long"),
+    target_roles: z.array(z.string()).min(1, "Pick at least one audience"),
+    start_date: z.string().nullable(),
+    end_date: z.string().nullable(),
+  })
+  .refine((b) => !b.start_date || !b.end_date || b.end_date > b.start_date, {
+    message: "The end must be after the start",
+  });
+
+type BannerDraft = Pick<Banner, "title" | "message" | "type" | "target_roles" | "active" | "start_date" | "end_date">;
+
+const EMPTY_DRAFT: BannerDraft = {
+  title: "",
+  message: "",
+  type: "info",
+  target_roles: ["all"],
+  active: true,
+  start_date: null,
+  end_date: null,
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+interface BannerEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The banner to edit, or null to create one
+  banner: Banner | null;
+  onSaved: (banner: Banner) => void;
+}
+
+const BannerEditorDialog = ({ open, onOpenChange, banner, onSaved }: BannerEditorDialogProps) => {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<BannerDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(banner ? { ...banner } : EMPTY_DRAFT);
+  }, [open, banner]);
+
+  const update = (patch: Partial<BannerDraft>) => setDraft((current) => ({ ...current, ...patch }));
+
+  // "Everyone" and specific audiences are mutually exclusive
+  const toggleAudience = (role: string) => {
+    if (role === "all") {
+      update({ target_roles: ["all"] });
+      return;
+    }
+    const roles = draft.target_roles.filter((r) => r !== "all");
+    update({ target_roles: roles.includes(role) ? roles.filter((r) => r !== role) : [...roles, role] });
+  };
+
+  const save = async () => {
+    const parsed = bannerSchema.safeParse(draft);
+    if (!parsed.success) {
+      toast({ title: "Validation Error", description: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = { ...draft, title: draft.title.trim(), message: draft.message.trim() };
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = banner
+        ? await supabase.from("announcement_banners").update(values).eq("id", banner.id).select().single()
+        : await supabase
+            .from("announcement_banners")
+            .insert({ ...values, created_by: user?.id ?? "" })
+            .select()
+            .single();
+      if (error) throw error;
+
+      toast({ title: "Success", description: banner ? "Banner updated" : "Banner created" });
+      onSaved(data);
+      onOpenChange(false);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{banner ? "Edit Banner" : "New Banner"}</DialogTitle>
+          <DialogDescription>Shown at the top of the app to the selected audience</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <BannerView
+              banner={{
+                title: draft.title || "Banner title",
+                message: draft.message || "Your message appears here.",
+                type: draft.type,
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="banner-title">Title</Label>
+            <Input
+              id="banner-title"
+              maxLength={100}
+              value={draft.title}
+              onChange={(e) => update({ title: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="banner-message">Message</Label>
+            <Textarea
+              id="banner-message"
+              maxLength={500}
+              value={draft.message}
+              onChange={(e) => update({ message: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={draft.type} onValueChange={(v) => update({ type: v as Banner["type"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="info">Info</SelectItem>
+                <SelectItem value="success">Success</SelectItem>
+                <SelectItem value="warning">Warning</SelectItem>
+                <SelectItem value="error">Critical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Audience</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(BANNER_AUDIENCES).map(([role, label]) => (
+                <label key={role} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.target_roles.includes(role)}
+                    onCheckedChange={() => toggleAudience(role)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="banner-start">Starts</Label>
+              <Input
+                id="banner-start"
+                type="datetime-local"
+                value={toLocalInput(draft.start_date)}
+                onChange={(e) => update({ start_date: fromLocalInput(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="banner-end">Ends</Label>
+              <Input
+                id="banner-end"
+                type="datetime-local"
+                value={toLocalInput(draft.end_date)}
+                onChange={(e) => update({ end_date: fromLocalInput(e.target.value) })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Leave empty to show immediately or indefinitely.</p>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="banner-active">Active</Label>
+            <Switch id="banner-active" checked={draft.active} onCheckedChange={(active) => update({ active })} />
+          </div>
+
+          <Button className="w-full" onClick={save} disabled={saving}>
+            {saving ? "Saving..." : banner ? "Save Changes" : "Create Banner"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BannerEditorDialog;
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Database } from "@/integrations/supabase/types";
+
+type WorkloadRow = Database["public"]["Functions"]["complaint_workload"]["Returns"][number];
+
+interface ComplaintWorkloadProps {
+  workload: WorkloadRow[];
+}
+
+const ComplaintWorkload = ({ workload }: ComplaintWorkloadProps) => {
+  if (workload.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Admin Workload</CardTitle>
+        <CardDescription>Open and overdue complaints per assignee</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Admin</TableHead>
+              <TableHead className="text-right">Open</TableHead>
+              <TableHead className="text-right">Overdue</TableHead>
+              <TableHead className="text-right">Closed (30 days)</TableHead>
+              <TableHead className="text-right">Avg. time to close</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {workload.map((admin) => (
+              <TableRow key={admin.admin_id}>
+                <TableCell className="font-medium">{admin.admin_name}</TableCell>
+                <TableCell className="text-right">{admin.open_count}</TableCell>
+                <TableCell className={`text-right ${admin.overdue_count > 0 ? "font-semibold text-destructive" : ""}`}>
+                  {admin.overdue_count}
+                </TableCell>
+                <TableCell className="text-right">{admin.resolved_last_30_days}</TableCell>
+                <TableCell className="text-right">
+                  {admin.avg_resolution_hours === null
+                    ? "—"
+                    : admin.avg_resolution_hours >= 48
+                      ? `${(admin.avg_resolution_hours / 24).toFixed(1)} days`
+                      : `${admin.avg_resolution_hours} hrs`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComplaintWorkload;
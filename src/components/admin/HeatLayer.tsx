@@ -0,0 +1,26 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
+
+interface HeatLayerProps {
+  // [latitude, longitude, intensity]
+  points: L.HeatLatLngTuple[];
+  options?: L.HeatMapOptions;
+}
+
+// react-leaflet has no heatmap component; this mounts a leaflet.heat layer for as long as it renders
+const HeatLayer = ({ points, options }: HeatLayerProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = L.heatLayer(points, options ?? {}).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, points, options]);
+
+  return null;
+};
+
+export default HeatLayer;
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, Leaf, Loader2 } from "lucide-react";
+import { ImpactGrouping, ImpactRange, useEmissionFactors, useImpactReport } from "@/hooks/use-impact";
+import { formatKg } from "@/lib/impact";
+
+interface ImpactReportProps {
+  range: ImpactRange;
+}
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ImpactTable = ({ range, groupBy }: { range: ImpactRange; groupBy: Exclude<ImpactGrouping, "platform"> }) => {
+  const { data: rows = [], isLoading } = useImpactReport(range, groupBy);
+
+  if (isLoading) {
+    return <Loader2 className="w-6 h-6 animate-spin mx-auto my-8 text-muted-foreground" />;
+  }
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No near-expiry sales in this period</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{groupBy === "shop" ? "Shop" : "City"}</TableHead>
+          {groupBy === "shop" && <TableHead>City</TableHead>}
+          <TableHead className="text-right">Units rescued</TableHead>
+          <TableHead className="text-right">Food diverted</TableHead>
+          <TableHead className="text-right">CO₂e avoided</TableHead>
+          <TableHead className="text-right">Customer savings</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.group_key}>
+            <TableCell className="font-medium">{row.group_name}</TableCell>
+            {groupBy === "shop" && <TableCell>{row.city || "—"}</TableCell>}
+            <TableCell className="text-right">{row.units_rescued.toLocaleString("en-IN")}</TableCell>
+            <TableCell className="text-right">{formatKg(row.food_kg)}</TableCell>
+            <TableCell className="text-right">{formatKg(row.co2e_kg)}</TableCell>
+            <TableCell className="text-right">{formatRupees(row.customer_savings)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const Methodology = () => {
+  const [open, setOpen] = useState(false);
+  const { data: factors = [] } = useEmissionFactors();
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-0">
+          <ChevronDown className={`w-4 h-4 mr-1 transition-transform ${open ? "rotate-180" : ""}`} />
+          How these figures are calculated
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 text-sm text-muted-foreground">
+        <ol className="list-decimal pl-5 space-y-1">
+          <li>
+            A unit counts as rescued when it is sold at a near-expiry markdown (any discount above 0%). Units
+            that expire on the shelf are not counted.
+          </li>
+          <li>
+            Food diverted is units × the net weight or volume printed on the pack, with liquids taken at 1 kg per
+            litre. Products without a recorded pack size use the category's assumed pack weight, shown as
+            estimated.
+          </li>
+          <li>CO₂e avoided is food diverted × the emission factor for the product's category.</li>
+          <li>Customer savings is (MRP − price paid) × units, summed over rescued sales.</li>
+        </ol>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">kg CO₂e per kg</TableHead>
+              <TableHead className="text-right">Assumed pack</TableHead>
+              <TableHead>Source</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {factors.map((factor) => (
+              <TableRow key={factor.category}>
+                <TableCell className="capitalize">
+                  {factor.category === "default" ? "Other categories" : factor.category}
+                </TableCell>
+                <TableCell className="text-right">{factor.kg_co2e_per_kg}</TableCell>
+                <TableCell className="text-right">{formatKg(factor.default_pack_kg)}</TableCell>
+                <TableCell>{factor.source || "—"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const ImpactReport = ({ range }: ImpactReportProps) => {
+  const { data: platform, isLoading } = useImpactReport(range);
+  const totals = platform?.[0];
+  const estimatedShare = totals && totals.food_kg > 0 ? Math.round((100 * totals.estimated_kg) / totals.food_kg) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Leaf className="w-5 h-5" />
+          Food Waste Impact
+        </CardTitle>
+        <CardDescription>Near-expiry stock sold instead of thrown away, for the filters above</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs defaultValue="platform">
+          <TabsList>
+            <TabsTrigger value="platform">Platform</TabsTrigger>
+            <TabsTrigger value="city">By city</TabsTrigger>
+            <TabsTrigger value="shop">By shop</TabsTrigger>
+          </TabsList>
+          <TabsContent value="platform">
+            {isLoading ? (
+              <Loader2 className="w-6 h-6 animate-spin mx-auto my-8 text-muted-foreground" />
+            ) : (
+              <div className="grid gap-4 md:grid-cols-4 pt-2">
+                <div>
+                  <p className="text-sm text-muted-foreground">Food diverted</p>
+                  <p className="text-2xl font-bold text-green-600 dark:text-green-400">{formatKg(totals?.food_kg || 0)}</p>
+                  {estimatedShare > 0 && (
+                    <p className="text-xs text-muted-foreground">{estimatedShare}% estimated from category defaults</p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">CO₂e avoided</p>
+                  <p className="text-2xl font-bold">{formatKg(totals?.co2e_kg || 0)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Saved by customers</p>
+                  <p className="text-2xl font-bold">{formatRupees(totals?.customer_savings || 0)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Units rescued</p>
+                  <p className="text-2xl font-bold">{(totals?.units_rescued || 0).toLocaleString("en-IN")}</p>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+          <TabsContent value="city">
+            <ImpactTable range={range} groupBy="city" />
+          </TabsContent>
+          <TabsContent value="shop">
+            <ImpactTable range={range} groupBy="shop" />
+          </TabsContent>
+        </Tabs>
+        <Methodology />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ImpactReport;
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useRollbackSetting, useSettingHistory } from "@/hooks/use-settings";
+import { SETTINGS, formatSettingValue, isSettingKey } from "@/lib/settings";
+import { formatDistanceToNow } from "date-fns";
+import { Undo2 } from "lucide-react";
+
+const SettingsHistory = () => {
+  const { toast } = useToast();
+  const { data: history = [], isLoading } = useSettingHistory();
+  const { mutate: rollback, isPending, variables: rollingBack } = useRollbackSetting();
+
+  const handleRollback = (historyId: string) =>
+    rollback(historyId, {
+      onSuccess: () => toast({ title: "Setting restored" }),
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+    });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Change History</CardTitle>
+        <CardDescription>The last 50 setting changes. Rolling back restores the value from before that change.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : history.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No changes recorded yet</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Setting</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell className="font-medium">
+                    {isSettingKey(change.setting_key) ? SETTINGS[change.setting_key].label : change.setting_key}
+                    {change.rolled_back_from && (
+                      <Badge variant="outline" className="ml-2">Rollback</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatSettingValue(change.setting_key, change.old_value)}
+                    {" → "}
+                    {formatSettingValue(change.setting_key, change.new_value)}
+                  </TableCell>
+                  <TableCell>{change.profiles?.name ?? "System"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {formatDistanceToNow(new Date(change.changed_at), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>
+                    {change.old_value !== null && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRollback(change.id)}
+                        disabled={isPending && rollingBack === change.id}
+                      >
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        Roll back
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SettingsHistory;
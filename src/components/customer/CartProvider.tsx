@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CartContext, type CartBatch, type CartLine } from "@/hooks/use-cart";
+
+const CartProvider = ({ children }: { children: ReactNode }) => {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Quantity writes are chained per line so they reach the database in order
+  const quantityWrites = useRef(new Map<string, Promise<void>>());
+  const latestQuantity = useRef(new Map<string, number>());
+
+  const reload = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("cart_items")
+      .select(`
+        *,
+        inventory_batches (quantity, status, mrp, discount_percent, expiry_date),
+        products (name, brand),
+        shops (name, address)
+      `)
+      .eq("customer_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (!error && data) {
+      setLines(data);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const addItem = async (batch: CartBatch, quantity = 1) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Login required",
+        description: "Please log in to add products to your cart",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const existing = lines.find((line) => line.batch_id === batch.id);
+    const { error } = existing
+      ? await supabase
+          .from("cart_items")
+          .update({ quantity: existing.quantity + quantity })
+          .eq("id", existing.id)
+      : await supabase.from("cart_items").insert({
+          customer_id: user.id,
+          shop_id: batch.shop_id,
+          product_id: batch.product_id,
+          batch_id: batch.id,
+          quantity,
+        });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Added to cart" });
+    reload();
+  };
+
+  const updateQuantity = async (lineId: string, quantity: number) => {
+    if (quantity < 1) return removeItem(lineId);
+
+    setLines((current) => current.map((line) => (line.id === lineId ? { ...line, quantity } : line)));
+    latestQuantity.current.set(lineId, quantity);
+
+    const previous = quantityWrites.current.get(lineId) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      // A newer quantity was queued behind this one; only that one needs saving
+      if (latestQuantity.current.get(lineId) !== quantity) return;
+
+      const { error } = await supabase.from("cart_items").update({ quantity }).eq("id", lineId);
+
+      if (error && latestQuantity.current.get(lineId) === quantity) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+        reload();
+      }
+    });
+
+    quantityWrites.current.set(lineId, write);
+    await write;
+    if (quantityWrites.current.get(lineId) === write) {
+      quantityWrites.current.delete(lineId);
+      latestQuantity.current.delete(lineId);
+    }
+  };
+
+  const removeItem = async (lineId: string) => {
+    setLines((current) => current.filter((line) => line.id !== lineId));
+    const { error } = await supabase.from("cart_items").delete().eq("id", lineId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      reload();
+    }
+  };
+
+  const reserveShop = async (shopId: string) => {
+    const { data, error } = await supabase.rpc("reserve_cart", { _shop_id: shopId });
+
+    // Stock may have moved since the cart was loaded, so always refresh
+    await reload();
+
+    if (error) {
+      toast({ title: "Reservation Failed", description: error.message, variant: "destructive" });
+      return null;
+    }
+
+    return data;
+  };
+
+  const itemCount = useMemo(() => lines.reduce((sum, line) => sum + line.quantity, 0), [lines]);
+
+  return (
+    <CartContext.Provider
+      value={{ lines, itemCount, loading, addItem, updateQuantity, removeItem, reserveShop, reload }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
+
+export default CartProvider;
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ShoppingCart, Store, Trash2, Loader2, Minus, Plus, AlertCircle } from "lucide-react";
+import { format } from "date-fns";
+import { cartLineIssue, useCart, type CartLine } from "@/hooks/use-cart";
+import type { Tables } from "@/integrations/supabase/types";
+import PickupCode from "./PickupCode";
+
+const unitPrice = (line: CartLine) => {
+  const batch = line.inventory_batches;
+  return batch ? batch.mrp * (1 - batch.discount_percent / 100) : 0;
+};
+
+// Typing "12" would otherwise save 1 and then 12, so only commit on blur or Enter
+const QuantityInput = ({ quantity, onCommit }: { quantity: number; onCommit: (quantity: number) => void }) => {
+  const [draft, setDraft] = useState(String(quantity));
+
+  useEffect(() => {
+    setDraft(String(quantity));
+  }, [quantity]);
+
+  const commit = () => {
+    const next = parseInt(draft) || 1;
+    setDraft(String(next));
+    if (next !== quantity) onCommit(next);
+  };
+
+  return (
+    <Input
+      type="number"
+      min="1"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      className="w-14 h-7 text-center"
+    />
+  );
+};
+
+const CartSheet = () => {
+  const { toast } = useToast();
+  const { lines, itemCount, updateQuantity, removeItem, reserveShop, reload } = useCart();
+  const [reservingShop, setReservingShop] = useState<string | null>(null);
+  const [reservations, setReservations] = useState<Tables<"orders">[]>([]);
+
+  const groups = lines.reduce<Record<string, CartLine[]>>((acc, line) => {
+    (acc[line.shop_id] ||= []).push(line);
+    return acc;
+  }, {});
+
+  const handleReserve = async (shopId: string, shopName: string) => {
+    setReservingShop(shopId);
+    const order = await reserveShop(shopId);
+    setReservingShop(null);
+
+    if (order) {
+      setReservations((current) => [order, ...current]);
+      toast({
+        title: "Reserved! 🎉",
+        description: `Show code ${order.pickup_code} at ${shopName} to collect and pay.`,
+      });
+    }
+  };
+
+  return (
+    <Sheet onOpenChange={(open) => open && reload()}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <ShoppingCart className="w-5 h-5" />
+          {itemCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-5 min-w-5 px-1 flex items-center justify-center text-xs">
+              {itemCount}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Your Cart</SheetTitle>
+          <SheetDescription>Each shop is reserved as one order and paid at pickup</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {reservations.map((order) => (
+            <div key={order.id} className="border rounded-lg p-3 space-y-2 bg-primary/5">
+              <p className="text-sm font-medium text-center">
+                Reserved · ₹{Number(order.total).toFixed(2)} to pay at pickup
+              </p>
+              <PickupCode code={order.pickup_code} holdExpiresAt={order.hold_expires_at} orderNumber={order.order_number} />
+            </div>
+          ))}
+
+          {lines.length === 0 && reservations.length === 0 && (
+            <div className="text-center py-12 text-muted-foreground">
+              <ShoppingCart className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>Your cart is empty</p>
+            </div>
+          )}
+
+          {Object.entries(groups).map(([shopId, shopLines]) => {
+            const shopName = shopLines[0].shops?.name || "Shop";
+            const hasIssues = shopLines.some((line) => cartLineIssue(line));
+            const total = shopLines.reduce((sum, line) => sum + unitPrice(line) * line.quantity, 0);
+
+            return (
+              <div key={shopId} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Store className="w-4 h-4" />
+                  <div>
+                    <p className="font-semibold">{shopName}</p>
+                    {shopLines[0].shops?.address && (
+                      <p className="text-xs text-muted-foreground">{shopLines[0].shops.address}</p>
+                    )}
+                  </div>
+                </div>
+
+                {shopLines.map((line) => {
+                  const issue = cartLineIssue(line);
+                  const batch = line.inventory_batches;
+                  return (
+                    <div key={line.id} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{line.products?.name}</p>
+                          {batch && (
+                            <p className="text-xs text-muted-foreground">
+                              ₹{unitPrice(line).toFixed(2)} · {batch.discount_percent}% off · Exp{" "}
+                              {format(new Date(batch.expiry_date), "dd MMM")}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            size="icon"
+                            variant="outline"
+                            className="h-7 w-7"
+                            onClick={() => updateQuantity(line.id, line.quantity - 1)}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <QuantityInput
+                            quantity={line.quantity}
+                            onCommit={(quantity) => updateQuantity(line.id, quantity)}
+                          />
+                          <Button
+                            size="icon"
+                            variant="outline"
+                            className="h-7 w-7"
+                            onClick={() => updateQuantity(line.id, line.quantity + 1)}
+                            disabled={!!batch && line.quantity >= batch.quantity}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => removeItem(line.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {issue && (
+                        <p className="text-xs text-destructive flex items-center gap-1">
+                          <AlertCircle className="w-3 h-3" />
+                          {issue}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <div className="flex items-center justify-between border-t pt-3">
+                  <span className="font-semibold">₹{total.toFixed(2)}</span>
+                  <Button
+                    onClick={() => handleReserve(shopId, shopName)}
+                    disabled={hasIssues || reservingShop !== null}
+                  >
+                    {reservingShop === shopId ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <ShoppingCart className="w-4 h-4 mr-2" />
+                    )}
+                    Reserve for Pickup
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CartSheet;
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { LifeBuoy, MessageSquare } from "lucide-react";
+import { format } from "date-fns";
+import { CustomerComplaint, useMyComplaints } from "@/hooks/use-complaints";
+import EvidencePhotos from "@/components/EvidencePhotos";
+import ComplaintThread from "@/components/ComplaintThread";
+import { COMPLAINT_CATEGORY_LABELS, COMPLAINT_STATUS_LABELS } from "@/lib/complaints";
+
+const statusBadge = (status: CustomerComplaint["status"]) => {
+  switch (status) {
+    case "pending":
+      return <Badge variant="secondary">{COMPLAINT_STATUS_LABELS.pending}</Badge>;
+    case "in_progress":
+      return <Badge className="bg-blue-600">{COMPLAINT_STATUS_LABELS.in_progress}</Badge>;
+    case "resolved":
+      return <Badge className="bg-green-600">{COMPLAINT_STATUS_LABELS.resolved}</Badge>;
+    case "rejected":
+      return <Badge variant="destructive">{COMPLAINT_STATUS_LABELS.rejected}</Badge>;
+  }
+};
+
+const ComplaintsPanel = () => {
+  const { complaints, isLoading } = useMyComplaints();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading your reports...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold mb-1 flex items-center gap-2">
+          <LifeBuoy className="w-6 h-6" />
+          Support
+        </h2>
+        <p className="text-muted-foreground">
+          Problems you've reported and your conversation with the shop and our team. Use "Report a problem" on a product, store or order to file a new one.
+        </p>
+      </div>
+
+      {complaints.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            You haven't reported any problems.
+          </CardContent>
+        </Card>
+      ) : (
+        complaints.map((complaint) => (
+          <Card key={complaint.id}>
+            <CardHeader className="flex flex-row items-start justify-between pb-3">
+              <div>
+                <CardTitle className="text-lg">{complaint.title}</CardTitle>
+                <CardDescription>
+                  {COMPLAINT_CATEGORY_LABELS[complaint.category]}
+                  {complaint.shops && ` · ${complaint.shops.name}`}
+                  {complaint.products && ` · ${complaint.products.name}`}
+                  {` · ${format(new Date(complaint.created_at), "PP")}`}
+                </CardDescription>
+              </div>
+              {statusBadge(complaint.status)}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm whitespace-pre-line">{complaint.description}</p>
+              {(complaint.status === "pending" || complaint.status === "in_progress") && (
+                <p className="text-xs text-muted-foreground">
+                  We aim to resolve this by {format(new Date(complaint.due_at), "PP")}
+                </p>
+              )}
+              {complaint.evidence_paths.length > 0 && <EvidencePhotos paths={complaint.evidence_paths} />}
+              {complaint.resolution_note && (
+                <div className="rounded-lg bg-muted p-3 text-sm">
+                  <p className="font-medium">Response from ClearShelf</p>
+                  <p className="text-muted-foreground">{complaint.resolution_note}</p>
+                  {complaint.resolved_at && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {format(new Date(complaint.resolved_at), "PP p")}
+                    </p>
+                  )}
+                </div>
+              )}
+              {expanded === complaint.id ? (
+                <div className="border-t pt-3">
+                  <ComplaintThread
+                    complaintId={complaint.id}
+                    open={complaint.status === "pending" || complaint.status === "in_progress"}
+                  />
+                </div>
+              ) : (
+                <Button size="sm" variant="ghost" onClick={() => setExpanded(complaint.id)}>
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Conversation
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ComplaintsPanel;
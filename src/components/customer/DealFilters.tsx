@@ -0,0 +1,183 @@
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { SlidersHorizontal } from "lucide-react";
+import { Coordinates } from "@/hooks/use-geolocation";
+import {
+  DEFAULT_DEAL_FILTERS,
+  DealSearchFilters,
+  countActiveFilters,
+  dietaryFilter,
+  useDealFacets,
+} from "@/hooks/use-deal-search";
+import { useDietaryPreferences } from "@/hooks/use-dietary-preferences";
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+interface DealFiltersProps {
+  query: string;
+  location: Coordinates | null;
+  radiusKm: number | null;
+  value: DealSearchFilters;
+  onChange: (filters: DealSearchFilters) => void;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const DealFilters = ({ query, location, radiusKm, value, onChange }: DealFiltersProps) => {
+  const { preferences } = useDietaryPreferences();
+  const { data: facets } = useDealFacets(
+    query,
+    location,
+    radiusKm,
+    dietaryFilter(preferences, value.hideDietConflicts)
+  );
+  const activeCount = countActiveFilters(value);
+
+  const update = (patch: Partial<DealSearchFilters>) => onChange({ ...value, ...patch });
+
+  const parsePrice = (input: string) => (input === "" ? null : Math.max(0, Number(input)));
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Filters
+          {activeCount > 0 && <Badge className="ml-2">{activeCount}</Badge>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Filter deals</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="open-now">Open now</Label>
+            <Switch
+              id="open-now"
+              checked={value.openNow}
+              onCheckedChange={(checked) => update({ openNow: checked })}
+            />
+          </div>
+
+          {preferences.length > 0 && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="hide-diet-conflicts">Hide items that don't fit my diet</Label>
+              <Switch
+                id="hide-diet-conflicts"
+                checked={value.hideDietConflicts}
+                onCheckedChange={(checked) => update({ hideDietConflicts: checked })}
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <Label>
+              Discount: {value.discountRange[0]}% – {value.discountRange[1]}%
+            </Label>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={value.discountRange}
+              onValueChange={(range) => update({ discountRange: [range[0], range[1]] })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Expires within</Label>
+            <Select
+              value={value.maxDaysToExpiry === null ? "any" : String(value.maxDaysToExpiry)}
+              onValueChange={(v) => update({ maxDaysToExpiry: v === "any" ? null : Number(v) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any time</SelectItem>
+                {EXPIRY_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} day{days > 1 ? "s" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Price (₹)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min"
+                value={value.minPrice ?? ""}
+                onChange={(e) => update({ minPrice: parsePrice(e.target.value) })}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder={facets?.maxPrice ? `Max ${facets.maxPrice}` : "Max"}
+                value={value.maxPrice ?? ""}
+                onChange={(e) => update({ maxPrice: parsePrice(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          {facets && facets.categories.length > 0 && (
+            <div className="space-y-2">
+              <Label>Category</Label>
+              {facets.categories.map((facet) => (
+                <label key={facet.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={value.categories.includes(facet.value)}
+                    onCheckedChange={() => update({ categories: toggle(value.categories, facet.value) })}
+                  />
+                  <span className="flex-1">{facet.value}</span>
+                  <span className="text-muted-foreground">{facet.deal_count}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {facets && facets.brands.length > 0 && (
+            <div className="space-y-2">
+              <Label>Brand</Label>
+              {facets.brands.map((facet) => (
+                <label key={facet.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={value.brands.includes(facet.value)}
+                    onCheckedChange={() => update({ brands: toggle(value.brands, facet.value) })}
+                  />
+                  <span className="flex-1">{facet.value}</span>
+                  <span className="text-muted-foreground">{facet.deal_count}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <Button
+            variant="ghost"
+            className="w-full"
+            disabled={activeCount === 0}
+            onClick={() => onChange({ ...DEFAULT_DEAL_FILTERS, hideDietConflicts: value.hideDietConflicts })}
+          >
+            Clear filters
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DealFilters;
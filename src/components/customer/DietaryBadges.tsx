@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import { useDietaryPreferences } from "@/hooks/use-dietary-preferences";
+import { DIET_LABELS, DietaryInfo, dietUnknown, dietaryConflicts } from "@/lib/dietary";
+
+interface DietaryBadgesProps {
+  product: DietaryInfo;
+}
+
+const DietaryBadges = ({ product }: DietaryBadgesProps) => {
+  const { preferences } = useDietaryPreferences();
+  const conflicts = dietaryConflicts(preferences, product);
+  const unknown = dietUnknown(preferences, product);
+
+  if (!product.diet && conflicts.length === 0 && !unknown) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {product.diet && (
+        <Badge
+          variant="outline"
+          className={product.diet === "non_veg" ? "border-red-500 text-red-600" : "border-green-600 text-green-700"}
+        >
+          {DIET_LABELS[product.diet]}
+        </Badge>
+      )}
+      {conflicts.map((conflict) => (
+        <Badge key={conflict} variant="destructive" className="flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          {conflict}
+        </Badge>
+      ))}
+      {unknown && <Badge variant="secondary">Diet not specified</Badge>}
+    </div>
+  );
+};
+
+export default DietaryBadges;
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Leaf } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useDietaryPreferences } from "@/hooks/use-dietary-preferences";
+import { ALLERGENS, ALLERGEN_LABELS, DIET_LABELS, DIET_PREFERENCES, DietType } from "@/lib/dietary";
+
+const DietaryPreferencesDialog = () => {
+  const { toast } = useToast();
+  const { preferences, savePreferences, saving } = useDietaryPreferences();
+  const [open, setOpen] = useState(false);
+  const [diet, setDiet] = useState("none");
+  const [avoid, setAvoid] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDiet(preferences.find((p) => DIET_PREFERENCES.includes(p as DietType)) ?? "none");
+      setAvoid(preferences.filter((p) => ALLERGENS.includes(p)));
+    }
+  }, [open, preferences]);
+
+  const toggleAllergen = (allergen: string) => {
+    setAvoid((current) =>
+      current.includes(allergen) ? current.filter((a) => a !== allergen) : [...current, allergen]
+    );
+  };
+
+  const save = async () => {
+    try {
+      await savePreferences(diet === "none" ? avoid : [diet, ...avoid]);
+      toast({ title: "Preferences saved", description: "Deals are now matched to your diet." });
+      setOpen(false);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Leaf className="w-4 h-4 mr-2" />
+          Diet
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dietary Preferences</DialogTitle>
+          <DialogDescription>
+            Products that don't match are hidden or flagged in the feed and on the map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Diet</Label>
+            <RadioGroup value={diet} onValueChange={setDiet} className="grid grid-cols-2 gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="none" />
+                No restriction
+              </label>
+              {DIET_PREFERENCES.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value={option} />
+                  {DIET_LABELS[option]}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Avoid</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALLERGENS.map((allergen) => (
+                <label key={allergen} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={avoid.includes(allergen)}
+                    onCheckedChange={() => toggleAllergen(allergen)}
+                  />
+                  {ALLERGEN_LABELS[allergen]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button className="w-full" onClick={save} disabled={saving}>
+            {saving ? "Saving..." : "Save Preferences"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DietaryPreferencesDialog;
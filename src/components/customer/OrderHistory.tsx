@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { PiggyBank, Receipt, Store, X } from "lucide-react";
+import { format } from "date-fns";
+import { receiptTotals, writeReceipt, type ReceiptLine } from "@/lib/receipt";
+import PickupCode from "./PickupCode";
+import ReportProblemDialog from "./ReportProblemDialog";
+
+interface HistoryEntry {
+  key: string;
+  orderId?: string;
+  shopId: string;
+  shopName: string;
+  date: string;
+  number?: number;
+  status: "completed" | "reserved" | "cancelled" | "expired";
+  pickupCode?: string;
+  holdExpiresAt?: string;
+  lines: ReceiptLine[];
+}
+
+type LineRow = {
+  quantity: number;
+  mrp: number | null;
+  discount_percent: number | null;
+  products: { name: string } | null;
+  inventory_batches: { expiry_date: string } | null;
+};
+
+const toReceiptLine = (row: LineRow, paid: number): ReceiptLine => ({
+  name: row.products?.name || "Product",
+  quantity: row.quantity,
+  mrp: Number(row.mrp ?? paid),
+  discountPercent: Number(row.discount_percent ?? 0),
+  unitPrice: Number(paid),
+  expiryDate: row.inventory_batches?.expiry_date,
+});
+
+const statusBadge = (status: HistoryEntry["status"]) => {
+  switch (status) {
+    case "completed":
+      return <Badge className="bg-green-600">Completed</Badge>;
+    case "reserved":
+      return <Badge className="bg-blue-600">Ready for pickup</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelled</Badge>;
+    case "expired":
+      return <Badge variant="destructive">Not collected</Badge>;
+  }
+};
+
+const OrderHistory = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    const lineFields = "quantity, mrp, discount_percent, products (name), inventory_batches (expiry_date)";
+
+    const [ordersResult, billsResult, legacyResult] = await Promise.all([
+      supabase
+        .from("orders")
+        .select(`*, shops (name), order_items (unit_price, ${lineFields})`)
+        .eq("customer_id", user.id),
+      supabase
+        .from("bills")
+        .select(`*, shops (name), transactions (price, ${lineFields})`)
+        .eq("customer_id", user.id),
+      // Purchases made before bills existed
+      supabase
+        .from("transactions")
+        .select(`id, shop_id, timestamp, price, ${lineFields}, shops (name)`)
+        .eq("customer_id", user.id)
+        .is("bill_id", null),
+    ]);
+
+    const error = ordersResult.error || billsResult.error || legacyResult.error;
+    if (error) {
+      toast({ title: "Error", description: "Failed to load your orders", variant: "destructive" });
+      setLoading(false);
+      return;
+    }
+
+    const orders = ordersResult.data || [];
+
+    const history: HistoryEntry[] = [
+      // Collected reservations show up through their bill below
+      ...orders
+        .filter((o) => o.status !== "collected")
+        .map((o) => ({
+          key: `order-${o.id}`,
+          orderId: o.id,
+          shopId: o.shop_id,
+          shopName: o.shops?.name || "Shop",
+          date: o.created_at,
+          number: o.order_number,
+          status: o.status as HistoryEntry["status"],
+          pickupCode: o.pickup_code,
+          holdExpiresAt: o.hold_expires_at,
+          lines: o.order_items.map((item) => toReceiptLine(item, item.unit_price)),
+        })),
+      ...(billsResult.data || []).map((b) => ({
+        key: `bill-${b.id}`,
+        shopId: b.shop_id,
+        shopName: b.shops?.name || "Shop",
+        date: b.created_at,
+        number: b.bill_number,
+        status: "completed" as const,
+        lines: b.transactions.map((t) => toReceiptLine(t, t.price)),
+      })),
+      ...(legacyResult.data || []).map((t) => ({
+        key: `txn-${t.id}`,
+        shopId: t.shop_id,
+        shopName: t.shops?.name || "Shop",
+        date: t.timestamp,
+        status: "completed" as const,
+        lines: [toReceiptLine(t, t.price)],
+      })),
+    ];
+
+    history.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    setEntries(history);
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleCancel = async (orderId: string) => {
+    const { error } = await supabase.rpc("cancel_order", { _order_id: orderId });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Reservation cancelled" });
+    loadHistory();
+  };
+
+  const handleReceipt = (entry: HistoryEntry) => {
+    writeReceipt(null, {
+      shopName: entry.shopName,
+      billNumber: entry.number,
+      date: new Date(entry.date),
+      lines: entry.lines,
+    });
+  };
+
+  const completed = entries.filter((e) => e.status === "completed");
+  const lifetimeSavings = completed.reduce((sum, e) => sum + receiptTotals(e.lines).savings, 0);
+
+  if (loading) {
+    return <div className="text-center py-8 text-muted-foreground">Loading orders...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gradient-to-r from-primary/10 to-accent/10">
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <div>
+            <CardTitle>Money Saved</CardTitle>
+            <CardDescription>Across {completed.length} completed purchase{completed.length === 1 ? "" : "s"}</CardDescription>
+          </div>
+          <PiggyBank className="w-8 h-8 text-primary" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-3xl font-bold text-primary">₹{lifetimeSavings.toFixed(2)}</div>
+        </CardContent>
+      </Card>
+
+      {entries.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No orders yet. Reserve a discounted product to get started!
+          </CardContent>
+        </Card>
+      ) : (
+        entries.map((entry) => {
+          const { mrpTotal, total, savings } = receiptTotals(entry.lines);
+          return (
+            <Card key={entry.key}>
+              <CardHeader className="flex flex-row items-start justify-between pb-3">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Store className="w-4 h-4" />
+                    {entry.shopName}
+                  </CardTitle>
+                  <CardDescription>
+                    {entry.number && `${entry.status === "completed" ? "Bill" : "Order"} #${entry.number} · `}
+                    {format(new Date(entry.date), "PP p")}
+                  </CardDescription>
+                </div>
+                {statusBadge(entry.status)}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <ul className="space-y-2 text-sm">
+                  {entry.lines.map((line, index) => (
+                    <li key={index} className="flex justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{line.quantity} × {line.name}</p>
+                        {line.expiryDate && (
+                          <p className="text-xs text-muted-foreground">
+                            Expires {format(new Date(line.expiryDate), "PP")}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold">₹{(line.unitPrice * line.quantity).toFixed(2)}</p>
+                        {line.discountPercent > 0 && (
+                          <p className="text-xs text-muted-foreground line-through">
+                            ₹{(line.mrp * line.quantity).toFixed(2)}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                {entry.status === "reserved" && entry.pickupCode && entry.holdExpiresAt && (
+                  <PickupCode code={entry.pickupCode} holdExpiresAt={entry.holdExpiresAt} />
+                )}
+
+                <div className="flex items-center justify-between border-t pt-3">
+                  <div className="text-sm">
+                    <span className="font-semibold">₹{total.toFixed(2)}</span>
+                    {savings > 0 && (
+                      <span className="text-muted-foreground ml-2">
+                        saved ₹{savings.toFixed(2)} on ₹{mrpTotal.toFixed(2)}
+                      </span>
+                    )}
+                  </div>
+                  {entry.status === "completed" && (
+                    <div className="flex gap-2">
+                      <ReportProblemDialog
+                        shopId={entry.shopId}
+                        subject={`${entry.shopName}${entry.number ? ` · Bill #${entry.number}` : ""}`}
+                      />
+                      <Button size="sm" variant="outline" onClick={() => handleReceipt(entry)}>
+                        <Receipt className="w-4 h-4 mr-2" />
+                        Receipt
+                      </Button>
+                    </div>
+                  )}
+                  {entry.status === "reserved" && entry.orderId && (
+                    <Button size="sm" variant="outline" onClick={() => handleCancel(entry.orderId!)}>
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default OrderHistory;
@@ -0,0 +1,26 @@
+import { QRCodeSVG } from "qrcode.react";
+import { format } from "date-fns";
+import { Clock } from "lucide-react";
+
+interface PickupCodeProps {
+  code: string;
+  holdExpiresAt: string;
+  orderNumber?: number;
+}
+
+// Counter barcode scanners type the QR contents straight into the shop's pickup field
+const PickupCode = ({ code, holdExpiresAt, orderNumber }: PickupCodeProps) => {
+  return (
+    <div className="flex flex-col items-center gap-3 p-4 bg-secondary/50 rounded-lg">
+      {orderNumber && <p className="text-sm text-muted-foreground">Order #{orderNumber}</p>}
+      <QRCodeSVG value={code} size={140} />
+      <p className="text-3xl font-mono font-bold tracking-[0.3em]">{code}</p>
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <Clock className="w-3 h-3" />
+        Held until {format(new Date(holdExpiresAt), "PP p")}
+      </p>
+    </div>
+  );
+};
+
+export default PickupCode;
@@ -3,10 +3,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Heart, ShoppingCart } from "lucide-react";
+import { Heart, ShoppingCart, ShoppingBasket } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import CheckoutDialog from "./CheckoutDialog";
+import DietaryBadges from "./DietaryBadges";
+import ReviewsDialog from "./ReviewsDialog";
+import ReportProblemDialog from "./ReportProblemDialog";
+import { useCart } from "@/hooks/use-cart";
+import { formatDistance } from "@/lib/distance";
 
 interface ProductCardProps {
   batch: any;
@@ -14,6 +19,7 @@ interface ProductCardProps {
 
 const ProductCard = ({ batch }: ProductCardProps) => {
   const { toast } = useToast();
+  const { addItem } = useCart();
   const [isInWishlist, setIsInWishlist] = useState(false);
   const [loading, setLoading] = useState(false);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
@@ -120,6 +126,25 @@ const ProductCard = ({ batch }: ProductCardProps) => {
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        <DietaryBadges product={batch.products} />
+
+        <div className="flex items-center justify-between">
+          <ReviewsDialog
+            shopId={batch.shop_id}
+            productId={batch.product_id}
+            title={`${batch.products.name} at ${batch.shops.name}`}
+            averageRating={batch.rating?.average ?? null}
+            reviewCount={batch.rating?.count ?? 0}
+          />
+          <ReportProblemDialog
+            shopId={batch.shop_id}
+            productId={batch.product_id}
+            subject={`${batch.products.name} at ${batch.shops.name}`}
+            defaultCategory="fake_discount"
+            compact
+          />
+        </div>
+
         <div className="flex items-center justify-between">
           <div>
             <p className="text-xs text-muted-foreground">Price</p>
@@ -140,6 +165,7 @@ const ProductCard = ({ batch }: ProductCardProps) => {
         <div className="pt-2 border-t space-y-1">
           <p className="text-xs text-muted-foreground">
             <span className="font-medium">Store:</span> {batch.shops.name}
+            {formatDistance(batch.distance_km) && ` · ${formatDistance(batch.distance_km)} away`}
           </p>
           <p className="text-xs text-muted-foreground">
             <span className="font-medium">Stock:</span> {batch.quantity} units
@@ -150,14 +176,25 @@ const ProductCard = ({ batch }: ProductCardProps) => {
           </p>
         </div>
 
-        <Button
-          className="w-full"
-          onClick={() => setCheckoutOpen(true)}
-          disabled={batch.quantity === 0}
-        >
-          <ShoppingCart className="w-4 h-4 mr-2" />
-          Buy Now
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => addItem(batch)}
+            disabled={batch.quantity === 0}
+          >
+            <ShoppingBasket className="w-4 h-4 mr-2" />
+            Add to Cart
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => setCheckoutOpen(true)}
+            disabled={batch.quantity === 0}
+          >
+            <ShoppingCart className="w-4 h-4 mr-2" />
+            Reserve
+          </Button>
+        </div>
       </CardContent>
 
       <CheckoutDialog
@@ -1,114 +1,229 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { hashKey, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Search, MapPin, RefreshCw } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { useDietaryPreferences } from "@/hooks/use-dietary-preferences";
+import {
+  DEFAULT_DEAL_FILTERS,
+  DealRow,
+  DealSearchFilters,
+  DealSort,
+  countActiveFilters,
+  dealSearchQueryKey,
+  toBatch,
+  useDealSearch,
+} from "@/hooks/use-deal-search";
+import { MAX_FILTER_VALUES, inFilter, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import { DEFAULT_RADIUS_KM } from "@/lib/distance";
 import ProductCard from "./ProductCard";
+import RadiusSelect from "./RadiusSelect";
+import DealFilters from "./DealFilters";
 
 const ProductFeed = () => {
-  const [products, setProducts] = useState<any[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<any[]>([]);
+  const queryClient = useQueryClient();
   const [search, setSearch] = useState("");
-  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<DealSearchFilters>(DEFAULT_DEAL_FILTERS);
+  const [debounced, setDebounced] = useState({ query: "", filters: DEFAULT_DEAL_FILTERS });
+  const { location, denied } = useGeolocation();
+  const [radiusKm, setRadiusKm] = useState<number | null>(DEFAULT_RADIUS_KM);
+  const [sort, setSort] = useState<DealSort>("relevance");
+  const [newDeals, setNewDeals] = useState(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
+  // Wait for typing to settle before hitting the search RPC
   useEffect(() => {
-    loadProducts();
-
-    const channel = supabase
-      .channel("product-updates")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "inventory_batches",
-        },
-        () => {
-          loadProducts();
-        }
-      )
-      .subscribe();
+    const timeout = setTimeout(() => setDebounced({ query: search.trim(), filters }), 300);
+    return () => clearTimeout(timeout);
+  }, [search, filters]);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  const { preferences: dietary } = useDietaryPreferences();
+  const searchParams = { query: debounced.query, filters: debounced.filters, sort, location, radiusKm, dietary };
+  const dealSearchKey = dealSearchQueryKey(searchParams);
+  const dealSearchHash = hashKey(dealSearchKey);
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useDealSearch(searchParams);
 
   useEffect(() => {
-    if (search) {
-      setFilteredProducts(
-        products.filter(
-          (p) =>
-            p.products &&
-            (p.products.name.toLowerCase().includes(search.toLowerCase()) ||
-            p.products.brand?.toLowerCase().includes(search.toLowerCase()) ||
-            p.products.category.toLowerCase().includes(search.toLowerCase()))
-        )
-      );
-    } else {
-      setFilteredProducts(products);
-    }
-  }, [search, products]);
-
-  const loadProducts = async () => {
-    const { data, error } = await supabase
-      .from("inventory_batches")
-      .select(`
-        *,
-        products (name, brand, category),
-        shops (name, address)
-      `)
-      .eq("status", "active")
-      .order("discount_percent", { ascending: false });
-
-    if (!error && data) {
-      // Filter out batches with missing product data
-      const validData = data.filter(batch => batch.products && batch.shops);
-      setProducts(validData);
-      setFilteredProducts(validData);
-    }
-    setLoading(false);
+    setNewDeals(0);
+  }, [dealSearchHash]);
+
+  // Watch the shops in the selected radius, or failing that the shops of the deals on screen
+  const { data: nearbyShopIds } = useQuery({
+    queryKey: ["nearby-shop-ids", location, radiusKm],
+    enabled: !!location && radiusKm !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("nearby_shops", {
+        _lat: location?.[0],
+        _lng: location?.[1],
+        _radius_km: radiusKm ?? undefined,
+      });
+      if (error) throw error;
+      return data.map((shop) => shop.id);
+    },
+  });
+  const visibleShopIds = data?.pages.flat().map((row) => row.shop_id) ?? [];
+  const watchedShopIds =
+    nearbyShopIds && nearbyShopIds.length <= MAX_FILTER_VALUES ? nearbyShopIds : visibleShopIds;
+
+  useRealtimePatch<InfiniteData<DealRow[]>, Tables<"inventory_batches">>({
+    table: "inventory_batches",
+    queryKey: dealSearchKey,
+    filter: inFilter("shop_id", watchedShopIds),
+    apply: (current, changes) => {
+      const cached = new Set(current.pages.flat().map((row) => row.batch_id));
+      const removed = new Set<string>();
+      const updated = new Map<string, Tables<"inventory_batches">>();
+      let unseen = 0;
+
+      for (const change of changes) {
+        if (change.eventType === "DELETE") {
+          if (change.old.id) removed.add(change.old.id);
+        } else if (cached.has(change.new.id)) {
+          updated.set(change.new.id, change.new);
+        } else if (change.new.status === "active" && change.new.quantity > 0) {
+          unseen++;
+        }
+      }
+      // New deals can't be slotted into a sorted, paginated list locally, so offer a refresh instead
+      if (unseen > 0) setNewDeals((count) => count + unseen);
+
+      return {
+        ...current,
+        pages: current.pages.map((page) =>
+          page.flatMap((row) => {
+            const batch = updated.get(row.batch_id);
+            if (removed.has(row.batch_id)) return [];
+            if (!batch) return [row];
+            if (batch.status !== "active" || batch.quantity <= 0) return [];
+            return [{
+              ...row,
+              quantity: batch.quantity,
+              mrp: batch.mrp,
+              discount_percent: batch.discount_percent,
+              final_price: Math.round(batch.mrp * (100 - batch.discount_percent)) / 100,
+              expiry_date: batch.expiry_date,
+            }];
+          })
+        ),
+      };
+    },
+  });
+
+  const showNewDeals = () => {
+    setNewDeals(0);
+    queryClient.resetQueries({ queryKey: dealSearchKey });
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <p className="text-muted-foreground">Loading products...</p>
-      </div>
+  // Infinite scroll: load the next page when the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
     );
-  }
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const products = data?.pages.flat().map(toBatch) ?? [];
+  const isFiltered = !!debounced.query || countActiveFilters(debounced.filters) > 0;
 
   return (
     <div className="h-full overflow-y-auto">
       <div className="container mx-auto px-4 py-6">
-        <div className="mb-6">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search products, brands, or categories..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-10"
+        <div className="mb-6 space-y-2">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search products, brands, or categories..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <DealFilters
+              query={debounced.query}
+              location={location}
+              radiusKm={radiusKm}
+              value={filters}
+              onChange={setFilters}
             />
+            <RadiusSelect value={radiusKm} onChange={setRadiusKm} disabled={!location} />
+            <Select value={sort} onValueChange={(v) => setSort(v as DealSort)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relevance">Best match</SelectItem>
+                <SelectItem value="distance" disabled={!location}>Nearest first</SelectItem>
+                <SelectItem value="discount">Biggest discount</SelectItem>
+                <SelectItem value="expiry">Expiring soonest</SelectItem>
+                <SelectItem value="price">Lowest price</SelectItem>
+                <SelectItem value="rating">Top rated</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
+          {denied && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              Allow location access to see deals near you.
+            </p>
+          )}
         </div>
 
-        {filteredProducts.length === 0 ? (
+        {newDeals > 0 && (
+          <div className="mb-4 flex justify-center">
+            <Button size="sm" variant="secondary" onClick={showNewDeals}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {newDeals} new deal{newDeals > 1 ? "s" : ""} available
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <p className="text-muted-foreground">Loading products...</p>
+          </div>
+        ) : isError ? (
           <Card>
             <CardContent className="py-8 text-center text-muted-foreground">
-              {search ? "No products found matching your search." : "No products available."}
+              Couldn't load products. Please try again.
+            </CardContent>
+          </Card>
+        ) : products.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              {isFiltered ? "No products found matching your search." : "No products available."}
             </CardContent>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredProducts.map((item) => (
-              <ProductCard key={item.id} batch={item} />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {products.map((item) => (
+                <ProductCard key={item.id} batch={item} />
+              ))}
+            </div>
+            <div ref={sentinelRef} className="py-6 text-center text-sm text-muted-foreground">
+              {isFetchingNextPage ? "Loading more..." : !hasNextPage && "You've reached the end."}
+            </div>
+          </>
         )}
       </div>
     </div>
   );
 };
 
-export default ProductFeed;
\ No newline at end of file
+export default ProductFeed;
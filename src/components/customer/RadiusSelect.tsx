@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RADIUS_OPTIONS_KM } from "@/lib/distance";
+
+interface RadiusSelectProps {
+  // null means no radius limit
+  value: number | null;
+  onChange: (radiusKm: number | null) => void;
+  disabled?: boolean;
+}
+
+const RadiusSelect = ({ value, onChange, disabled }: RadiusSelectProps) => {
+  return (
+    <Select
+      value={value === null ? "any" : String(value)}
+      onValueChange={(v) => onChange(v === "any" ? null : Number(v))}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-[130px]">
+        <SelectValue placeholder="Radius" />
+      </SelectTrigger>
+      <SelectContent>
+        {RADIUS_OPTIONS_KM.map((km) => (
+          <SelectItem key={km} value={String(km)}>
+            Within {km} km
+          </SelectItem>
+        ))}
+        <SelectItem value="any">Any distance</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default RadiusSelect;
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Flag, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useFileComplaint } from "@/hooks/use-complaints";
+import {
+  COMPLAINT_CATEGORY_LABELS,
+  ComplaintCategory,
+  MAX_EVIDENCE_BYTES,
+  MAX_EVIDENCE_PHOTOS,
+} from "@/lib/complaints";
+import { z } from "zod";
+
+const complaintSchema = z.object({
+  title: z.string().trim().min(5, "Title must be at least 5 characters").max(120, "Title too long"),
+  description: z
+    .string()
+    .trim()
+    .min(20, "Please describe the problem in at least 20 characters")
+    .max(2000, "Description too long"),
+});
+
+interface ReportProblemDialogProps {
+  shopId?: string;
+  productId?: string;
+  // What the complaint is about, e.g. "Amul Butter at Fresh Mart"; used for the default title
+  subject: string;
+  defaultCategory?: ComplaintCategory;
+  // Render the trigger as a small icon button (cards) instead of a labelled one
+  compact?: boolean;
+}
+
+const ReportProblemDialog = ({ shopId, productId, subject, defaultCategory = "other", compact }: ReportProblemDialogProps) => {
+  const { toast } = useToast();
+  const { mutateAsync: fileComplaint, isPending: submitting } = useFileComplaint();
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<ComplaintCategory>(defaultCategory);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photos]);
+
+  const reset = () => {
+    setCategory(defaultCategory);
+    setTitle(`Problem with ${subject}`.slice(0, 120));
+    setDescription("");
+    setPhotos([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) reset();
+    setOpen(next);
+  };
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const tooLarge = files.filter((file) => file.size > MAX_EVIDENCE_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "Photo too large",
+        description: `Photos must be under ${MAX_EVIDENCE_BYTES / 1024 / 1024} MB`,
+        variant: "destructive",
+      });
+    }
+
+    const accepted = files.filter((file) => file.size <= MAX_EVIDENCE_BYTES);
+    setPhotos((current) => [...current, ...accepted].slice(0, MAX_EVIDENCE_PHOTOS));
+  };
+
+  const submit = async () => {
+    const parsed = complaintSchema.safeParse({ title, description });
+    if (!parsed.success) {
+      toast({ title: "Validation Error", description: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await fileComplaint({
+        shopId,
+        productId,
+        category,
+        title: title.trim(),
+        description: description.trim(),
+        photos,
+      });
+      toast({
+        title: "Problem reported",
+        description: "We'll look into it. You can track it under Support.",
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="sm" aria-label="Report a problem">
+            <Flag className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <Flag className="w-4 h-4 mr-2" />
+            Report a problem
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Report a problem</DialogTitle>
+          <DialogDescription>{subject}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What went wrong?</Label>
+            <Select value={category} onValueChange={(v) => setCategory(v as ComplaintCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COMPLAINT_CATEGORY_LABELS) as ComplaintCategory[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {COMPLAINT_CATEGORY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="complaint-title">Title</Label>
+            <Input
+              id="complaint-title"
+              maxLength={120}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="complaint-description">Details</Label>
+            <Textarea
+              id="complaint-description"
+              placeholder="What happened, when, and what was shown vs. what you got"
+              maxLength={2000}
+              rows={5}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="complaint-photos">
+              Photos ({photos.length}/{MAX_EVIDENCE_PHOTOS})
+            </Label>
+            <Input
+              id="complaint-photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handlePhotos}
+              disabled={photos.length >= MAX_EVIDENCE_PHOTOS}
+            />
+            {previews.length > 0 && (
+              <div className="grid grid-cols-5 gap-2">
+                {previews.map((url, index) => (
+                  <div key={url} className="relative">
+                    <img
+                      src={url}
+                      alt={`Evidence ${index + 1}`}
+                      className="h-16 w-full rounded object-cover"
+                    />
+                    <button
+                      type="button"
+                      aria-label="Remove photo"
+                      className="absolute -top-1 -right-1 rounded-full bg-destructive p-0.5 text-destructive-foreground"
+                      onClick={() => setPhotos((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Button className="w-full" onClick={submit} disabled={submitting}>
+            {submitting ? "Submitting..." : "Submit Report"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportProblemDialog;
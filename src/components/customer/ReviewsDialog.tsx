@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useReviews } from "@/hooks/use-reviews";
+import { formatDistanceToNow } from "date-fns";
+import StarRating from "@/components/StarRating";
+
+interface ReviewsDialogProps {
+  shopId: string;
+  // Reviews of one product at the shop; the shop's reviews across products when omitted
+  productId?: string;
+  title: string;
+  averageRating: number | null;
+  reviewCount: number;
+}
+
+const ReviewsDialog = ({ shopId, productId, title, averageRating, reviewCount }: ReviewsDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { reviews, isLoading, canReview, ownReview, saveReview, saving } = useReviews({ shopId, productId }, open);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setRating(ownReview?.rating ?? 0);
+      setComment(ownReview?.comment ?? "");
+    }
+  }, [open, ownReview]);
+
+  const submit = async () => {
+    try {
+      await saveReview({ rating, comment: comment.trim() });
+      toast({ title: ownReview ? "Review updated" : "Thanks for your review!" });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button type="button" className="flex items-center gap-1 text-xs text-muted-foreground hover:underline">
+          <StarRating value={averageRating ?? 0} />
+          {reviewCount > 0 ? `${Number(averageRating).toFixed(1)} (${reviewCount})` : "No reviews yet"}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reviews</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+
+        {canReview && (
+          <div className="space-y-3 border rounded-lg p-3">
+            <Label>{ownReview ? "Your review" : "Rate this product"}</Label>
+            <StarRating value={rating} onChange={setRating} size="md" />
+            <Textarea
+              placeholder="How was it? (optional)"
+              maxLength={1000}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+            <Button className="w-full" onClick={submit} disabled={saving || rating === 0}>
+              {saving ? "Saving..." : ownReview ? "Update Review" : "Submit Review"}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading reviews...</p>}
+          {!isLoading && reviews.length === 0 && (
+            <p className="text-sm text-muted-foreground">No reviews yet.</p>
+          )}
+          {reviews.map((review) => (
+            <div key={review.id} className="space-y-1 border-b pb-3 last:border-0">
+              <div className="flex items-center justify-between">
+                <StarRating value={review.rating} />
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Verified buyer{!productId && review.products && ` · ${review.products.name}`}
+              </p>
+              {review.comment && <p className="text-sm">{review.comment}</p>}
+              {review.shop_reply && (
+                <div className="ml-3 border-l-2 pl-3 text-sm">
+                  <p className="text-xs font-medium">Reply from the shop</p>
+                  <p className="text-muted-foreground">{review.shop_reply}</p>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewsDialog;
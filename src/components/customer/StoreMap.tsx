@@ -4,8 +4,18 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { MapPin, Package, Navigation, ShoppingCart } from "lucide-react";
+import { MapPin, Package, Navigation, ShoppingCart, ShoppingBasket } from "lucide-react";
 import CheckoutDialog from "./CheckoutDialog";
+import RadiusSelect from "./RadiusSelect";
+import DietaryBadges from "./DietaryBadges";
+import ReviewsDialog from "./ReviewsDialog";
+import ReportProblemDialog from "./ReportProblemDialog";
+import { useQuery } from "@tanstack/react-query";
+import { Tables } from "@/integrations/supabase/types";
+import { useCart } from "@/hooks/use-cart";
+import { Coordinates, useGeolocation } from "@/hooks/use-geolocation";
+import { inFilter, patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import { DEFAULT_RADIUS_KM, formatDistance } from "@/lib/distance";
 import L from "leaflet";
 
 // Fix for default marker icons
@@ -28,75 +38,134 @@ const userIcon = new L.Icon({
   iconAnchor: [16, 16],
 });
 
+const fetchDiscountedBatches = async (shopIds: string[], ids?: string[]) => {
+  let query = supabase
+    .from("inventory_batches")
+    .select("*, products (name, brand, category, diet, allergens)")
+    .in("shop_id", shopIds)
+    .eq("status", "active")
+    .gt("discount_percent", 0);
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data.filter((batch) => batch.products);
+};
+
+const withShop = (
+  batches: Awaited<ReturnType<typeof fetchDiscountedBatches>>,
+  shop: { name: string; address: string }
+) => batches.map((batch) => ({ ...batch, shops: { name: shop.name, address: shop.address } }));
+
+const fetchStores = async (location: Coordinates | null, radiusKm: number | null) => {
+  const { data: shops, error } = await supabase.rpc("nearby_shops", {
+    _lat: location?.[0],
+    _lng: location?.[1],
+    _radius_km: location ? radiusKm ?? undefined : undefined,
+  });
+  if (error) throw error;
+
+  const batches = shops.length ? await fetchDiscountedBatches(shops.map((shop) => shop.id)) : [];
+  return shops.map((shop) => ({
+    ...shop,
+    discountedProducts: withShop(batches.filter((batch) => batch.shop_id === shop.id), shop),
+  }));
+};
+
+type Store = Awaited<ReturnType<typeof fetchStores>>[number];
+
 const StoreMap = () => {
-  const [stores, setStores] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const { addItem } = useCart();
+  const { location: userLocation, refresh: refreshLocation } = useGeolocation();
   const [mapCenter, setMapCenter] = useState<[number, number]>([28.6139, 77.2090]); // Default: Delhi
+  const [radiusKm, setRadiusKm] = useState<number | null>(DEFAULT_RADIUS_KM);
   const [selectedBatch, setSelectedBatch] = useState<any>(null);
   const [checkoutOpen, setCheckoutOpen] = useState(false);
 
   useEffect(() => {
-    loadStores();
-    getUserLocation();
-  }, []);
+    if (userLocation) setMapCenter(userLocation);
+  }, [userLocation]);
 
-  const getUserLocation = () => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const location: [number, number] = [
-            position.coords.latitude,
-            position.coords.longitude,
-          ];
-          setUserLocation(location);
-          setMapCenter(location);
-        },
-        (error) => {
-          console.log("Location access denied:", error);
-        }
-      );
-    }
-  };
+  const queryKey = ["stores", userLocation, radiusKm];
+  const { data: stores = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: () => fetchStores(userLocation, radiusKm),
+  });
+  const storeIds = stores.map((store) => store.id);
 
-  const loadStores = async () => {
-    const { data, error } = await supabase
-      .from("shops")
-      .select(`
-        *,
-        inventory_batches (
-          *,
-          products (name, brand, category)
-        )
-      `)
-      .eq("verification_status", "verified");
+  const { data: ratings = {} } = useQuery({
+    queryKey: ["shop-ratings", storeIds],
+    enabled: storeIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("shop_ratings")
+        .select("*")
+        .in("shop_id", storeIds);
+      if (error) throw error;
+      return Object.fromEntries(data.map((rating) => [rating.shop_id, rating]));
+    },
+  });
 
-    if (!error && data) {
-      const storesWithProducts = data.map(shop => ({
-        ...shop,
-        discountedProducts: shop.inventory_batches.filter(
-          (batch: any) => batch.products && batch.discount_percent > 0 && batch.status === "active"
-        ),
-      }));
-      setStores(storesWithProducts);
-    }
-    setLoading(false);
-  };
+  // Live shop updates (open/closed, details) for the shops on screen
+  useRealtimePatch<Store[], Tables<"shops">>({
+    table: "shops",
+    queryKey,
+    filter: inFilter("id", storeIds),
+    apply: (current, changes) => {
+      let next = current;
+      for (const change of changes) {
+        if (change.eventType !== "UPDATE") continue;
+        const shop = change.new;
+        const store = next.find((s) => s.id === shop.id);
+        if (!store) continue;
+        // A moved shop changes distance and radius membership, which only the server can answer
+        if (shop.latitude !== store.latitude || shop.longitude !== store.longitude) return undefined;
 
+        next = shop.verification_status !== "verified"
+          ? next.filter((s) => s.id !== shop.id)
+          : next.map((s) =>
+              s.id === shop.id
+                ? {
+                    ...s,
+                    name: shop.name,
+                    address: shop.address,
+                    is_open: shop.is_open,
+                    discountedProducts: s.discountedProducts.map((batch) => ({
+                      ...batch,
+                      shops: { name: shop.name, address: shop.address },
+                    })),
+                  }
+                : s
+            );
+      }
+      return next;
+    },
+  });
 
-  // Subscribe to live shop location updates
-  useEffect(() => {
-    const channel = supabase
-      .channel('shops-live')
-      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'shops' }, () => {
-        loadStores();
-      })
-      .subscribe();
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  // Discount changes at the shops on screen, patched into each store's deal list
+  useRealtimePatch<Store[], Tables<"inventory_batches">>({
+    table: "inventory_batches",
+    queryKey,
+    filter: inFilter("shop_id", storeIds),
+    apply: (current, changes) =>
+      Promise.all(
+        current.map(async (store) => {
+          const cached = store.discountedProducts;
+          const relevant = changes.filter((change) =>
+            change.eventType === "DELETE"
+              ? cached.some((batch) => batch.id === change.old.id)
+              : change.new.shop_id === store.id
+          );
+          if (relevant.length === 0) return store;
 
+          const discountedProducts = await patchRows(cached, relevant, {
+            keep: (batch) => batch.status === "active" && batch.discount_percent > 0,
+            hydrate: async (ids) => withShop(await fetchDiscountedBatches([store.id], ids), store),
+          });
+          return { ...store, discountedProducts };
+        })
+      ),
+  });
 
   if (loading) {
     return (
@@ -115,18 +184,23 @@ const StoreMap = () => {
             <h2 className="text-2xl font-bold mb-1">Nearby Stores</h2>
             <p className="text-muted-foreground">Discover discounted products near you</p>
           </div>
-          {userLocation && (
-            <Button variant="outline" size="sm" onClick={getUserLocation}>
-              <Navigation className="w-4 h-4 mr-2" />
-              My Location
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            <RadiusSelect value={radiusKm} onChange={setRadiusKm} disabled={!userLocation} />
+            {userLocation && (
+              <Button variant="outline" size="sm" onClick={refreshLocation}>
+                <Navigation className="w-4 h-4 mr-2" />
+                My Location
+              </Button>
+            )}
+          </div>
         </div>
 
         {stores.length === 0 ? (
           <Card>
             <CardContent className="py-8 text-center text-muted-foreground">
-              No stores available yet. Check back soon!
+              {userLocation && radiusKm !== null
+                ? `No stores within ${radiusKm} km. Try a wider radius.`
+                : "No stores available yet. Check back soon!"}
             </CardContent>
           </Card>
         ) : (
@@ -158,7 +232,10 @@ const StoreMap = () => {
                     <Popup>
                       <div className="min-w-[220px]">
                         <div className="font-bold text-sm mb-1">{store.name}</div>
-                        <div className="text-xs text-muted-foreground mb-2">{store.address}</div>
+                        <div className="text-xs text-muted-foreground mb-2">
+                          {store.address}
+                          {formatDistance(store.distance_km) && ` · ${formatDistance(store.distance_km)}`}
+                        </div>
                         {store.discountedProducts.length > 0 && (
                           <div className="inline-flex text-xs px-2 py-1 rounded bg-destructive text-destructive-foreground mb-2">
                             {store.discountedProducts.length} deals available
@@ -183,6 +260,20 @@ const StoreMap = () => {
                           <MapPin className="w-3 h-3" />
                           {store.address}
                         </p>
+                        {formatDistance(store.distance_km) && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatDistance(store.distance_km)} away
+                          </p>
+                        )}
+                        <div className="mt-1 flex items-center gap-1">
+                          <ReviewsDialog
+                            shopId={store.id}
+                            title={store.name}
+                            averageRating={ratings[store.id]?.average_rating ?? null}
+                            reviewCount={ratings[store.id]?.review_count ?? 0}
+                          />
+                          <ReportProblemDialog shopId={store.id} subject={store.name} compact />
+                        </div>
                       </div>
                       {store.discountedProducts.length > 0 && (
                         <Badge className="bg-accent">
@@ -205,6 +296,7 @@ const StoreMap = () => {
                                 <div className="flex-1">
                                   <p className="font-medium text-sm">{batch.products.name}</p>
                                   <p className="text-xs text-muted-foreground">{batch.products.brand}</p>
+                                  <DietaryBadges product={batch.products} />
                                 </div>
                                 <div className="text-right">
                                   <div className="flex items-center gap-2">
@@ -220,17 +312,28 @@ const StoreMap = () => {
                                   </Badge>
                                 </div>
                               </div>
-                              <Button 
-                                size="sm" 
-                                className="w-full"
-                                onClick={() => {
-                                  setSelectedBatch(batch);
-                                  setCheckoutOpen(true);
-                                }}
-                              >
-                                <ShoppingCart className="w-3 h-3 mr-1" />
-                                Buy Now
-                              </Button>
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="flex-1"
+                                  onClick={() => addItem(batch)}
+                                >
+                                  <ShoppingBasket className="w-3 h-3 mr-1" />
+                                  Add
+                                </Button>
+                                <Button 
+                                  size="sm" 
+                                  className="flex-1"
+                                  onClick={() => {
+                                    setSelectedBatch(batch);
+                                    setCheckoutOpen(true);
+                                  }}
+                                >
+                                  <ShoppingCart className="w-3 h-3 mr-1" />
+                                  Reserve
+                                </Button>
+                              </div>
                             </div>
                           );
                         })}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BellRing } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Coordinates } from "@/hooks/use-geolocation";
+
+interface WishlistAlertDialogProps {
+  wishlist: Tables<"wishlists">;
+  productName: string;
+  location: Coordinates | null;
+}
+
+const toInput = (value: number | null) => (value === null ? "" : String(value));
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+const WishlistAlertDialog = ({ wishlist, productName, location }: WishlistAlertDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [targetPrice, setTargetPrice] = useState("");
+  const [minDiscount, setMinDiscount] = useState("");
+  const [maxDistance, setMaxDistance] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setTargetPrice(toInput(wishlist.target_price));
+      setMinDiscount(toInput(wishlist.min_discount_percent));
+      setMaxDistance(toInput(wishlist.max_distance_km));
+    }
+  }, [open, wishlist]);
+
+  const save = async () => {
+    const target = toNumber(targetPrice);
+    const discount = toNumber(minDiscount);
+    const distance = toNumber(maxDistance);
+
+    if ((target !== null && !(target > 0)) || (distance !== null && !(distance > 0))) {
+      toast({ title: "Invalid value", description: "Price and distance must be greater than zero", variant: "destructive" });
+      return;
+    }
+    if (discount !== null && !(discount > 0 && discount <= 100)) {
+      toast({ title: "Invalid value", description: "Discount must be between 1 and 100%", variant: "destructive" });
+      return;
+    }
+    // The distance is measured from where the customer is now; keep the old origin if we can't locate them
+    const origin: [number, number] | null = location ?? (wishlist.origin_latitude !== null && wishlist.origin_longitude !== null
+      ? [wishlist.origin_latitude, wishlist.origin_longitude]
+      : null);
+    if (distance !== null && !origin) {
+      toast({ title: "Location needed", description: "Allow location access to set a distance limit", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("wishlists")
+      .update({
+        target_price: target,
+        min_discount_percent: discount,
+        max_distance_km: distance,
+        origin_latitude: distance !== null && origin ? origin[0] : null,
+        origin_longitude: distance !== null && origin ? origin[1] : null,
+      })
+      .eq("id", wishlist.id);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Alert saved", description: `We'll let you know when ${productName} hits your target.` });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <BellRing className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Alert settings</DialogTitle>
+          <DialogDescription>
+            Get notified about {productName} only when a deal meets these conditions. Leave a field empty to ignore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="target-price">Price at or below (₹)</Label>
+            <Input
+              id="target-price"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="e.g. 40"
+              value={targetPrice}
+              onChange={(e) => setTargetPrice(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="min-discount">Discount of at least (%)</Label>
+            <Input
+              id="min-discount"
+              type="number"
+              min={1}
+              max={100}
+              placeholder="e.g. 30"
+              value={minDiscount}
+              onChange={(e) => setMinDiscount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-distance">Within (km of here)</Label>
+            <Input
+              id="max-distance"
+              type="number"
+              min={0}
+              step="0.5"
+              placeholder="e.g. 5"
+              value={maxDistance}
+              onChange={(e) => setMaxDistance(e.target.value)}
+            />
+            {!location && (
+              <p className="text-xs text-muted-foreground">Location access is needed for a distance limit.</p>
+            )}
+          </div>
+          <Button className="w-full" onClick={save} disabled={saving}>
+            {saving ? "Saving..." : "Save Alert"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WishlistAlertDialog;
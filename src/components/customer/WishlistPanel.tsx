@@ -1,62 +1,104 @@
-import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Heart, Trash2 } from "lucide-react";
+import { Heart, Trash2, ShoppingBasket } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useCart } from "@/hooks/use-cart";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { useAuthUserId } from "@/hooks/use-auth-user";
+import { inFilter, patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import WishlistAlertDialog from "./WishlistAlertDialog";
+
+const WISHLIST_SELECT = `
+  *,
+  products (
+    *,
+    inventory_batches (
+      *,
+      shops (name, address)
+    )
+  )
+`;
+
+const fetchWishlist = async (ids?: string[]) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let query = supabase
+    .from("wishlists")
+    .select(WISHLIST_SELECT)
+    .eq("customer_id", user.id);
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+const fetchBatches = async (ids: string[]) => {
+  const { data, error } = await supabase
+    .from("inventory_batches")
+    .select("*, shops (name, address)")
+    .in("id", ids);
+  if (error) throw error;
+  return data;
+};
+
+type WishlistRow = Awaited<ReturnType<typeof fetchWishlist>>[number];
+
+const alertSummary = (item: WishlistRow) =>
+  [
+    item.target_price !== null && `₹${item.target_price} or less`,
+    item.min_discount_percent !== null && `${item.min_discount_percent}%+ off`,
+    item.max_distance_km !== null && `within ${item.max_distance_km} km`,
+  ]
+    .filter(Boolean)
+    .join(", ");
 
 const WishlistPanel = () => {
   const { toast } = useToast();
-  const [wishlist, setWishlist] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadWishlist();
-
-    const channel = supabase
-      .channel("wishlist-changes")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "wishlists",
-        },
-        () => {
-          loadWishlist();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
-
-  const loadWishlist = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from("wishlists")
-      .select(`
-        *,
-        products (
-          *,
-          inventory_batches (
-            *,
-            shops (name, address)
-          )
-        )
-      `)
-      .eq("customer_id", user.id);
-
-    if (!error && data) {
-      setWishlist(data);
-    }
-    setLoading(false);
-  };
+  const { addItem } = useCart();
+  const { location } = useGeolocation();
+  const { userId, loading: authLoading } = useAuthUserId();
+  const queryKey = ["wishlist", userId];
+  const { data: wishlist = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => fetchWishlist(),
+    enabled: !!userId,
+  });
+  const loading = authLoading || isLoading;
+
+  useRealtimePatch<WishlistRow[]>({
+    table: "wishlists",
+    queryKey,
+    apply: (rows, changes) => patchRows(rows, changes, { hydrate: fetchWishlist }),
+  });
+
+  // Only watch batches of wishlisted products, and patch them into the matching entry
+  useRealtimePatch<WishlistRow[]>({
+    table: "inventory_batches",
+    queryKey,
+    filter: inFilter("product_id", wishlist.map((item) => item.product_id)),
+    apply: (rows, changes) =>
+      Promise.all(
+        rows.map(async (item) => {
+          if (!item.products) return item;
+          const cached = item.products.inventory_batches;
+          // Deletes only carry the primary key, so match those against the cached batches
+          const relevant = changes.filter((change) =>
+            change.eventType === "DELETE"
+              ? cached.some((batch) => batch.id === change.old.id)
+              : change.new.product_id === item.product_id
+          );
+          if (relevant.length === 0) return item;
+
+          const batches = await patchRows(cached, relevant, { hydrate: fetchBatches });
+          return { ...item, products: { ...item.products, inventory_batches: batches } };
+        })
+      ),
+  });
 
   const removeFromWishlist = async (wishlistId: string) => {
     const { error } = await supabase
@@ -113,14 +155,20 @@ const WishlistPanel = () => {
                   <CardTitle className="text-base">{item.products.name}</CardTitle>
                   <p className="text-sm text-muted-foreground">{item.products.brand}</p>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => removeFromWishlist(item.id)}
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
+                <div className="flex items-center">
+                  <WishlistAlertDialog wishlist={item} productName={item.products.name} location={location} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeFromWishlist(item.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
               </div>
+              {alertSummary(item) && (
+                <p className="text-xs text-muted-foreground">Alert when {alertSummary(item)}</p>
+              )}
             </CardHeader>
             <CardContent>
               {discountedBatches.length > 0 ? (
@@ -130,8 +178,12 @@ const WishlistPanel = () => {
                   </Badge>
                   <p className="text-sm font-medium">Best discount: {bestDiscount}% OFF</p>
                   {discountedBatches.slice(0, 2).map((batch: any) => (
-                    <div key={batch.id} className="text-sm text-muted-foreground">
-                      • {batch.shops.name} - {batch.discount_percent}% off
+                    <div key={batch.id} className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>• {batch.shops.name} - {batch.discount_percent}% off</span>
+                      <Button size="sm" variant="outline" onClick={() => addItem(batch)}>
+                        <ShoppingBasket className="w-3 h-3 mr-1" />
+                        Add
+                      </Button>
                     </div>
                   ))}
                 </div>
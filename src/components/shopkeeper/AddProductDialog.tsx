@@ -7,6 +7,11 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Plus } from "lucide-react";
 import { z } from "zod";
+import DiscountPreview from "./DiscountPreview";
+import DietaryFields from "./DietaryFields";
+import PackSizeFields from "./PackSizeFields";
+import { DietType } from "@/lib/dietary";
+import { PackSize } from "@/lib/impact";
 
 interface AddProductDialogProps {
   shopId: string;
@@ -22,7 +27,8 @@ const productSchema = z.object({
   batchCode: z.string().trim().min(1, "Batch code is required").max(50, "Batch code too long"),
   quantity: z.number().int("Quantity must be a whole number").positive("Quantity must be positive").max(100000, "Quantity too high"),
   expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"),
-  gtin: z.string().max(20, "GTIN too long").optional().nullable()
+  gtin: z.string().max(20, "GTIN too long").optional().nullable(),
+  netQuantity: z.number().positive("Pack size must be positive").max(100000, "Pack size too large").nullable()
 });
 
 const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) => {
@@ -39,6 +45,11 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
     expiryDate: "",
     gtin: "",
   });
+  const [dietary, setDietary] = useState<{ diet: DietType | null; allergens: string[] }>({
+    diet: null,
+    allergens: [],
+  });
+  const [packSize, setPackSize] = useState<PackSize>({ netQuantity: null, netUnit: null });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -54,8 +65,10 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
         batchCode: formData.batchCode,
         quantity: parseInt(formData.quantity),
         expiryDate: formData.expiryDate,
-        gtin: formData.gtin || null
+        gtin: formData.gtin || null,
+        netQuantity: packSize.netQuantity
       });
+      const netUnit = validatedData.netQuantity ? packSize.netUnit : null;
 
       let productId: string;
 
@@ -68,6 +81,25 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
 
       if (existingProduct) {
         productId = existingProduct.id;
+
+        // Fill in dietary info the shared catalog entry may be missing
+        if (dietary.diet || dietary.allergens.length > 0) {
+          const { error: tagError } = await supabase.rpc("set_product_dietary", {
+            _product_id: productId,
+            _diet: dietary.diet as DietType,
+            _allergens: dietary.allergens,
+          });
+          if (tagError) throw tagError;
+        }
+
+        if (validatedData.netQuantity && netUnit) {
+          const { error: packError } = await supabase.rpc("set_product_pack_size", {
+            _product_id: productId,
+            _net_quantity: validatedData.netQuantity,
+            _net_unit: netUnit,
+          });
+          if (packError) throw packError;
+        }
       } else {
         const { data: newProduct, error: productError } = await supabase
           .from("products")
@@ -77,6 +109,10 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
             category: validatedData.category,
             default_mrp: validatedData.mrp,
             gtin: validatedData.gtin,
+            diet: dietary.diet,
+            allergens: dietary.allergens,
+            net_quantity: netUnit ? validatedData.netQuantity : null,
+            net_unit: netUnit,
           })
           .select()
           .single();
@@ -85,31 +121,24 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
         productId = newProduct.id;
       }
 
-      const daysToExpiry = Math.ceil(
-        (new Date(validatedData.expiryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-      );
-      
-      let discountPercent = 0;
-      if (daysToExpiry <= 30 && daysToExpiry > 15) {
-        discountPercent = 10;
-      } else if (daysToExpiry <= 15 && daysToExpiry > 7) {
-        discountPercent = 20;
-      } else if (daysToExpiry <= 7 && daysToExpiry > 0) {
-        discountPercent = 30;
-      }
-
-      const { error: batchError } = await supabase.from("inventory_batches").insert({
-        shop_id: shopId,
-        product_id: productId,
-        batch_code: validatedData.batchCode,
-        quantity: validatedData.quantity,
-        expiry_date: validatedData.expiryDate,
-        mrp: validatedData.mrp,
-        discount_percent: discountPercent,
-      });
+      // The discount is applied by the database from the shop's discount policy
+      const { data: batch, error: batchError } = await supabase
+        .from("inventory_batches")
+        .insert({
+          shop_id: shopId,
+          product_id: productId,
+          batch_code: validatedData.batchCode,
+          quantity: validatedData.quantity,
+          expiry_date: validatedData.expiryDate,
+          mrp: validatedData.mrp,
+        })
+        .select("discount_percent")
+        .single();
 
       if (batchError) throw batchError;
 
+      const discountPercent = batch.discount_percent;
+
       toast({
         title: "Product added!",
         description: discountPercent > 0 
@@ -127,6 +156,8 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
         expiryDate: "",
         gtin: "",
       });
+      setDietary({ diet: null, allergens: [] });
+      setPackSize({ netQuantity: null, netUnit: null });
       setOpen(false);
       onProductAdded();
     } catch (error: any) {
@@ -235,6 +266,18 @@ const AddProductDialog = ({ shopId, onProductAdded }: AddProductDialogProps) =>
               />
             </div>
           </div>
+          <PackSizeFields value={packSize} onChange={setPackSize} />
+          <DietaryFields
+            diet={dietary.diet}
+            allergens={dietary.allergens}
+            onChange={setDietary}
+          />
+          <DiscountPreview
+            shopId={shopId}
+            category={formData.category}
+            expiryDate={formData.expiryDate}
+            mrp={parseFloat(formData.mrp) || 0}
+          />
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancel
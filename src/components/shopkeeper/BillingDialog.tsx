@@ -15,6 +15,7 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { Camera, Loader2, Trash, ShoppingCart, Printer, FileUp } from "lucide-react";
 import CameraScan from "./CameraScan";
+import { writeReceipt } from "@/lib/receipt";
 
 interface CartItem {
   productId: string;
@@ -267,112 +268,61 @@ const BillingDialog = ({ shopId, shopName, onInventoryUpdated }: BillingDialogPr
       return;
     }
     
-    // 1. Generate the receipt immediately for the customer.
-    generateReceiptHtml();
+    // 1. Open the receipt window now; browsers block popups opened after an await.
+    const receiptWindow = window.open("", "_blank");
+    receiptWindow?.document.write("<p style=\"font-family: monospace\">Preparing receipt...</p>");
     
     setIsCheckingOut(true);
 
     try {
-      // 2. Attempt to update inventory in the background.
-      for (const item of cart) {
-        let quantityToDeduct = item.qty;
+      // 2. Deduct stock FEFO and record the bill atomically; nothing changes if any line fails.
+      const { data: lines, error: checkoutError } = await supabase.rpc("checkout_cart", {
+        _shop_id: shopId,
+        _items: cart.map(item => ({ product_id: item.productId, quantity: item.qty })),
+      });
 
-        const { data: batches, error: fetchError } = await supabase
-          .from("inventory_batches")
-          .select("id, quantity")
-          .eq("product_id", item.productId)
-          .eq("shop_id", shopId)
-          .eq("status", "active")
-          .gt("quantity", 0)
-          .order("expiry_date", { ascending: true });
-
-        if (fetchError) throw new Error(`Failed to fetch batches for ${item.name}: ${fetchError.message}`);
-
-        for (const batch of batches) {
-          if (quantityToDeduct === 0) break;
-
-          const deduction = Math.min(quantityToDeduct, batch.quantity);
-          const newQuantity = batch.quantity - deduction;
-          
-          const { error: updateError } = await supabase
-            .from("inventory_batches")
-            .update({ 
-              quantity: newQuantity,
-              status: newQuantity === 0 ? 'sold_out' : 'active'
-            })
-            .eq("id", batch.id);
-
-          if (updateError) {
-            // Log the error but don't block the user. The receipt is already printed.
-            console.error(`Failed to update batch ${batch.id}:`, updateError);
-            // We can choose to throw here to show a partial failure message,
-            // or continue to try updating other items. For now, we'll throw.
-            throw new Error(`Failed to update inventory for ${item.name}. Please check manually.`);
-          }
-          
-          quantityToDeduct -= deduction;
-        }
-      }
+      if (checkoutError) throw new Error(checkoutError.message);
+
+      // 3. Print one receipt row per batch consumed, at that batch's actual price.
+      const billId = lines?.[0]?.bill_id;
+      const [{ data: bill }, { data: batches }] = await Promise.all([
+        supabase.from("bills").select("bill_number, created_at").eq("id", billId).maybeSingle(),
+        supabase.from("inventory_batches").select("id, expiry_date").in("id", (lines || []).map(l => l.batch_id)),
+      ]);
+
+      writeReceipt(receiptWindow, {
+        shopName: shopName || "Your Shop",
+        billNumber: bill?.bill_number,
+        date: bill ? new Date(bill.created_at) : new Date(),
+        lines: (lines || []).map(line => ({
+          name: cart.find(item => item.productId === line.product_id)?.name || "Item",
+          quantity: line.quantity,
+          mrp: Number(line.mrp),
+          discountPercent: Number(line.discount_percent),
+          unitPrice: Number(line.unit_price),
+          expiryDate: batches?.find(b => b.id === line.batch_id)?.expiry_date,
+        })),
+      });
 
-      toast({ title: "Checkout Successful", description: "Inventory has been updated." });
+      toast({ title: "Checkout Successful", description: "Sale recorded and inventory updated." });
       onInventoryUpdated(); // Refresh the dashboard stats
       setIsOpen(false); // Close the dialog on full success
+      resetState();
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error("Checkout failed:", error);
+      receiptWindow?.close();
       toast({
         variant: "destructive",
-        title: "Inventory Update Failed",
-        description: error.message || "The receipt was printed, but inventory could not be updated.",
+        title: "Checkout Failed",
+        description: (error as Error).message || "No stock was deducted. Please try again.",
       });
-      // Don't close the dialog on failure, so the user is aware.
+      // Don't close the dialog on failure, so the cart can be corrected.
     } finally {
       setIsCheckingOut(false);
     }
   };
 
-  const generateReceiptHtml = () => {
-    const subtotal = cart.reduce((sum, item) => sum + item.qty * item.unitPrice, 0);
-    const receiptWindow = window.open("", "_blank");
-    if (receiptWindow) {
-      receiptWindow.document.write(`
-        <html>
-          <head><title>Receipt</title>
-          <style>
-            body { font-family: monospace; margin: 2rem; }
-            h1, h2 { text-align: center; }
-            table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
-            th, td { border: 1px solid #ccc; padding: 8px; text-align: left; }
-            .total { font-weight: bold; }
-          </style>
-          </head>
-          <body>
-            <h1>${shopName || 'Your Shop'}</h1>
-            <h2>Date: ${new Date().toLocaleString()}</h2>
-            <table>
-              <thead>
-                <tr><th>Item</th><th>Qty</th><th>Price</th><th>Total</th></tr>
-              </thead>
-              <tbody>
-                ${cart.map(item => `
-                  <tr>
-                    <td>${item.name}</td>
-                    <td>${item.qty}</td>
-                    <td>₹${item.unitPrice.toFixed(2)}</td>
-                    <td>₹${(item.qty * item.unitPrice).toFixed(2)}</td>
-                  </tr>
-                `).join('')}
-              </tbody>
-            </table>
-            <h2 class="total">Subtotal: ₹${subtotal.toFixed(2)}</h2>
-            <p style="text-align: center; margin-top: 2rem;">Thank you for your purchase!</p>
-          </body>
-        </html>
-      `);
-      receiptWindow.document.close();
-    }
-  };
-
   const subtotal = cart.reduce((sum, item) => sum + item.qty * item.unitPrice, 0);
 
   return (
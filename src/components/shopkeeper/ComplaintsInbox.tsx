@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MessageSquareWarning } from "lucide-react";
+import { format } from "date-fns";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import { COMPLAINT_CATEGORY_LABELS, COMPLAINT_STATUS_LABELS } from "@/lib/complaints";
+import EvidencePhotos from "@/components/EvidencePhotos";
+import ComplaintThread from "@/components/ComplaintThread";
+import type { Tables } from "@/integrations/supabase/types";
+
+type ShopComplaint = Tables<"complaints"> & { products: { name: string } | null };
+
+interface ComplaintsInboxProps {
+  shopId: string;
+}
+
+const isOpen = (complaint: ShopComplaint) => complaint.status === "pending" || complaint.status === "in_progress";
+
+const fetchShopComplaints = async (shopId: string, ids?: string[]) => {
+  let query = supabase
+    .from("complaints")
+    .select("*, products (name)")
+    .eq("shop_id", shopId)
+    .order("created_at", { ascending: false });
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data as ShopComplaint[];
+};
+
+const ComplaintsInbox = ({ shopId }: ComplaintsInboxProps) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+
+  const queryKey = ["shop-complaints", shopId];
+  const { data: complaints = [] } = useQuery({
+    queryKey,
+    queryFn: () => fetchShopComplaints(shopId),
+  });
+
+  useRealtimePatch<ShopComplaint[], Tables<"complaints">>({
+    table: "complaints",
+    queryKey,
+    filter: `shop_id=eq.${shopId}`,
+    apply: (rows, changes) =>
+      patchRows(rows, changes, {
+        hydrate: (ids) => fetchShopComplaints(shopId, ids),
+        compare: (a, b) => b.created_at.localeCompare(a.created_at),
+      }),
+  });
+
+  const openCount = complaints.filter(isOpen).length;
+  const visible = showClosed ? complaints : complaints.filter(isOpen);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareWarning className="w-5 h-5" />
+          Customer Complaints
+          {openCount > 0 && <Badge variant="destructive">{openCount} open</Badge>}
+        </CardTitle>
+        <CardDescription>Respond to reported problems before an admin rules on them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {showClosed ? "No complaints about your shop." : "No open complaints."}
+          </p>
+        ) : (
+          visible.map((complaint) => (
+            <div key={complaint.id} className="space-y-2 border-b pb-4 last:border-0">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">{complaint.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {COMPLAINT_CATEGORY_LABELS[complaint.category]}
+                    {complaint.products && ` · ${complaint.products.name}`}
+                    {` · ${format(new Date(complaint.created_at), "PP")}`}
+                  </p>
+                </div>
+                <Badge variant={isOpen(complaint) ? "secondary" : "outline"}>
+                  {COMPLAINT_STATUS_LABELS[complaint.status]}
+                </Badge>
+              </div>
+              <p className="text-sm whitespace-pre-line">{complaint.description}</p>
+              {complaint.evidence_paths.length > 0 && <EvidencePhotos paths={complaint.evidence_paths} />}
+              {complaint.resolution_note && (
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-medium">Admin ruling:</span> {complaint.resolution_note}
+                </p>
+              )}
+
+              {expanded === complaint.id ? (
+                <ComplaintThread complaintId={complaint.id} open={isOpen(complaint)} />
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => setExpanded(complaint.id)}>
+                  {isOpen(complaint) ? "Respond" : "View conversation"}
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+
+        {complaints.length > openCount && (
+          <Button variant="ghost" size="sm" onClick={() => setShowClosed(!showClosed)}>
+            {showClosed ? "Hide closed complaints" : "Show closed complaints"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComplaintsInbox;
@@ -0,0 +1,64 @@
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALLERGENS, ALLERGEN_LABELS, DIET_LABELS, DietType } from "@/lib/dietary";
+
+interface DietaryFieldsProps {
+  diet: DietType | null;
+  allergens: string[];
+  onChange: (value: { diet: DietType | null; allergens: string[] }) => void;
+  disabled?: boolean;
+}
+
+const DietaryFields = ({ diet, allergens, onChange, disabled }: DietaryFieldsProps) => {
+  const toggleAllergen = (allergen: string) => {
+    onChange({
+      diet,
+      allergens: allergens.includes(allergen)
+        ? allergens.filter((a) => a !== allergen)
+        : [...allergens, allergen],
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Veg / Non-veg mark</Label>
+        <Select
+          value={diet ?? "unknown"}
+          onValueChange={(v) => onChange({ diet: v === "unknown" ? null : (v as DietType), allergens })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unknown">Not specified</SelectItem>
+            {(Object.keys(DIET_LABELS) as DietType[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {DIET_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Contains</Label>
+        <div className="grid grid-cols-4 gap-2">
+          {ALLERGENS.map((allergen) => (
+            <label key={allergen} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={allergens.includes(allergen)}
+                onCheckedChange={() => toggleAllergen(allergen)}
+                disabled={disabled}
+              />
+              {ALLERGEN_LABELS[allergen]}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DietaryFields;
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Percent, Plus, Trash } from "lucide-react";
+import { z } from "zod";
+import DiscountTiersEditor from "./DiscountTiersEditor";
+import { DEFAULT_DISCOUNT_TIERS, discountTiersSchema, parseDiscountTiers, sortTiers, type DiscountTier } from "@/lib/discountPolicy";
+
+interface DiscountPolicyDialogProps {
+  // null edits the platform-wide category rules (admins only)
+  shopId: string | null;
+}
+
+interface PolicyRow {
+  id?: string;
+  category: string | null;
+  tiers: DiscountTier[];
+}
+
+const DiscountPolicyDialog = ({ shopId }: DiscountPolicyDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rows, setRows] = useState<PolicyRow[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
+  const [newCategory, setNewCategory] = useState("");
+
+  const loadPolicies = useCallback(async () => {
+    let query = supabase.from("discount_policies").select("id, category, tiers");
+    query = shopId ? query.eq("shop_id", shopId) : query.is("shop_id", null);
+
+    const { data, error } = await query.order("category", { ascending: true, nullsFirst: true });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to load discount rules", variant: "destructive" });
+      return;
+    }
+
+    setRows((data || []).map((p) => ({ id: p.id, category: p.category, tiers: parseDiscountTiers(p.tiers) })));
+    setRemovedIds([]);
+  }, [shopId, toast]);
+
+  useEffect(() => {
+    if (open) loadPolicies();
+  }, [open, loadPolicies]);
+
+  const addRow = (category: string | null) => {
+    const exists = rows.some((r) => (r.category || "").toLowerCase() === (category || "").toLowerCase());
+    if (exists) {
+      toast({ title: "Rule exists", description: "There is already a rule for this category." });
+      return;
+    }
+    setRows([...rows, { category, tiers: DEFAULT_DISCOUNT_TIERS }]);
+    setNewCategory("");
+  };
+
+  const removeRow = (index: number) => {
+    const row = rows[index];
+    if (row.id) setRemovedIds([...removedIds, row.id]);
+    setRows(rows.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      rows.forEach((row) => discountTiersSchema.parse(row.tiers));
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from("discount_policies").delete().in("id", removedIds);
+        if (error) throw error;
+      }
+
+      for (const row of rows) {
+        const tiers = sortTiers(row.tiers);
+        const { error } = row.id
+          ? await supabase.from("discount_policies").update({ tiers }).eq("id", row.id)
+          : await supabase.from("discount_policies").insert({
+              shop_id: shopId,
+              category: row.category,
+              tiers,
+              created_by: user?.id,
+            });
+        if (error) throw error;
+      }
+
+      toast({ title: "Discount rules saved", description: "New batches and the daily sweep will use these tiers." });
+      setOpen(false);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof z.ZodError
+        ? error.errors[0].message
+        : (error as Error).message;
+
+      toast({ title: "Error", description: errorMessage, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const hasShopWideRule = rows.some((r) => r.category === null);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Percent className="w-4 h-4 mr-2" />
+          {shopId ? "Discount Rules" : "Category Overrides"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{shopId ? "Shop Discount Rules" : "Platform Category Rules"}</DialogTitle>
+          <DialogDescription>
+            Automatic discounts by days left to expiry. Anything without a rule here uses the platform defaults,
+            and every discount is kept within the platform's minimum and maximum.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No custom rules yet.</p>
+          )}
+
+          {rows.map((row, index) => (
+            <div key={row.id || `new-${index}`} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{row.category || "All categories"}</h4>
+                <Button size="icon" variant="ghost" onClick={() => removeRow(index)}>
+                  <Trash className="w-4 h-4" />
+                </Button>
+              </div>
+              <DiscountTiersEditor
+                tiers={row.tiers}
+                onChange={(tiers) => setRows(rows.map((r, i) => (i === index ? { ...r, tiers } : r)))}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="policy-category">Category override</Label>
+              <Input
+                id="policy-category"
+                placeholder="e.g., Dairy"
+                value={newCategory}
+                onChange={(e) => setNewCategory(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={() => addRow(newCategory.trim())} disabled={!newCategory.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+            {shopId && !hasShopWideRule && (
+              <Button variant="outline" onClick={() => addRow(null)}>
+                <Plus className="w-4 h-4 mr-1" />
+                Shop-wide Rule
+              </Button>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save Rules"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiscountPolicyDialog;
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { TrendingDown } from "lucide-react";
+
+interface DiscountPreviewProps {
+  shopId: string;
+  category: string;
+  expiryDate: string;
+  mrp: number;
+}
+
+interface SchedulePoint {
+  date: string;
+  daysToExpiry: number;
+  discount: number;
+  price: number;
+}
+
+const DiscountPreview = ({ shopId, category, expiryDate, mrp }: DiscountPreviewProps) => {
+  const [schedule, setSchedule] = useState<SchedulePoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expiryDate)) {
+      setSchedule([]);
+      return;
+    }
+
+    // Debounce so typing a category doesn't fire a request per keystroke, and
+    // drop responses for inputs that have since changed
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("discount_schedule", {
+        _shop_id: shopId,
+        _category: category || "General",
+        _expiry_date: expiryDate,
+      });
+      if (cancelled) return;
+
+      if (!error && data) {
+        setSchedule(
+          data.map((row) => ({
+            date: format(new Date(row.on_date), "MMM dd"),
+            daysToExpiry: row.days_to_expiry,
+            discount: Number(row.discount_percent),
+            price: Number((mrp * (1 - Number(row.discount_percent) / 100)).toFixed(2)),
+          }))
+        );
+      }
+      setLoading(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [shopId, category, expiryDate, mrp]);
+
+  if (schedule.length === 0) {
+    return (
+      <div className="p-4 bg-secondary/50 rounded-lg text-sm text-muted-foreground">
+        {loading ? "Calculating price curve..." : "Enter an expiry date to preview the automatic price curve."}
+      </div>
+    );
+  }
+
+  // Only the days where the discount changes, for the summary list
+  const steps = schedule.filter((point, i) => i === 0 || point.discount !== schedule[i - 1].discount);
+
+  return (
+    <div className="p-4 bg-secondary/50 rounded-lg space-y-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <TrendingDown className="w-4 h-4" />
+        Price Curve Preview
+      </p>
+      {mrp > 0 && (
+        <ResponsiveContainer width="100%" height={160}>
+          <LineChart data={schedule}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} domain={[0, "auto"]} />
+            <Tooltip formatter={(value: number, name: string) => (name === "price" ? `₹${value}` : `${value}%`)} />
+            <Line type="stepAfter" dataKey="price" stroke="#10b981" dot={false} name="price" />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+      <div className="space-y-1 text-sm">
+        {steps.map((step) => (
+          <div key={step.date} className="flex justify-between">
+            <span>
+              From {step.date} ({step.daysToExpiry}d left)
+            </span>
+            <span className="font-semibold">
+              {step.discount > 0 ? `${step.discount}% OFF` : "Full price"}
+              {mrp > 0 && ` · ₹${step.price.toFixed(2)}`}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiscountPreview;
@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash } from "lucide-react";
+import type { DiscountTier } from "@/lib/discountPolicy";
+
+interface DiscountTiersEditorProps {
+  tiers: DiscountTier[];
+  onChange: (tiers: DiscountTier[]) => void;
+}
+
+const DiscountTiersEditor = ({ tiers, onChange }: DiscountTiersEditorProps) => {
+  const updateTier = (index: number, field: keyof DiscountTier, value: string) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, [field]: parseFloat(value) || 0 } : tier)));
+  };
+
+  const addTier = () => {
+    const lowestDays = tiers.length > 0 ? Math.min(...tiers.map((t) => t.days)) : 30;
+    onChange([...tiers, { days: Math.max(0, Math.floor(lowestDays / 2)), percent: 0 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {tiers.map((tier, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Within</span>
+          <Input
+            type="number"
+            min="0"
+            value={tier.days}
+            onChange={(e) => updateTier(index, "days", e.target.value)}
+            className="w-20"
+          />
+          <span className="text-muted-foreground">days →</span>
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            value={tier.percent}
+            onChange={(e) => updateTier(index, "percent", e.target.value)}
+            className="w-20"
+          />
+          <span className="text-muted-foreground">% off</span>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+            disabled={tiers.length === 1}
+          >
+            <Trash className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addTier}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Tier
+      </Button>
+    </div>
+  );
+};
+
+export default DiscountTiersEditor;
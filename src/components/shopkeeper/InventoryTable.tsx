@@ -1,57 +1,52 @@
-import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
 
 interface InventoryTableProps {
   shopId: string;
 }
 
-const InventoryTable = ({ shopId }: InventoryTableProps) => {
-  const [inventory, setInventory] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+const INVENTORY_SELECT = `
+  *,
+  products (name, brand, category)
+`;
 
-  useEffect(() => {
-    loadInventory();
+const fetchInventory = async (shopId: string, ids?: string[]) => {
+  let query = supabase
+    .from("inventory_batches")
+    .select(INVENTORY_SELECT)
+    .eq("shop_id", shopId)
+    .eq("status", "active");
+  if (ids) query = query.in("id", ids);
 
-    const channel = supabase
-      .channel("inventory-changes")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "inventory_batches",
-          filter: `shop_id=eq.${shopId}`,
-        },
-        () => {
-          loadInventory();
-        }
-      )
-      .subscribe();
+  const { data, error } = await query.order("expiry_date", { ascending: true });
+  if (error) throw error;
+  return data;
+};
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [shopId]);
+type InventoryRow = Awaited<ReturnType<typeof fetchInventory>>[number];
 
-  const loadInventory = async () => {
-    const { data, error } = await supabase
-      .from("inventory_batches")
-      .select(`
-        *,
-        products (name, brand, category)
-      `)
-      .eq("shop_id", shopId)
-      .eq("status", "active")
-      .order("expiry_date", { ascending: true });
+const InventoryTable = ({ shopId }: InventoryTableProps) => {
+  const queryKey = ["inventory", shopId];
+  const { data: inventory = [], isLoading: loading } = useQuery({
+    queryKey,
+    queryFn: () => fetchInventory(shopId),
+  });
 
-    if (!error && data) {
-      setInventory(data);
-    }
-    setLoading(false);
-  };
+  useRealtimePatch<InventoryRow[]>({
+    table: "inventory_batches",
+    queryKey,
+    filter: `shop_id=eq.${shopId}`,
+    apply: (rows, changes) =>
+      patchRows(rows, changes, {
+        keep: (row) => row.status === "active",
+        hydrate: (ids) => fetchInventory(shopId, ids),
+        compare: (a, b) => a.expiry_date.localeCompare(b.expiry_date),
+      }),
+  });
 
   const getDaysToExpiry = (expiryDate: string) => {
     return Math.ceil((new Date(expiryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
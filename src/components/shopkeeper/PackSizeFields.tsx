@@ -0,0 +1,54 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PACK_UNITS, PACK_UNIT_LABELS, PackSize, PackUnit } from "@/lib/impact";
+
+interface PackSizeFieldsProps {
+  value: PackSize;
+  onChange: (value: PackSize) => void;
+  disabled?: boolean;
+}
+
+const PackSizeFields = ({ value, onChange, disabled }: PackSizeFieldsProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="netQuantity">Net weight / volume per pack</Label>
+      <div className="flex gap-2">
+        <Input
+          id="netQuantity"
+          type="number"
+          min={0}
+          step="any"
+          placeholder="e.g., 500"
+          value={value.netQuantity ?? ""}
+          onChange={(e) =>
+            onChange({
+              netQuantity: e.target.value ? parseFloat(e.target.value) : null,
+              netUnit: value.netUnit ?? "g",
+            })
+          }
+          disabled={disabled}
+        />
+        <Select
+          value={value.netUnit ?? "g"}
+          onValueChange={(unit) => onChange({ ...value, netUnit: unit as PackUnit })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PACK_UNITS.map((unit) => (
+              <SelectItem key={unit} value={unit}>
+                {PACK_UNIT_LABELS[unit]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">As printed on the pack. Used to measure food saved from waste.</p>
+    </div>
+  );
+};
+
+export default PackSizeFields;
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { PackageCheck, Loader2, X } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Reservation = Tables<"orders"> & {
+  order_items: {
+    quantity: number;
+    unit_price: number;
+    products: { name: string; brand: string | null } | null;
+    inventory_batches: { expiry_date: string } | null;
+  }[];
+};
+
+interface ReservationsPanelProps {
+  shopId: string;
+  onOrderCollected: () => void;
+}
+
+const ReservationsPanel = ({ shopId, onOrderCollected }: ReservationsPanelProps) => {
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<Reservation[]>([]);
+  const [pickupCode, setPickupCode] = useState("");
+  const [collecting, setCollecting] = useState(false);
+
+  const loadOrders = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(`
+        *,
+        order_items (
+          quantity,
+          unit_price,
+          products (name, brand),
+          inventory_batches (expiry_date)
+        )
+      `)
+      .eq("shop_id", shopId)
+      .eq("status", "reserved")
+      .order("hold_expires_at", { ascending: true });
+
+    if (!error && data) {
+      setOrders(data);
+    }
+  }, [shopId]);
+
+  useEffect(() => {
+    loadOrders();
+
+    const channel = supabase
+      .channel("shop-orders")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "orders",
+          filter: `shop_id=eq.${shopId}`,
+        },
+        () => {
+          loadOrders();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [shopId, loadOrders]);
+
+  const handleCollect = async (code: string) => {
+    if (code.length !== 6) return;
+    setCollecting(true);
+
+    try {
+      const { data: order, error } = await supabase.rpc("collect_order", {
+        _shop_id: shopId,
+        _pickup_code: code,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: `Order #${order.order_number} handed over`,
+        description: `Collect ₹${Number(order.total).toFixed(2)} from the customer.`,
+      });
+      setPickupCode("");
+      loadOrders();
+      onOrderCollected();
+    } catch (error: unknown) {
+      toast({
+        title: "Pickup Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setCollecting(false);
+    }
+  };
+
+  const handleCancel = async (orderId: string) => {
+    const { error } = await supabase.rpc("cancel_order", { _order_id: orderId });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Reservation cancelled", description: "The held stock is back on the shelf." });
+    loadOrders();
+    onOrderCollected();
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackageCheck className="w-5 h-5" />
+          Pickups
+          {orders.length > 0 && <Badge>{orders.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Enter or scan the customer's pickup code to hand over a reservation</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <InputOTP
+            maxLength={6}
+            value={pickupCode}
+            onChange={setPickupCode}
+            onComplete={handleCollect}
+            disabled={collecting}
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <Button onClick={() => handleCollect(pickupCode)} disabled={collecting || pickupCode.length !== 6}>
+            {collecting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Hand Over"}
+          </Button>
+        </div>
+
+        {orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No reservations waiting for pickup.</p>
+        ) : (
+          <div className="space-y-3">
+            {orders.map((order) => {
+              const overdue = new Date(order.hold_expires_at).getTime() < Date.now();
+              return (
+                <div key={order.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">Order #{order.order_number}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Reserved {format(new Date(order.created_at), "PP p")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={overdue ? "destructive" : "secondary"}>
+                        {overdue
+                          ? "Hold ended"
+                          : `Held for ${formatDistanceToNow(new Date(order.hold_expires_at))}`}
+                      </Badge>
+                      <Button size="icon" variant="ghost" onClick={() => handleCancel(order.id)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <ul className="text-sm space-y-1">
+                    {order.order_items.map((item, index) => (
+                      <li key={index} className="flex justify-between">
+                        <span>
+                          {item.quantity} × {item.products?.name}
+                          <span className="text-xs text-muted-foreground ml-2">
+                            Exp {item.inventory_batches && format(new Date(item.inventory_batches.expiry_date), "dd MMM")}
+                          </span>
+                        </span>
+                        <span>₹{(item.quantity * item.unit_price).toFixed(2)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-between text-sm font-semibold border-t pt-2">
+                    <span>To collect</span>
+                    <span>₹{Number(order.total).toFixed(2)}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReservationsPanel;
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Review, fetchReviews, reviewsQueryKey } from "@/hooks/use-reviews";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import { MessageSquare } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import StarRating from "@/components/StarRating";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface ReviewsPanelProps {
+  shopId: string;
+}
+
+const ReviewsPanel = ({ shopId }: ReviewsPanelProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const queryKey = reviewsQueryKey({ shopId });
+  const { data: reviews = [] } = useQuery({
+    queryKey,
+    queryFn: () => fetchReviews({ shopId }),
+  });
+
+  const { data: rating } = useQuery({
+    queryKey: ["shop-ratings", [shopId]],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("shop_ratings")
+        .select("*")
+        .eq("shop_id", shopId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useRealtimePatch<Review[], Tables<"reviews">>({
+    table: "reviews",
+    queryKey,
+    filter: `shop_id=eq.${shopId}`,
+    apply: (rows, changes) => {
+      queryClient.invalidateQueries({ queryKey: ["shop-ratings", [shopId]] });
+      return patchRows(rows, changes, {
+        hydrate: (ids) => fetchReviews({ shopId }, ids),
+        compare: (a, b) => b.created_at.localeCompare(a.created_at),
+      });
+    },
+  });
+
+  const startReply = (review: Review) => {
+    setReplyingTo(review.id);
+    setReply(review.shop_reply ?? "");
+  };
+
+  const submitReply = async (reviewId: string) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc("reply_to_review", {
+        _review_id: reviewId,
+        _reply: reply,
+      });
+      if (error) throw error;
+
+      queryClient.setQueryData<Review[]>(queryKey, (current) =>
+        current?.map((review) => (review.id === reviewId ? { ...review, ...data } : review))
+      );
+      toast({ title: data.shop_reply ? "Reply posted" : "Reply removed" });
+      setReplyingTo(null);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Customer Reviews
+          {rating && (
+            <span className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+              <StarRating value={rating.average_rating ?? 0} />
+              {Number(rating.average_rating).toFixed(1)} ({rating.review_count})
+            </span>
+          )}
+        </CardTitle>
+        <CardDescription>Reviews from customers who bought from your shop</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviews yet.</p>
+        ) : (
+          reviews.map((review) => (
+            <div key={review.id} className="space-y-2 border-b pb-4 last:border-0">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <StarRating value={review.rating} />
+                  <span className="text-sm font-medium">{review.products?.name}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              {review.comment && <p className="text-sm">{review.comment}</p>}
+
+              {replyingTo === review.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Write a public reply"
+                    maxLength={1000}
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => submitReply(review.id)} disabled={saving}>
+                      {saving ? "Saving..." : "Post Reply"}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {review.shop_reply && (
+                    <div className="ml-3 border-l-2 pl-3 text-sm text-muted-foreground">
+                      {review.shop_reply}
+                    </div>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => startReply(review)}>
+                    {review.shop_reply ? "Edit Reply" : "Reply"}
+                  </Button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewsPanel;
@@ -7,6 +7,9 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Camera, Upload, Loader2, Image as ImageIcon, X } from "lucide-react";
 import CameraScan from "./CameraScan";
+import DiscountPreview from "./DiscountPreview";
+import DietaryFields from "./DietaryFields";
+import PackSizeFields from "./PackSizeFields";
 
 interface ScanProductDialogProps {
   shopId: string;
@@ -169,6 +172,25 @@ const ScanProductDialog = ({ shopId, onProductAdded }: ScanProductDialogProps) =
 
       if (existingProduct) {
         productId = existingProduct.id;
+
+        // Fill in dietary info the shared catalog entry may be missing
+        if (extractedData.diet || extractedData.allergens?.length) {
+          const { error: tagError } = await supabase.rpc("set_product_dietary", {
+            _product_id: productId,
+            _diet: extractedData.diet,
+            _allergens: extractedData.allergens || [],
+          });
+          if (tagError) throw tagError;
+        }
+
+        if (extractedData.netQuantity && extractedData.netUnit) {
+          const { error: packError } = await supabase.rpc("set_product_pack_size", {
+            _product_id: productId,
+            _net_quantity: extractedData.netQuantity,
+            _net_unit: extractedData.netUnit,
+          });
+          if (packError) throw packError;
+        }
       } else {
         const { data: newProduct, error: productError } = await supabase
           .from("products")
@@ -178,6 +200,10 @@ const ScanProductDialog = ({ shopId, onProductAdded }: ScanProductDialogProps) =
             category: extractedData.category || "General",
             default_mrp: extractedData.mrp || 0,
             gtin: extractedData.gtin || null,
+            diet: extractedData.diet || null,
+            allergens: extractedData.allergens || [],
+            net_quantity: extractedData.netQuantity || null,
+            net_unit: extractedData.netQuantity ? extractedData.netUnit : null,
           })
           .select()
           .single();
@@ -186,21 +212,7 @@ const ScanProductDialog = ({ shopId, onProductAdded }: ScanProductDialogProps) =
         productId = newProduct.id;
       }
 
-      let discountPercent = 0;
-      if (extractedData.expiryDate) {
-        const daysToExpiry = Math.ceil(
-          (new Date(extractedData.expiryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-        );
-        
-        if (daysToExpiry <= 30 && daysToExpiry > 15) {
-          discountPercent = 10;
-        } else if (daysToExpiry <= 15 && daysToExpiry > 7) {
-          discountPercent = 20;
-        } else if (daysToExpiry <= 7 && daysToExpiry > 0) {
-          discountPercent = 30;
-        }
-      }
-
+      // The discount is applied by the database from the shop's discount policy
       const { data: batch, error: batchError } = await supabase
         .from("inventory_batches")
         .insert({
@@ -210,13 +222,14 @@ const ScanProductDialog = ({ shopId, onProductAdded }: ScanProductDialogProps) =
           quantity: extractedData.quantity || 1,
           expiry_date: extractedData.expiryDate || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           mrp: extractedData.mrp || 0,
-          discount_percent: discountPercent,
         })
         .select()
         .single();
 
       if (batchError) throw batchError;
 
+      const discountPercent = batch.discount_percent;
+
       if (productImages.length > 0) {
         await uploadProductImages(productId, batch.id);
       }
@@ -438,6 +451,26 @@ const ScanProductDialog = ({ shopId, onProductAdded }: ScanProductDialogProps) =
                 )}
               </div>
 
+              <PackSizeFields
+                value={{ netQuantity: extractedData.netQuantity ?? null, netUnit: extractedData.netUnit ?? null }}
+                onChange={(packSize) => setExtractedData({ ...extractedData, ...packSize })}
+                disabled={!editMode}
+              />
+
+              <DietaryFields
+                diet={extractedData.diet || null}
+                allergens={extractedData.allergens || []}
+                onChange={(dietary) => setExtractedData({ ...extractedData, ...dietary })}
+                disabled={!editMode}
+              />
+
+              <DiscountPreview
+                shopId={shopId}
+                category={extractedData.category || "General"}
+                expiryDate={extractedData.expiryDate || ""}
+                mrp={extractedData.mrp || 0}
+              />
+
               {extractedData.confidence && (
                 <div className="p-4 bg-secondary/50 rounded-lg">
                   <p className="text-sm font-medium mb-2">Extraction Confidence</p>
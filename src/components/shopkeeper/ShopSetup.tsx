@@ -18,6 +18,7 @@ interface ShopSetupProps {
 const shopSchema = z.object({
   name: z.string().trim().min(3, "Shop name must be at least 3 characters").max(100, "Shop name too long"),
   address: z.string().trim().min(10, "Address must be at least 10 characters").max(500, "Address too long"),
+  city: z.string().trim().min(2, "City is required").max(80, "City name too long"),
   latitude: z.number().min(-90, "Invalid latitude").max(90, "Invalid latitude"),
   longitude: z.number().min(-180, "Invalid longitude").max(180, "Invalid longitude"),
   gstNumber: z.string().trim().max(15, "GST number too long").optional().nullable()
@@ -30,6 +31,7 @@ const ShopSetup = ({ onShopCreated }: ShopSetupProps) => {
   const [formData, setFormData] = useState({
     name: "",
     address: "",
+    city: "",
     latitude: "",
     longitude: "",
     gstNumber: "",
@@ -61,6 +63,7 @@ const ShopSetup = ({ onShopCreated }: ShopSetupProps) => {
       const validatedData = shopSchema.parse({
         name: formData.name,
         address: formData.address,
+        city: formData.city,
         latitude: parseFloat(formData.latitude),
         longitude: parseFloat(formData.longitude),
         gstNumber: formData.gstNumber || null
@@ -73,6 +76,7 @@ const ShopSetup = ({ onShopCreated }: ShopSetupProps) => {
       const { error } = await supabase.from("shops").insert({
         name: validatedData.name,
         address: validatedData.address,
+        city: validatedData.city,
         latitude: validatedData.latitude,
         longitude: validatedData.longitude,
         owner_id: user.id,
@@ -154,6 +158,16 @@ const ShopSetup = ({ onShopCreated }: ShopSetupProps) => {
                 required
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="city">City *</Label>
+              <Input
+                id="city"
+                value={formData.city}
+                onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                placeholder="e.g., Bengaluru"
+                required
+              />
+            </div>
             
             <div className="space-y-2">
               <Label>Select Shop Location (Click on the map) *</Label>
@@ -1,14 +1,15 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, Clock, XCircle, AlertCircle } from "lucide-react";
+import { CheckCircle, Clock, XCircle, AlertCircle, Ban } from "lucide-react";
 
 interface ShopVerificationStatusProps {
   status: string;
   rejectionReason?: string | null;
+  suspensionReason?: string | null;
   createdAt: string;
 }
 
-const ShopVerificationStatus = ({ status, rejectionReason, createdAt }: ShopVerificationStatusProps) => {
+const ShopVerificationStatus = ({ status, rejectionReason, suspensionReason, createdAt }: ShopVerificationStatusProps) => {
   const getStatusConfig = () => {
     switch (status) {
       case 'verified':
@@ -38,6 +39,15 @@ const ShopVerificationStatus = ({ status, rejectionReason, createdAt }: ShopVeri
           message: rejectionReason || "Your shop registration was not approved. Please contact support.",
           badge: <Badge variant="destructive">Rejected</Badge>
         };
+      case 'suspended':
+        return {
+          icon: Ban,
+          color: "text-red-500",
+          bgColor: "bg-red-50 border-red-200",
+          title: "Shop Suspended",
+          message: "Your shop is hidden from customers and cannot take new orders or sales. Please contact support to have it reinstated.",
+          badge: <Badge variant="destructive">Suspended</Badge>
+        };
       default:
         return {
           icon: AlertCircle,
@@ -77,6 +87,12 @@ const ShopVerificationStatus = ({ status, rejectionReason, createdAt }: ShopVeri
                 Average approval time: 1-2 business days.
               </p>
             )}
+            {status === 'suspended' && suspensionReason && (
+              <div className="mt-3 p-3 bg-white rounded-md border">
+                <p className="text-xs font-medium text-muted-foreground mb-1">Reason:</p>
+                <p className="text-sm">{suspensionReason}</p>
+              </div>
+            )}
             {status === 'rejected' && rejectionReason && (
               <div className="mt-3 p-3 bg-white rounded-md border">
                 <p className="text-xs font-medium text-muted-foreground mb-1">Reason:</p>
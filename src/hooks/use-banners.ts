@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuthUserId } from "@/hooks/use-auth-user";
+import { useRealtimePatch } from "@/hooks/use-realtime-patch";
+
+export type Banner = Tables<"announcement_banners">;
+
+export const BANNER_AUDIENCES: Record<string, string> = {
+  all: "Everyone",
+  customer: "Customers",
+  shopkeeper: "Shopkeepers",
+  admin: "Admins",
+};
+
+export function useActiveBanners() {
+  const queryClient = useQueryClient();
+  // Targeting and dismissals depend on who is signed in, so each user gets their own cache
+  const { userId } = useAuthUserId();
+  const queryKey = ["active-banners", userId];
+
+  const { data: banners = [] } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("active_banners");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+    // Scheduled banners go live without any row changing, and RLS hides a banner from
+    // non-admins once it is deactivated, so its update never reaches them; poll as well
+    refetchInterval: 60 * 1000,
+  });
+
+  // Targeting, scheduling and dismissals are decided server-side; refetch on any edit
+  useRealtimePatch<Banner[], Banner>({
+    table: "announcement_banners",
+    queryKey,
+    enabled: !!userId,
+    apply: () => undefined,
+  });
+
+  const { mutate: dismiss } = useMutation({
+    mutationFn: async (bannerId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("banner_dismissals")
+        .insert({ user_id: user.id, banner_id: bannerId });
+      if (error) throw error;
+    },
+    onMutate: (bannerId) => {
+      queryClient.setQueryData<Banner[]>(queryKey, (current) => current?.filter((b) => b.id !== bannerId));
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return { banners, dismiss };
+}
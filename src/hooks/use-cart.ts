@@ -0,0 +1,45 @@
+import * as React from "react";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CartLine = Tables<"cart_items"> & {
+  // null once the batch sells out or expires (customers only see active batches)
+  inventory_batches: Pick<Tables<"inventory_batches">, "quantity" | "status" | "mrp" | "discount_percent" | "expiry_date"> | null;
+  products: Pick<Tables<"products">, "name" | "brand"> | null;
+  shops: Pick<Tables<"shops">, "name" | "address"> | null;
+};
+
+export interface CartBatch {
+  id: string;
+  shop_id: string;
+  product_id: string;
+}
+
+export interface CartContextValue {
+  lines: CartLine[];
+  itemCount: number;
+  loading: boolean;
+  addItem: (batch: CartBatch, quantity?: number) => Promise<void>;
+  updateQuantity: (lineId: string, quantity: number) => Promise<void>;
+  removeItem: (lineId: string) => Promise<void>;
+  reserveShop: (shopId: string) => Promise<Tables<"orders"> | null>;
+  reload: () => Promise<void>;
+}
+
+export const CartContext = React.createContext<CartContextValue | null>(null);
+
+export function useCart() {
+  const context = React.useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+}
+
+// Problems to resolve before a line can be reserved
+export function cartLineIssue(line: CartLine) {
+  const batch = line.inventory_batches;
+  if (!batch || batch.status !== "active") return "No longer available";
+  if (new Date(batch.expiry_date) < new Date(new Date().toDateString())) return "Expired";
+  if (batch.quantity < line.quantity) return `Only ${batch.quantity} left`;
+  return null;
+}
@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+
+export type ComplaintMessage = Tables<"complaint_messages">;
+export type ComplaintParticipant = "customer" | "shop" | "admin";
+
+const fetchMessages = async (complaintId: string, ids?: string[]) => {
+  let query = supabase
+    .from("complaint_messages")
+    .select("*")
+    .eq("complaint_id", complaintId)
+    .order("created_at", { ascending: true });
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export function useComplaintThread(complaintId: string, enabled = true) {
+  const queryClient = useQueryClient();
+  const queryKey = ["complaint-thread", complaintId];
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => fetchMessages(complaintId),
+    enabled,
+  });
+
+  // The viewer's side of the complaint decides how messages are labelled and what they post as
+  const { data: viewer } = useQuery({
+    queryKey: ["complaint-participant", complaintId],
+    enabled,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase.rpc("complaint_participant_role", { _complaint_id: complaintId });
+      if (error) throw error;
+      return { userId: user.id, role: data as ComplaintParticipant | null };
+    },
+  });
+
+  useRealtimePatch<ComplaintMessage[], ComplaintMessage>({
+    table: "complaint_messages",
+    queryKey,
+    filter: `complaint_id=eq.${complaintId}`,
+    enabled,
+    apply: (rows, changes) =>
+      patchRows(rows, changes, {
+        hydrate: (ids) => fetchMessages(complaintId, ids),
+        compare: (a, b) => a.created_at.localeCompare(b.created_at),
+      }),
+  });
+
+  const { mutateAsync: sendMessage, isPending: sending } = useMutation({
+    mutationFn: async (body: string) => {
+      if (!viewer?.role) throw new Error("You are not part of this complaint");
+
+      const { data, error } = await supabase
+        .from("complaint_messages")
+        .insert({
+          complaint_id: complaintId,
+          sender_id: viewer.userId,
+          sender_role: viewer.role,
+          body,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<ComplaintMessage[]>(queryKey, (current = []) =>
+        current.some((m) => m.id === message.id) ? current : [...current, message]
+      );
+    },
+  });
+
+  return { messages, isLoading, viewer, sendMessage, sending };
+}
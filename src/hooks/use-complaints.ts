@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuthUserId } from "@/hooks/use-auth-user";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import { ComplaintCategory, EVIDENCE_BUCKET } from "@/lib/complaints";
+
+export type CustomerComplaint = Tables<"complaints"> & {
+  shops: { name: string } | null;
+  products: { name: string } | null;
+};
+
+export interface NewComplaint {
+  shopId?: string;
+  productId?: string;
+  category: ComplaintCategory;
+  title: string;
+  description: string;
+  photos: File[];
+}
+
+// Per user, so a sign-in on the same tab never sees the previous customer's complaints
+const queryKeyFor = (userId: string | null) => ["my-complaints", userId];
+
+const fetchMyComplaints = async (ids?: string[]) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let query = supabase
+    .from("complaints")
+    .select("*, shops (name), products (name)")
+    .eq("customer_id", user.id)
+    .order("created_at", { ascending: false });
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data as CustomerComplaint[];
+};
+
+// Evidence is private; links are signed for an hour
+export const evidenceUrls = async (paths: string[]) => {
+  if (paths.length === 0) return [];
+  const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+  return data.flatMap((item) => (item.signedUrl ? [item.signedUrl] : []));
+};
+
+export function useMyComplaints(enabled = true) {
+  const { userId, loading: authLoading } = useAuthUserId();
+  const queryKey = queryKeyFor(userId);
+  const active = enabled && !!userId;
+  const { data: complaints = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => fetchMyComplaints(),
+    enabled: active,
+  });
+
+  // RLS limits the stream to the customer's own complaints
+  useRealtimePatch<CustomerComplaint[], Tables<"complaints">>({
+    table: "complaints",
+    queryKey,
+    enabled: active,
+    apply: (rows, changes) =>
+      patchRows(rows, changes, {
+        hydrate: fetchMyComplaints,
+        compare: (a, b) => b.created_at.localeCompare(a.created_at),
+      }),
+  });
+
+  return { complaints, isLoading: authLoading || isLoading };
+}
+
+export function useFileComplaint() {
+  const queryClient = useQueryClient();
+  const { userId } = useAuthUserId();
+
+  return useMutation({
+    mutationFn: async ({ shopId, productId, category, title, description, photos }: NewComplaint) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Please log in to report a problem");
+
+      const paths: string[] = [];
+      try {
+        for (const photo of photos) {
+          const fileExt = photo.name.split(".").pop();
+          const path = `${user.id}/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+          const { error } = await supabase.storage.from(EVIDENCE_BUCKET).upload(path, photo);
+          if (error) throw error;
+          paths.push(path);
+        }
+
+        const { error } = await supabase.from("complaints").insert({
+          customer_id: user.id,
+          shop_id: shopId ?? null,
+          product_id: productId ?? null,
+          category,
+          title,
+          description,
+          evidence_paths: paths,
+        });
+        if (error) throw error;
+      } catch (error) {
+        // Don't leave orphaned photos behind when the complaint itself was not filed
+        if (paths.length > 0) await supabase.storage.from(EVIDENCE_BUCKET).remove(paths);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeyFor(userId) });
+    },
+  });
+}
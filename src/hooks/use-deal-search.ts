@@ -0,0 +1,149 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { Coordinates } from "@/hooks/use-geolocation";
+
+export type DealSort = "relevance" | "distance" | "discount" | "expiry" | "price" | "rating";
+
+export type DealRow = Database["public"]["Functions"]["search_deals"]["Returns"][number];
+
+export interface DealSearchFilters {
+  categories: string[];
+  brands: string[];
+  discountRange: [number, number];
+  maxDaysToExpiry: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  openNow: boolean;
+  // Hide products that conflict with the customer's dietary preferences instead of flagging them
+  hideDietConflicts: boolean;
+}
+
+export const DEFAULT_DEAL_FILTERS: DealSearchFilters = {
+  categories: [],
+  brands: [],
+  discountRange: [0, 100],
+  maxDaysToExpiry: null,
+  minPrice: null,
+  maxPrice: null,
+  openNow: false,
+  hideDietConflicts: true,
+};
+
+const PAGE_SIZE = 24;
+
+interface DealSearchParams {
+  query: string;
+  filters: DealSearchFilters;
+  sort: DealSort;
+  location: Coordinates | null;
+  radiusKm: number | null;
+  // The customer's dietary_preferences
+  dietary: string[];
+}
+
+const areaArgs = (location: Coordinates | null, radiusKm: number | null) => ({
+  _lat: location?.[0],
+  _lng: location?.[1],
+  _radius_km: location ? radiusKm ?? undefined : undefined,
+});
+
+export const countActiveFilters = (filters: DealSearchFilters) =>
+  filters.categories.length +
+  filters.brands.length +
+  (filters.discountRange[0] > 0 || filters.discountRange[1] < 100 ? 1 : 0) +
+  (filters.maxDaysToExpiry !== null ? 1 : 0) +
+  (filters.minPrice !== null || filters.maxPrice !== null ? 1 : 0) +
+  (filters.openNow ? 1 : 0);
+
+// Shape a search row like the inventory_batches joins ProductCard and CheckoutDialog expect
+export const toBatch = (row: DealRow) => ({
+  id: row.batch_id,
+  product_id: row.product_id,
+  shop_id: row.shop_id,
+  quantity: row.quantity,
+  mrp: Number(row.mrp),
+  discount_percent: Number(row.discount_percent),
+  expiry_date: row.expiry_date,
+  distance_km: row.distance_km,
+  rating: { average: row.product_rating, count: row.product_review_count },
+  products: {
+    name: row.product_name,
+    brand: row.brand,
+    category: row.category,
+    diet: row.diet,
+    allergens: row.allergens,
+  },
+  shops: { name: row.shop_name, address: row.shop_address, is_open: row.shop_is_open },
+});
+
+// Preferences to filter on server-side, or undefined when conflicts are only flagged
+export const dietaryFilter = (dietary: string[], hideConflicts: boolean) =>
+  hideConflicts && dietary.length > 0 ? dietary : undefined;
+
+export const dealSearchQueryKey = ({ query, filters, sort, location, radiusKm, dietary }: DealSearchParams) => [
+  "deal-search",
+  query,
+  filters,
+  sort,
+  location,
+  radiusKm,
+  dietary,
+];
+
+export function useDealSearch(params: DealSearchParams) {
+  const { query, filters, sort, location, radiusKm, dietary } = params;
+  return useInfiniteQuery({
+    queryKey: dealSearchQueryKey(params),
+    initialPageParam: null as DealRow | null,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc("search_deals", {
+        _query: query || undefined,
+        ...areaArgs(location, radiusKm),
+        _categories: filters.categories.length ? filters.categories : undefined,
+        _brands: filters.brands.length ? filters.brands : undefined,
+        _min_discount: filters.discountRange[0] > 0 ? filters.discountRange[0] : undefined,
+        _max_discount: filters.discountRange[1] < 100 ? filters.discountRange[1] : undefined,
+        _max_days_to_expiry: filters.maxDaysToExpiry ?? undefined,
+        _min_price: filters.minPrice ?? undefined,
+        _max_price: filters.maxPrice ?? undefined,
+        _open_now: filters.openNow,
+        _dietary: dietaryFilter(dietary, filters.hideDietConflicts),
+        _sort: sort,
+        _after_key: pageParam?.sort_key,
+        _after_id: pageParam?.batch_id,
+        _limit: PAGE_SIZE,
+      });
+      if (error) throw error;
+      return data;
+    },
+    // The last row of a full page is the cursor for the next one
+    getNextPageParam: (lastPage) =>
+      lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1] : undefined,
+  });
+}
+
+export function useDealFacets(
+  query: string,
+  location: Coordinates | null,
+  radiusKm: number | null,
+  dietary?: string[]
+) {
+  return useQuery({
+    queryKey: ["deal-facets", query, location, radiusKm, dietary],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("search_deal_facets", {
+        _query: query || undefined,
+        ...areaArgs(location, radiusKm),
+        _dietary: dietary,
+      });
+      if (error) throw error;
+
+      return {
+        categories: data.filter((f) => f.facet === "category"),
+        brands: data.filter((f) => f.facet === "brand"),
+        maxPrice: Math.ceil(Math.max(0, ...data.map((f) => Number(f.max_price)))),
+      };
+    },
+  });
+}
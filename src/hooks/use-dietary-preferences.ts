@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+const QUERY_KEY = ["dietary-preferences"];
+
+export function useDietaryPreferences() {
+  const queryClient = useQueryClient();
+
+  const { data: preferences = [], isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("dietary_preferences")
+        .eq("id", user.id)
+        .single();
+      if (error) throw error;
+      return data.dietary_preferences ?? [];
+    },
+  });
+
+  const { mutateAsync: savePreferences, isPending: saving } = useMutation({
+    mutationFn: async (next: string[]) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Please log in to save preferences");
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ dietary_preferences: next })
+        .eq("id", user.id);
+      if (error) throw error;
+      return next;
+    },
+    onSuccess: (next) => {
+      queryClient.setQueryData(QUERY_KEY, next);
+    },
+  });
+
+  return { preferences, isLoading, savePreferences, saving };
+}
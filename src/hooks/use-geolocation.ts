@@ -0,0 +1,32 @@
+import * as React from "react";
+
+export type Coordinates = [number, number];
+
+export function useGeolocation() {
+  const [location, setLocation] = React.useState<Coordinates | null>(null);
+  const [denied, setDenied] = React.useState(false);
+
+  const refresh = React.useCallback(() => {
+    if (!navigator.geolocation) {
+      setDenied(true);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation([position.coords.latitude, position.coords.longitude]);
+        setDenied(false);
+      },
+      (error) => {
+        console.log("Location access denied:", error);
+        setDenied(true);
+      }
+    );
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { location, denied, refresh };
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ImpactGrouping = "platform" | "city" | "shop";
+export type EmissionFactor = Tables<"category_emission_factors">;
+
+export interface ImpactRange {
+  // Inclusive calendar days in the browser's time zone; leave both out for all time
+  from?: string;
+  to?: string;
+  city?: string;
+  category?: string;
+}
+
+const bounds = ({ from, to }: ImpactRange) => {
+  const end = to ? new Date(`${to}T00:00:00`) : new Date();
+  if (to) end.setDate(end.getDate() + 1);
+  return {
+    _from: from ? new Date(`${from}T00:00:00`).toISOString() : new Date(0).toISOString(),
+    _to: end.toISOString(),
+  };
+};
+
+export function useImpactReport(range: ImpactRange, groupBy: ImpactGrouping = "platform") {
+  return useQuery({
+    queryKey: ["impact-report", range, groupBy],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("impact_report", {
+        ...bounds(range),
+        _city: range.city?.trim() || undefined,
+        _category: range.category?.trim() || undefined,
+        _group_by: groupBy,
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useEmissionFactors() {
+  return useQuery({
+    queryKey: ["emission-factors"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("category_emission_factors")
+        .select("*")
+        .order("category");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSetting } from "@/hooks/use-settings";
+import { useAuthUserId } from "@/hooks/use-auth-user";
+
+export function useMaintenanceMode() {
+  // Poll so open tabs pick up the switch without a reload
+  const { value: maintenance, isLoading } = useSetting("maintenance_mode", { refetchInterval: 60 * 1000 });
+
+  // Admins keep working through maintenance; only look them up while it's on.
+  // Keyed by user so a role cached for one login is never reused for the next.
+  const { userId, loading: authLoading } = useAuthUserId();
+  const { data: isAdmin, isLoading: checkingRole } = useQuery({
+    queryKey: ["is-admin", userId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("has_role", { _user_id: userId!, _role: "admin" });
+      if (error) throw error;
+      return data;
+    },
+    enabled: maintenance && !!userId,
+  });
+
+  return {
+    maintenance,
+    // Only a confirmed admin gets through; a failed role lookup keeps the app closed
+    blocked: maintenance && (userId === null ? !authLoading : !checkingRole && isAdmin !== true),
+    isLoading: isLoading || (maintenance && (authLoading || checkingRole)),
+  };
+}
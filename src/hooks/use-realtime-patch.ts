@@ -0,0 +1,149 @@
+import * as React from "react";
+import { hashKey, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+type AnyRow = Record<string, unknown>;
+
+export type RowChange<T extends AnyRow = AnyRow> = RealtimePostgresChangesPayload<T>;
+
+// postgres_changes accepts at most 100 values in an `in` filter
+export const MAX_FILTER_VALUES = 100;
+
+// Build a `column=in.(...)` filter, or null when there is nothing to watch
+export const inFilter = (column: string, values: string[]) => {
+  const unique = [...new Set(values)];
+  if (unique.length === 0 || unique.length > MAX_FILTER_VALUES) return null;
+  return `${column}=in.(${unique.join(",")})`;
+};
+
+interface RealtimePatchOptions<D, T extends AnyRow> {
+  table: string;
+  queryKey: QueryKey;
+  // postgres_changes filter such as `shop_id=eq.<id>`; null means nothing is visible, so don't subscribe
+  filter?: string | null;
+  // Changes arriving within this window are applied to the cache together
+  debounceMs?: number;
+  enabled?: boolean;
+  // Fold a burst of changes into the cached data. Return undefined to fall back to a refetch.
+  apply: (current: D, changes: RowChange<T>[]) => D | undefined | Promise<D | undefined>;
+}
+
+/**
+ * Subscribes to row changes on a table and patches them into a react-query cache entry in place,
+ * instead of reloading the whole query on every event.
+ */
+export function useRealtimePatch<D, T extends AnyRow = AnyRow>({
+  table,
+  queryKey,
+  filter,
+  debounceMs = 500,
+  enabled = true,
+  apply,
+}: RealtimePatchOptions<D, T>) {
+  const queryClient = useQueryClient();
+  const applyRef = React.useRef(apply);
+  applyRef.current = apply;
+
+  const key = hashKey(queryKey);
+  const keyRef = React.useRef(queryKey);
+  keyRef.current = queryKey;
+
+  React.useEffect(() => {
+    if (!enabled || filter === null) return;
+
+    let pending: RowChange<T>[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = async () => {
+      timer = undefined;
+      const changes = pending;
+      pending = [];
+
+      const current = queryClient.getQueryData<D>(keyRef.current);
+      if (current === undefined) return;
+
+      try {
+        const next = await applyRef.current(current, changes);
+        if (next === undefined) {
+          queryClient.invalidateQueries({ queryKey: keyRef.current });
+        } else {
+          queryClient.setQueryData(keyRef.current, next);
+        }
+      } catch (error) {
+        console.error(`Failed to apply ${table} changes:`, error);
+        queryClient.invalidateQueries({ queryKey: keyRef.current });
+      }
+    };
+
+    const channel = supabase
+      .channel(`realtime-${table}-${key}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, ...(filter ? { filter } : {}) },
+        (payload: RowChange<T>) => {
+          pending.push(payload);
+          // Fixed window rather than a sliding one so a steady stream still flushes
+          if (!timer) timer = setTimeout(flush, debounceMs);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, table, key, filter, debounceMs, enabled]);
+}
+
+interface PatchRowsOptions<R> {
+  // Rows that should stay in the list after the change, e.g. only active batches
+  keep?: (row: R) => boolean;
+  // Load rows that aren't cached yet (inserts, or rows that just started matching) with their joins
+  hydrate?: (ids: string[]) => Promise<R[]>;
+  compare?: (a: R, b: R) => number;
+}
+
+/**
+ * Apply INSERT/UPDATE/DELETE payloads to a list of rows keyed by id. Updates are merged over the
+ * cached row so embedded joins survive; rows the cache hasn't seen are loaded through `hydrate`.
+ */
+export async function patchRows<R extends { id: string }, T extends AnyRow = AnyRow>(
+  rows: R[],
+  changes: RowChange<T>[],
+  { keep, hydrate, compare }: PatchRowsOptions<R> = {}
+): Promise<R[]> {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const missing = new Set<string>();
+
+  for (const change of changes) {
+    if (change.eventType === "DELETE") {
+      const id = (change.old as AnyRow).id as string | undefined;
+      if (id) {
+        byId.delete(id);
+        missing.delete(id);
+      }
+      continue;
+    }
+
+    const row = change.new as AnyRow;
+    const id = row.id as string;
+    const existing = byId.get(id);
+    if (existing) {
+      byId.set(id, { ...existing, ...row } as R);
+    } else {
+      missing.add(id);
+    }
+  }
+
+  if (hydrate && missing.size > 0) {
+    for (const row of await hydrate([...missing])) {
+      byId.set(row.id, row);
+    }
+  }
+
+  let next = [...byId.values()];
+  if (keep) next = next.filter(keep);
+  if (compare) next.sort(compare);
+  return next;
+}
@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Review = Tables<"reviews"> & { products: { name: string } | null };
+
+interface ReviewScope {
+  shopId: string;
+  // Limit to one product's reviews at this shop; all of the shop's reviews when omitted
+  productId?: string;
+}
+
+export const reviewsQueryKey = ({ shopId, productId }: ReviewScope) => ["reviews", shopId, productId ?? null];
+
+export const fetchReviews = async ({ shopId, productId }: ReviewScope, ids?: string[]) => {
+  let query = supabase
+    .from("reviews")
+    .select("*, products (name)")
+    .eq("shop_id", shopId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (productId) query = query.eq("product_id", productId);
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data as Review[];
+};
+
+export function useReviews(scope: ReviewScope, enabled = true) {
+  const queryClient = useQueryClient();
+  const { shopId, productId } = scope;
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: reviewsQueryKey(scope),
+    queryFn: () => fetchReviews(scope),
+    enabled,
+  });
+
+  // Only customers with a transaction for this product at this shop may review it
+  const { data: eligibility } = useQuery({
+    queryKey: ["review-eligibility", shopId, productId ?? null],
+    enabled: enabled && !!productId,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { userId: null, canReview: false };
+
+      const { count, error } = await supabase
+        .from("transactions")
+        .select("id", { count: "exact", head: true })
+        .eq("customer_id", user.id)
+        .eq("shop_id", shopId)
+        .eq("product_id", productId!);
+      if (error) throw error;
+      return { userId: user.id, canReview: (count ?? 0) > 0 };
+    },
+  });
+
+  // Looked up on its own: the caller's review may be older than the page of reviews above
+  const { data: ownReview = null } = useQuery({
+    queryKey: ["reviews", shopId, productId ?? null, "own", eligibility?.userId ?? null],
+    enabled: enabled && !!productId && !!eligibility?.userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("*, products (name)")
+        .eq("customer_id", eligibility!.userId!)
+        .eq("shop_id", shopId)
+        .eq("product_id", productId!)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Review | null;
+    },
+  });
+
+  const { mutateAsync: saveReview, isPending: saving } = useMutation({
+    mutationFn: async ({ rating, comment }: { rating: number; comment: string }) => {
+      if (!productId || !eligibility?.userId) throw new Error("Please log in to leave a review");
+
+      const { error } = ownReview
+        ? await supabase
+            .from("reviews")
+            .update({ rating, comment: comment || null })
+            .eq("id", ownReview.id)
+        : await supabase.from("reviews").insert({
+            customer_id: eligibility.userId,
+            product_id: productId,
+            shop_id: shopId,
+            rating,
+            comment: comment || null,
+          });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reviews", shopId] });
+      queryClient.invalidateQueries({ queryKey: ["shop-ratings"] });
+      queryClient.invalidateQueries({ queryKey: ["deal-search"] });
+    },
+  });
+
+  return {
+    reviews,
+    isLoading,
+    canReview: eligibility?.canReview ?? false,
+    ownReview,
+    saveReview,
+    saving,
+  };
+}
@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  SETTING_DEFAULTS,
+  SETTING_KEYS,
+  parseSettings,
+  serializeSetting,
+  type SettingKey,
+  type SettingValue,
+  type SettingValues,
+} from "@/lib/settings";
+
+export const SETTINGS_QUERY_KEY = ["settings"];
+const HISTORY_QUERY_KEY = ["setting-history"];
+
+const fetchSettings = async () => {
+  const { data, error } = await supabase
+    .from("system_settings")
+    .select("setting_key, setting_value")
+    .in("setting_key", SETTING_KEYS);
+  if (error) throw error;
+  return parseSettings(data);
+};
+
+interface SettingsQueryOptions {
+  refetchInterval?: number;
+}
+
+// Every known setting, typed and defaulted. One query backs all useSetting calls.
+export function useSettings(options: SettingsQueryOptions = {}) {
+  return useQuery({
+    queryKey: SETTINGS_QUERY_KEY,
+    queryFn: fetchSettings,
+    ...options,
+  });
+}
+
+export function useSetting<K extends SettingKey>(key: K, options: SettingsQueryOptions = {}) {
+  const { data, isLoading } = useQuery({
+    queryKey: SETTINGS_QUERY_KEY,
+    queryFn: fetchSettings,
+    select: (settings: SettingValues) => settings[key],
+    ...options,
+  });
+
+  return { value: (data ?? SETTING_DEFAULTS[key]) as SettingValue<K>, isLoading };
+}
+
+// Write the given settings. Values are validated against the registry first,
+// so a bad value rejects the whole save rather than landing half of it.
+export function useSaveSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (values: Partial<SettingValues>) => {
+      const keys = Object.keys(values) as SettingKey[];
+      const rows = keys.map((key) => ({
+        setting_key: key,
+        setting_value: serializeSetting(key, values[key] as SettingValue<typeof key>),
+      }));
+      if (rows.length === 0) return;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("system_settings")
+        .upsert(rows.map((row) => ({ ...row, updated_by: user?.id })), { onConflict: "setting_key" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    },
+  });
+}
+
+export function useSettingHistory() {
+  return useQuery({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("system_setting_history")
+        .select("*, profiles!changed_by(name)")
+        .order("changed_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useRollbackSetting() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (historyId: string) => {
+      const { data, error } = await supabase.rpc("rollback_setting", { _history_id: historyId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    },
+  });
+}
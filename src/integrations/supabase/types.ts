@@ -74,6 +74,7 @@ export type Database = {
           target_roles: string[]
           title: string
           type: Database["public"]["Enums"]["announcement_type"]
+          updated_at: string
         }
         Insert: {
           active?: boolean
@@ -86,6 +87,7 @@ export type Database = {
           target_roles?: string[]
           title: string
           type?: Database["public"]["Enums"]["announcement_type"]
+          updated_at?: string
         }
         Update: {
           active?: boolean
@@ -98,6 +100,7 @@ export type Database = {
           target_roles?: string[]
           title?: string
           type?: Database["public"]["Enums"]["announcement_type"]
+          updated_at?: string
         }
         Relationships: [
           {
@@ -116,6 +119,186 @@ export type Database = {
           },
         ]
       }
+      banner_dismissals: {
+        Row: {
+          banner_id: string
+          dismissed_at: string
+          user_id: string
+        }
+        Insert: {
+          banner_id: string
+          dismissed_at?: string
+          user_id: string
+        }
+        Update: {
+          banner_id?: string
+          dismissed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "banner_dismissals_banner_id_fkey"
+            columns: ["banner_id"]
+            isOneToOne: false
+            referencedRelation: "announcement_banners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "banner_dismissals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "banner_dismissals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          bill_number: number
+          channel: string
+          created_at: string
+          created_by: string | null
+          customer_id: string | null
+          id: string
+          item_count: number
+          mrp_total: number
+          shop_id: string
+          total: number
+        }
+        Insert: {
+          bill_number?: never
+          channel: string
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          item_count?: number
+          mrp_total?: number
+          shop_id: string
+          total?: number
+        }
+        Update: {
+          bill_number?: never
+          channel?: string
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          id?: string
+          item_count?: number
+          mrp_total?: number
+          shop_id?: string
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["shop_id"]
+          },
+          {
+            foreignKeyName: "bills_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cart_items: {
+        Row: {
+          batch_id: string
+          created_at: string
+          customer_id: string
+          id: string
+          product_id: string
+          quantity: number
+          shop_id: string
+          updated_at: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          customer_id: string
+          id?: string
+          product_id: string
+          quantity?: number
+          shop_id: string
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          customer_id?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          shop_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["shop_id"]
+          },
+          {
+            foreignKeyName: "cart_items_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_emission_factors: {
+        Row: {
+          category: string
+          default_pack_kg: number
+          kg_co2e_per_kg: number
+          source: string | null
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          default_pack_kg: number
+          kg_co2e_per_kg: number
+          source?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          default_pack_kg?: number
+          kg_co2e_per_kg?: number
+          source?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       chat_messages: {
         Row: {
           content: string
@@ -140,6 +323,55 @@ export type Database = {
         }
         Relationships: []
       }
+      complaint_messages: {
+        Row: {
+          body: string
+          complaint_id: string
+          created_at: string
+          id: string
+          sender_id: string
+          sender_role: string
+        }
+        Insert: {
+          body: string
+          complaint_id: string
+          created_at?: string
+          id?: string
+          sender_id: string
+          sender_role: string
+        }
+        Update: {
+          body?: string
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+          sender_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_messages_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       complaints: {
         Row: {
           assigned_admin_id: string | null
@@ -147,6 +379,9 @@ export type Database = {
           created_at: string
           customer_id: string
           description: string
+          due_at: string
+          escalated_at: string | null
+          evidence_paths: string[]
           id: string
           product_id: string | null
           resolution_note: string | null
@@ -162,6 +397,9 @@ export type Database = {
           created_at?: string
           customer_id: string
           description: string
+          due_at?: string
+          escalated_at?: string | null
+          evidence_paths?: string[]
           id?: string
           product_id?: string | null
           resolution_note?: string | null
@@ -177,6 +415,9 @@ export type Database = {
           created_at?: string
           customer_id?: string
           description?: string
+          due_at?: string
+          escalated_at?: string | null
+          evidence_paths?: string[]
           id?: string
           product_id?: string | null
           resolution_note?: string | null
@@ -238,6 +479,65 @@ export type Database = {
           },
         ]
       }
+      discount_policies: {
+        Row: {
+          category: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          shop_id: string | null
+          tiers: Json
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          shop_id?: string | null
+          tiers: Json
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          shop_id?: string | null
+          tiers?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_policies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discount_policies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discount_policies_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["shop_id"]
+          },
+          {
+            foreignKeyName: "discount_policies_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory_batches: {
         Row: {
           batch_code: string
@@ -356,41 +656,57 @@ export type Database = {
           },
         ]
       }
-      product_images: {
+      order_items: {
         Row: {
-          batch_id: string | null
-          created_at: string | null
+          batch_id: string
+          created_at: string
+          discount_percent: number
           id: string
-          image_url: string
+          mrp: number
+          order_id: string
           product_id: string
-          uploaded_by: string
+          quantity: number
+          unit_price: number
         }
         Insert: {
-          batch_id?: string | null
-          created_at?: string | null
+          batch_id: string
+          created_at?: string
+          discount_percent?: number
           id?: string
-          image_url: string
+          mrp: number
+          order_id: string
           product_id: string
-          uploaded_by: string
+          quantity: number
+          unit_price: number
         }
         Update: {
-          batch_id?: string | null
-          created_at?: string | null
+          batch_id?: string
+          created_at?: string
+          discount_percent?: number
           id?: string
-          image_url?: string
+          mrp?: number
+          order_id?: string
           product_id?: string
-          uploaded_by?: string
+          quantity?: number
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "product_images_batch_id_fkey"
+            foreignKeyName: "order_items_batch_id_fkey"
             columns: ["batch_id"]
             isOneToOne: false
             referencedRelation: "inventory_batches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "product_images_product_id_fkey"
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
@@ -398,33 +714,166 @@ export type Database = {
           },
         ]
       }
-      products: {
+      orders: {
         Row: {
-          brand: string | null
-          category: string
+          bill_id: string | null
+          cancelled_at: string | null
+          collected_at: string | null
           created_at: string
-          default_mrp: number
-          gtin: string | null
+          customer_id: string
+          hold_expires_at: string
           id: string
-          name: string
+          item_count: number
+          mrp_total: number
+          order_number: number
+          pickup_code: string
+          shop_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          total: number
+          updated_at: string
         }
         Insert: {
-          brand?: string | null
-          category: string
+          bill_id?: string | null
+          cancelled_at?: string | null
+          collected_at?: string | null
           created_at?: string
-          default_mrp: number
-          gtin?: string | null
+          customer_id: string
+          hold_expires_at: string
           id?: string
-          name: string
+          item_count?: number
+          mrp_total?: number
+          order_number?: never
+          pickup_code: string
+          shop_id: string
+          status?: Database["public"]["Enums"]["order_status"]
+          total?: number
+          updated_at?: string
         }
         Update: {
+          bill_id?: string | null
+          cancelled_at?: string | null
+          collected_at?: string | null
+          created_at?: string
+          customer_id?: string
+          hold_expires_at?: string
+          id?: string
+          item_count?: number
+          mrp_total?: number
+          order_number?: never
+          pickup_code?: string
+          shop_id?: string
+          status?: Database["public"]["Enums"]["order_status"]
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["shop_id"]
+          },
+          {
+            foreignKeyName: "orders_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_images: {
+        Row: {
+          batch_id: string | null
+          created_at: string | null
+          id: string
+          image_url: string
+          product_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          batch_id?: string | null
+          created_at?: string | null
+          id?: string
+          image_url: string
+          product_id: string
+          uploaded_by: string
+        }
+        Update: {
+          batch_id?: string | null
+          created_at?: string | null
+          id?: string
+          image_url?: string
+          product_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          allergens: string[]
+          brand: string | null
+          category: string
+          created_at: string
+          default_mrp: number
+          diet: Database["public"]["Enums"]["diet_type"] | null
+          gtin: string | null
+          id: string
+          name: string
+          net_quantity: number | null
+          net_unit: Database["public"]["Enums"]["pack_unit"] | null
+          search_vector: unknown | null
+        }
+        Insert: {
+          allergens?: string[]
+          brand?: string | null
+          category: string
+          created_at?: string
+          default_mrp: number
+          diet?: Database["public"]["Enums"]["diet_type"] | null
+          gtin?: string | null
+          id?: string
+          name: string
+          net_quantity?: number | null
+          net_unit?: Database["public"]["Enums"]["pack_unit"] | null
+          search_vector?: never
+        }
+        Update: {
+          allergens?: string[]
           brand?: string | null
           category?: string
           created_at?: string
           default_mrp?: number
+          diet?: Database["public"]["Enums"]["diet_type"] | null
           gtin?: string | null
           id?: string
           name?: string
+          net_quantity?: number | null
+          net_unit?: Database["public"]["Enums"]["pack_unit"] | null
+          search_vector?: never
         }
         Relationships: []
       }
@@ -476,6 +925,9 @@ export type Database = {
           product_id: string
           rating: number
           shop_id: string
+          shop_replied_at: string | null
+          shop_reply: string | null
+          updated_at: string
         }
         Insert: {
           comment?: string | null
@@ -485,6 +937,9 @@ export type Database = {
           product_id: string
           rating: number
           shop_id: string
+          shop_replied_at?: string | null
+          shop_reply?: string | null
+          updated_at?: string
         }
         Update: {
           comment?: string | null
@@ -494,6 +949,9 @@ export type Database = {
           product_id?: string
           rating?: number
           shop_id?: string
+          shop_replied_at?: string | null
+          shop_reply?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -522,6 +980,7 @@ export type Database = {
       shops: {
         Row: {
           address: string
+          city: string | null
           created_at: string
           gst_number: string | null
           id: string
@@ -541,6 +1000,7 @@ export type Database = {
         }
         Insert: {
           address: string
+          city?: string | null
           created_at?: string
           gst_number?: string | null
           id?: string
@@ -560,6 +1020,7 @@ export type Database = {
         }
         Update: {
           address?: string
+          city?: string | null
           created_at?: string
           gst_number?: string | null
           id?: string
@@ -608,10 +1069,70 @@ export type Database = {
           },
         ]
       }
+      system_setting_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          id: string
+          new_value: Json
+          old_value: Json | null
+          rolled_back_from: string | null
+          setting_key: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_value: Json
+          old_value?: Json | null
+          rolled_back_from?: string | null
+          setting_key: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_value?: Json
+          old_value?: Json | null
+          rolled_back_from?: string | null
+          setting_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "system_setting_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "system_setting_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "system_setting_history_rolled_back_from_fkey"
+            columns: ["rolled_back_from"]
+            isOneToOne: false
+            referencedRelation: "system_setting_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "system_setting_history_setting_key_fkey"
+            columns: ["setting_key"]
+            isOneToOne: false
+            referencedRelation: "system_settings"
+            referencedColumns: ["setting_key"]
+          },
+        ]
+      }
       system_settings: {
         Row: {
           description: string | null
           id: string
+          is_public: boolean
           setting_key: string
           setting_value: Json
           updated_at: string
@@ -620,6 +1141,7 @@ export type Database = {
         Insert: {
           description?: string | null
           id?: string
+          is_public?: boolean
           setting_key: string
           setting_value: Json
           updated_at?: string
@@ -628,6 +1150,7 @@ export type Database = {
         Update: {
           description?: string | null
           id?: string
+          is_public?: boolean
           setting_key?: string
           setting_value?: Json
           updated_at?: string
@@ -653,8 +1176,11 @@ export type Database = {
       transactions: {
         Row: {
           batch_id: string
+          bill_id: string | null
           customer_id: string | null
+          discount_percent: number | null
           id: string
+          mrp: number | null
           price: number
           product_id: string
           quantity: number
@@ -663,8 +1189,11 @@ export type Database = {
         }
         Insert: {
           batch_id: string
+          bill_id?: string | null
           customer_id?: string | null
+          discount_percent?: number | null
           id?: string
+          mrp?: number | null
           price: number
           product_id: string
           quantity: number
@@ -673,8 +1202,11 @@ export type Database = {
         }
         Update: {
           batch_id?: string
+          bill_id?: string | null
           customer_id?: string | null
+          discount_percent?: number | null
           id?: string
+          mrp?: number | null
           price?: number
           product_id?: string
           quantity?: number
@@ -689,6 +1221,13 @@ export type Database = {
             referencedRelation: "inventory_batches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_product_id_fkey"
             columns: ["product_id"]
@@ -738,19 +1277,34 @@ export type Database = {
           created_at: string
           customer_id: string
           id: string
+          max_distance_km: number | null
+          min_discount_percent: number | null
+          origin_latitude: number | null
+          origin_longitude: number | null
           product_id: string
+          target_price: number | null
         }
         Insert: {
           created_at?: string
           customer_id: string
           id?: string
+          max_distance_km?: number | null
+          min_discount_percent?: number | null
+          origin_latitude?: number | null
+          origin_longitude?: number | null
           product_id: string
+          target_price?: number | null
         }
         Update: {
           created_at?: string
           customer_id?: string
           id?: string
+          max_distance_km?: number | null
+          min_discount_percent?: number | null
+          origin_latitude?: number | null
+          origin_longitude?: number | null
           product_id?: string
+          target_price?: number | null
         }
         Relationships: [
           {
@@ -764,6 +1318,22 @@ export type Database = {
       }
     }
     Views: {
+      product_ratings: {
+        Row: {
+          average_rating: number | null
+          product_id: string | null
+          review_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shop_owners_public: {
         Row: {
           id: string | null
@@ -772,8 +1342,283 @@ export type Database = {
         }
         Relationships: []
       }
+      shop_ratings: {
+        Row: {
+          average_rating: number | null
+          shop_id: string | null
+          review_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shop_owners_public"
+            referencedColumns: ["shop_id"]
+          },
+          {
+            foreignKeyName: "reviews_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      active_banners: {
+        Args: never
+        Returns: {
+          active: boolean
+          created_at: string
+          created_by: string
+          end_date: string | null
+          id: string
+          message: string
+          start_date: string | null
+          target_roles: string[]
+          title: string
+          type: Database["public"]["Enums"]["announcement_type"]
+          updated_at: string
+        }[]
+      }
+      admin_map_shops: {
+        Args: never
+        Returns: {
+          address: string
+          city: string
+          expiring_batches: number
+          expiring_units: number
+          id: string
+          latitude: number
+          longitude: number
+          name: string
+          open_complaints: number
+          owner_name: string
+          owner_phone: string
+          suspended_at: string
+          verification_status: Database["public"]["Enums"]["shop_status"]
+        }[]
+      }
+      allocate_stock: {
+        Args: { _items: Json; _shop_id: string }
+        Returns: {
+          batch_id: string
+          discount_percent: number
+          mrp: number
+          product_id: string
+          quantity: number
+          unit_price: number
+        }[]
+      }
+      analytics_daily: {
+        Args: {
+          _category?: string
+          _city?: string
+          _from: string
+          _time_zone?: string
+          _to: string
+        }
+        Returns: {
+          day: string
+          new_shops: number
+          new_users: number
+          revenue: number
+          transactions: number
+        }[]
+      }
+      analytics_filter_options: {
+        Args: never
+        Returns: {
+          facet: string
+          value: string
+        }[]
+      }
+      analytics_region_users: {
+        Args: { _before: string; _city: string }
+        Returns: {
+          joined_at: string
+          role: string
+          user_id: string
+        }[]
+      }
+      analytics_sales: {
+        Args: {
+          _category?: string
+          _city?: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          customer_id: string
+          product_id: string
+          quantity: number
+          revenue: number
+          shop_id: string
+          sold_at: string
+        }[]
+      }
+      analytics_summary: {
+        Args: {
+          _category?: string
+          _city?: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          admins: number
+          complaints_filed: number
+          complaints_resolved: number
+          customers: number
+          expiring_batches: number
+          expiring_units: number
+          new_shops: number
+          new_users: number
+          open_complaints: number
+          pending_shops: number
+          rejected_shops: number
+          revenue: number
+          shopkeepers: number
+          total_products: number
+          total_shops: number
+          transactions: number
+          units_sold: number
+          verified_shops: number
+        }[]
+      }
+      analytics_top_shops: {
+        Args: {
+          _category?: string
+          _city?: string
+          _from: string
+          _limit?: number
+          _to: string
+        }
+        Returns: {
+          city: string
+          revenue: number
+          shop_id: string
+          shop_name: string
+          transactions: number
+          units_sold: number
+        }[]
+      }
+      assign_complaint: {
+        Args: { _admin_id: string; _complaint_id: string }
+        Returns: {
+          assigned_admin_id: string | null
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          customer_id: string
+          description: string
+          due_at: string
+          escalated_at: string | null
+          evidence_paths: string[]
+          id: string
+          product_id: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          shop_id: string | null
+          status: Database["public"]["Enums"]["complaint_status"]
+          title: string
+          updated_at: string
+        }
+      }
+      cancel_order: {
+        Args: { _order_id: string }
+        Returns: {
+          bill_id: string | null
+          cancelled_at: string | null
+          collected_at: string | null
+          created_at: string
+          customer_id: string
+          hold_expires_at: string
+          id: string
+          item_count: number
+          mrp_total: number
+          order_number: number
+          pickup_code: string
+          shop_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          total: number
+          updated_at: string
+        }
+      }
+      checkout_cart: {
+        Args: { _items: Json; _shop_id: string }
+        Returns: {
+          batch_id: string
+          bill_id: string
+          discount_percent: number
+          line_total: number
+          mrp: number
+          product_id: string
+          quantity: number
+          transaction_id: string
+          unit_price: number
+        }[]
+      }
+      collect_order: {
+        Args: { _pickup_code: string; _shop_id: string }
+        Returns: {
+          bill_id: string | null
+          cancelled_at: string | null
+          collected_at: string | null
+          created_at: string
+          customer_id: string
+          hold_expires_at: string
+          id: string
+          item_count: number
+          mrp_total: number
+          order_number: number
+          pickup_code: string
+          shop_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          total: number
+          updated_at: string
+        }
+      }
+      complaint_participant_role: {
+        Args: { _complaint_id: string }
+        Returns: string
+      }
+      complaint_resolution_days: {
+        Args: never
+        Returns: number
+      }
+      complaint_workload: {
+        Args: never
+        Returns: {
+          admin_id: string
+          admin_name: string
+          avg_resolution_hours: number | null
+          open_count: number
+          overdue_count: number
+          resolved_last_30_days: number
+        }[]
+      }
+      discount_schedule: {
+        Args: { _category: string; _expiry_date: string; _shop_id: string }
+        Returns: {
+          days_to_expiry: number
+          discount_percent: number
+          on_date: string
+        }[]
+      }
+      escalate_overdue_complaints: {
+        Args: never
+        Returns: number
+      }
+      evaluate_discount: {
+        Args: {
+          _as_of?: string
+          _category: string
+          _expiry_date: string
+          _shop_id: string
+        }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -781,6 +1626,530 @@ export type Database = {
         }
         Returns: boolean
       }
+      haversine_km: {
+        Args: {
+          _lat1: number
+          _lat2: number
+          _lng1: number
+          _lng2: number
+        }
+        Returns: number
+      }
+      impact_report: {
+        Args: {
+          _category?: string
+          _city?: string
+          _from: string
+          _group_by?: string
+          _to: string
+        }
+        Returns: {
+          city: string
+          co2e_kg: number
+          customer_savings: number
+          estimated_kg: number
+          food_kg: number
+          group_key: string
+          group_name: string
+          units_rescued: number
+        }[]
+      }
+      impact_rescued_sales: {
+        Args: {
+          _category?: string
+          _city?: string
+          _from: string
+          _to: string
+        }
+        Returns: {
+          city: string
+          co2e_kg: number
+          estimated_kg: number
+          food_kg: number
+          savings: number
+          shop_id: string
+          shop_name: string
+          units: number
+        }[]
+      }
+      is_active: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_maintenance_mode: {
+        Args: never
+        Returns: boolean
+      }
+      is_shop_suspended: {
+        Args: { _shop_id: string }
+        Returns: boolean
+      }
+      match_deals: {
+        Args: {
+          _dietary?: string[]
+          _lat?: number
+          _lng?: number
+          _query?: string
+          _radius_km?: number
+        }
+        Returns: {
+          allergens: string[]
+          batch_id: string
+          brand: string | null
+          category: string
+          diet: Database["public"]["Enums"]["diet_type"] | null
+          discount_percent: number
+          distance_km: number | null
+          expiry_date: string
+          final_price: number
+          mrp: number
+          product_id: string
+          product_name: string
+          product_rating: number | null
+          product_review_count: number
+          quantity: number
+          relevance: number
+          shop_address: string
+          shop_id: string
+          shop_is_open: boolean
+          shop_name: string
+          shop_rating: number | null
+        }[]
+      }
+      nearby_shops: {
+        Args: { _lat?: number; _lng?: number; _radius_km?: number }
+        Returns: {
+          address: string
+          distance_km: number | null
+          id: string
+          is_open: boolean | null
+          latitude: number
+          longitude: number
+          name: string
+        }[]
+      }
+      pack_size_kg: {
+        Args: {
+          _net_quantity: number
+          _net_unit: Database["public"]["Enums"]["pack_unit"]
+        }
+        Returns: number
+      }
+      product_fits_diet: {
+        Args: {
+          _allergens: string[]
+          _diet: Database["public"]["Enums"]["diet_type"]
+          _preferences: string[]
+        }
+        Returns: boolean
+      }
+      reinstate_shop: {
+        Args: { _note?: string; _shop_id: string }
+        Returns: {
+          address: string
+          city: string | null
+          created_at: string
+          gst_number: string | null
+          id: string
+          is_open: boolean | null
+          latitude: number
+          longitude: number
+          name: string
+          owner_id: string
+          rejection_reason: string | null
+          suspended_at: string | null
+          suspended_by: string | null
+          suspension_reason: string | null
+          updated_at: string
+          verification_status: Database["public"]["Enums"]["shop_status"]
+          verified_at: string | null
+          verified_by: string | null
+        }
+      }
+      release_expired_orders: {
+        Args: never
+        Returns: number
+      }
+      release_order_stock: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      reply_to_review: {
+        Args: { _reply: string; _review_id: string }
+        Returns: {
+          comment: string | null
+          created_at: string
+          customer_id: string
+          id: string
+          product_id: string
+          rating: number
+          shop_id: string
+          shop_replied_at: string | null
+          shop_reply: string | null
+          updated_at: string
+        }
+      }
+      report_audit_logs: {
+        Args: { _from: string; _region?: string; _to: string }
+        Returns: {
+          action_type: string
+          admin_name: string
+          details: string
+          logged_at: string
+          target_id: string
+          target_type: string
+        }[]
+      }
+      report_complaints: {
+        Args: { _from: string; _region?: string; _to: string }
+        Returns: {
+          assigned_to: string
+          category: string
+          city: string
+          customer_name: string
+          due_at: string
+          filed_at: string
+          met_target: boolean
+          resolution_hours: number
+          resolved_at: string
+          shop_name: string
+          status: string
+          title: string
+        }[]
+      }
+      report_revenue_by_shop: {
+        Args: { _from: string; _region?: string; _to: string }
+        Returns: {
+          average_discount_percent: number
+          bills: number
+          city: string
+          customer_savings: number
+          mrp_value: number
+          revenue: number
+          shop_name: string
+          units_sold: number
+        }[]
+      }
+      report_shop_verifications: {
+        Args: { _from: string; _region?: string; _to: string }
+        Returns: {
+          address: string
+          city: string
+          gst_number: string
+          owner_name: string
+          owner_phone: string
+          registered_at: string
+          rejection_reason: string
+          shop_name: string
+          status: string
+          suspended_at: string
+          suspension_reason: string
+          verified_at: string
+          verified_by: string
+        }[]
+      }
+      report_user_activity: {
+        Args: { _from: string; _region?: string; _to: string }
+        Returns: {
+          amount_spent: number
+          complaints_filed: number
+          email: string
+          items_bought: number
+          joined_at: string
+          last_login: string
+          name: string
+          orders_placed: number
+          reviews_written: number
+          role: string
+          status: string
+        }[]
+      }
+      report_waste_prevented: {
+        Args: { _from: string; _region?: string; _to: string }
+        Returns: {
+          city: string
+          co2e_avoided_kg: number
+          customer_savings: number
+          expired_value: number
+          food_kg_rescued: number
+          rescue_rate_percent: number
+          rescued_value: number
+          shop_name: string
+          units_expired: number
+          units_rescued: number
+        }[]
+      }
+      reserve_cart: {
+        Args: { _shop_id: string }
+        Returns: {
+          bill_id: string | null
+          cancelled_at: string | null
+          collected_at: string | null
+          created_at: string
+          customer_id: string
+          hold_expires_at: string
+          id: string
+          item_count: number
+          mrp_total: number
+          order_number: number
+          pickup_code: string
+          shop_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          total: number
+          updated_at: string
+        }
+      }
+      reserve_order: {
+        Args: { _items: Json; _shop_id: string }
+        Returns: {
+          bill_id: string | null
+          cancelled_at: string | null
+          collected_at: string | null
+          created_at: string
+          customer_id: string
+          hold_expires_at: string
+          id: string
+          item_count: number
+          mrp_total: number
+          order_number: number
+          pickup_code: string
+          shop_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          total: number
+          updated_at: string
+        }
+      }
+      resolve_discount_tiers: {
+        Args: { _category: string; _shop_id: string }
+        Returns: Json
+      }
+      rollback_setting: {
+        Args: { _history_id: string }
+        Returns: {
+          description: string | null
+          id: string
+          is_public: boolean
+          setting_key: string
+          setting_value: Json
+          updated_at: string
+          updated_by: string | null
+        }
+      }
+      run_expiry_sweep: {
+        Args: never
+        Returns: {
+          discounted_count: number
+          expired_count: number
+        }[]
+      }
+      search_deal_facets: {
+        Args: {
+          _dietary?: string[]
+          _lat?: number
+          _lng?: number
+          _query?: string
+          _radius_km?: number
+        }
+        Returns: {
+          deal_count: number
+          facet: string
+          max_price: number
+          value: string
+        }[]
+      }
+      search_deals: {
+        Args: {
+          _after_id?: string
+          _after_key?: number
+          _brands?: string[]
+          _categories?: string[]
+          _dietary?: string[]
+          _lat?: number
+          _limit?: number
+          _lng?: number
+          _max_days_to_expiry?: number
+          _max_discount?: number
+          _max_price?: number
+          _min_discount?: number
+          _min_price?: number
+          _open_now?: boolean
+          _query?: string
+          _radius_km?: number
+          _sort?: string
+        }
+        Returns: {
+          allergens: string[]
+          batch_id: string
+          brand: string | null
+          category: string
+          diet: Database["public"]["Enums"]["diet_type"] | null
+          discount_percent: number
+          distance_km: number | null
+          expiry_date: string
+          final_price: number
+          mrp: number
+          product_id: string
+          product_name: string
+          product_rating: number | null
+          product_review_count: number
+          quantity: number
+          shop_address: string
+          shop_id: string
+          shop_is_open: boolean
+          shop_name: string
+          shop_rating: number | null
+          sort_key: number
+        }[]
+      }
+      set_complaint_status: {
+        Args: {
+          _complaint_id: string
+          _note?: string
+          _status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Returns: {
+          assigned_admin_id: string | null
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          customer_id: string
+          description: string
+          due_at: string
+          escalated_at: string | null
+          evidence_paths: string[]
+          id: string
+          product_id: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          shop_id: string | null
+          status: Database["public"]["Enums"]["complaint_status"]
+          title: string
+          updated_at: string
+        }
+      }
+      set_product_dietary: {
+        Args: {
+          _allergens: string[]
+          _diet: Database["public"]["Enums"]["diet_type"]
+          _product_id: string
+        }
+        Returns: {
+          allergens: string[]
+          brand: string | null
+          category: string
+          created_at: string
+          default_mrp: number
+          diet: Database["public"]["Enums"]["diet_type"] | null
+          gtin: string | null
+          id: string
+          name: string
+          net_quantity: number | null
+          net_unit: Database["public"]["Enums"]["pack_unit"] | null
+          search_vector: unknown | null
+        }
+      }
+      set_product_pack_size: {
+        Args: {
+          _net_quantity: number
+          _net_unit: Database["public"]["Enums"]["pack_unit"]
+          _product_id: string
+        }
+        Returns: {
+          allergens: string[]
+          brand: string | null
+          category: string
+          created_at: string
+          default_mrp: number
+          diet: Database["public"]["Enums"]["diet_type"] | null
+          gtin: string | null
+          id: string
+          name: string
+          net_quantity: number | null
+          net_unit: Database["public"]["Enums"]["pack_unit"] | null
+          search_vector: unknown | null
+        }
+      }
+      set_user_status: {
+        Args: {
+          _reason?: string
+          _status: Database["public"]["Enums"]["user_status"]
+          _user_id: string
+        }
+        Returns: {
+          created_at: string
+          dietary_preferences: string[] | null
+          email: string | null
+          id: string
+          last_login: string | null
+          name: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          status: Database["public"]["Enums"]["user_status"]
+          updated_at: string
+        }
+      }
+      setting_boolean: {
+        Args: { _default: boolean; _key: string }
+        Returns: boolean
+      }
+      setting_numeric: {
+        Args: { _default: number; _key: string }
+        Returns: number
+      }
+      shop_in_region: {
+        Args: { _address: string; _city: string; _region: string }
+        Returns: boolean
+      }
+      shop_revenue: {
+        Args: { _shop_id: string; _since: string }
+        Returns: number
+      }
+      suspend_shop: {
+        Args: { _reason: string; _shop_id: string }
+        Returns: {
+          address: string
+          city: string | null
+          created_at: string
+          gst_number: string | null
+          id: string
+          is_open: boolean | null
+          latitude: number
+          longitude: number
+          name: string
+          owner_id: string
+          rejection_reason: string | null
+          suspended_at: string | null
+          suspended_by: string | null
+          suspension_reason: string | null
+          updated_at: string
+          verification_status: Database["public"]["Enums"]["shop_status"]
+          verified_at: string | null
+          verified_by: string | null
+        }
+      }
+      valid_discount_tiers: {
+        Args: { _tiers: Json }
+        Returns: boolean
+      }
+      wishlist_target_met: {
+        Args: {
+          _discount_percent: number
+          _final_price: number
+          _shop_lat: number
+          _shop_lng: number
+          _wishlist: Database["public"]["Tables"]["wishlists"]["Row"]
+        }
+        Returns: boolean
+      }
+      within_radius: {
+        Args: {
+          _lat: number
+          _lng: number
+          _radius_km: number
+          _shop_lat: number
+          _shop_lng: number
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       announcement_type: "info" | "warning" | "success" | "error"
@@ -793,6 +2162,9 @@ export type Database = {
         | "poor_service"
         | "other"
       complaint_status: "pending" | "in_progress" | "resolved" | "rejected"
+      diet_type: "veg" | "non_veg" | "vegan" | "jain"
+      order_status: "reserved" | "collected" | "cancelled" | "expired"
+      pack_unit: "g" | "kg" | "ml" | "l"
       shop_status: "pending" | "verified" | "rejected"
       user_role: "customer" | "shopkeeper" | "admin"
       user_status: "active" | "suspended" | "deactivated"
@@ -934,6 +2306,9 @@ export const Constants = {
         "other",
       ],
       complaint_status: ["pending", "in_progress", "resolved", "rejected"],
+      diet_type: ["veg", "non_veg", "vegan", "jain"],
+      order_status: ["reserved", "collected", "cancelled", "expired"],
+      pack_unit: ["g", "kg", "ml", "l"],
       shop_status: ["pending", "verified", "rejected"],
       user_role: ["customer", "shopkeeper", "admin"],
       user_status: ["active", "suspended", "deactivated"],
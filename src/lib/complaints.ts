@@ -0,0 +1,25 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ComplaintCategory = Database["public"]["Enums"]["complaint_category"];
+export type ComplaintStatus = Database["public"]["Enums"]["complaint_status"];
+
+export const COMPLAINT_CATEGORY_LABELS: Record<ComplaintCategory, string> = {
+  fake_discount: "Fake or misleading discount",
+  expired_product: "Expired or spoiled product",
+  wrong_listing: "Wrong listing details",
+  poor_service: "Poor service",
+  other: "Something else",
+};
+
+export const COMPLAINT_STATUS_LABELS: Record<ComplaintStatus, string> = {
+  pending: "Submitted",
+  in_progress: "In progress",
+  resolved: "Resolved",
+  rejected: "Rejected",
+};
+
+export const EVIDENCE_BUCKET = "complaint-evidence";
+
+// Matches complaints_evidence_paths_check
+export const MAX_EVIDENCE_PHOTOS = 5;
+export const MAX_EVIDENCE_BYTES = 5 * 1024 * 1024;
@@ -0,0 +1,52 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type DietType = Database["public"]["Enums"]["diet_type"];
+
+export const DIET_LABELS: Record<DietType, string> = {
+  veg: "Vegetarian",
+  non_veg: "Non-vegetarian",
+  vegan: "Vegan",
+  jain: "Jain",
+};
+
+export const ALLERGEN_LABELS: Record<string, string> = {
+  gluten: "Gluten",
+  nuts: "Tree nuts",
+  peanuts: "Peanuts",
+  lactose: "Lactose",
+  soy: "Soy",
+  egg: "Egg",
+  shellfish: "Shellfish",
+  sesame: "Sesame",
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS);
+
+// Diets a customer can follow; stored alongside allergens to avoid in profiles.dietary_preferences
+export const DIET_PREFERENCES: DietType[] = ["veg", "vegan", "jain"];
+
+export interface DietaryInfo {
+  diet: DietType | null;
+  allergens: string[] | null;
+}
+
+/**
+ * Reasons a product doesn't suit the given preferences. Mirrors product_fits_diet in the database;
+ * an untagged diet is not a conflict, check dietUnknown for that.
+ */
+export const dietaryConflicts = (preferences: string[], product: DietaryInfo) => {
+  const conflicts = (product.allergens ?? [])
+    .filter((allergen) => preferences.includes(allergen))
+    .map((allergen) => `Contains ${ALLERGEN_LABELS[allergen]?.toLowerCase() ?? allergen}`);
+
+  const { diet } = product;
+  if (diet) {
+    if (preferences.includes("vegan") && diet !== "vegan") conflicts.push("Not vegan");
+    else if (preferences.includes("jain") && diet !== "jain") conflicts.push("Not Jain");
+    else if (preferences.includes("veg") && diet === "non_veg") conflicts.push("Non-vegetarian");
+  }
+  return conflicts;
+};
+
+export const dietUnknown = (preferences: string[], product: DietaryInfo) =>
+  preferences.some((p) => DIET_PREFERENCES.includes(p as DietType)) && !product.diet;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// A tier applies once a batch is within `days` of expiry. Declared as a type
+// alias (not an interface) so tier arrays can be stored in JSONB columns.
+export type DiscountTier = {
+  days: number;
+  percent: number;
+};
+
+export const DEFAULT_DISCOUNT_TIERS: DiscountTier[] = [
+  { days: 30, percent: 10 },
+  { days: 15, percent: 20 },
+  { days: 7, percent: 30 },
+];
+
+export const discountTierSchema = z.object({
+  days: z.number().int("Days must be a whole number").min(0, "Days cannot be negative").max(365, "Days too high"),
+  percent: z.number().min(0, "Discount cannot be negative").max(100, "Discount cannot exceed 100%"),
+});
+
+export const discountTiersSchema = z
+  .array(discountTierSchema)
+  .min(1, "Add at least one tier")
+  .refine(
+    (tiers) => new Set(tiers.map((t) => t.days)).size === tiers.length,
+    "Each tier needs a different number of days"
+  );
+
+// Settings rows may hold either the raw array or { value: [...] }
+export const parseDiscountTiers = (value: unknown): DiscountTier[] => {
+  const raw = value && typeof value === "object" && !Array.isArray(value) && "value" in value
+    ? (value as { value: unknown }).value
+    : value;
+  const result = discountTiersSchema.safeParse(raw);
+  return result.success ? sortTiers(result.data as DiscountTier[]) : DEFAULT_DISCOUNT_TIERS;
+};
+
+export const sortTiers = (tiers: DiscountTier[]) => [...tiers].sort((a, b) => b.days - a.days);
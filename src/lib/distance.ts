@@ -0,0 +1,8 @@
+export const RADIUS_OPTIONS_KM = [1, 2, 5, 10, 25, 50];
+
+export const DEFAULT_RADIUS_KM = 10;
+
+export const formatDistance = (km: number | null | undefined) => {
+  if (km === null || km === undefined) return null;
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+};
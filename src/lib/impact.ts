@@ -0,0 +1,27 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type PackUnit = Database["public"]["Enums"]["pack_unit"];
+
+export const PACK_UNIT_LABELS: Record<PackUnit, string> = {
+  g: "g",
+  kg: "kg",
+  ml: "ml",
+  l: "L",
+};
+
+export const PACK_UNITS = Object.keys(PACK_UNIT_LABELS) as PackUnit[];
+
+export interface PackSize {
+  netQuantity: number | null;
+  netUnit: PackUnit | null;
+}
+
+export const formatPackSize = ({ netQuantity, netUnit }: PackSize) =>
+  netQuantity && netUnit ? `${netQuantity} ${PACK_UNIT_LABELS[netUnit]}` : null;
+
+/** Kilograms with a sensible precision: grams for small amounts, tonnes past 10,000 kg. */
+export const formatKg = (kg: number) => {
+  if (kg >= 10000) return `${(kg / 1000).toLocaleString("en-IN", { maximumFractionDigits: 1 })} t`;
+  if (kg < 1 && kg > 0) return `${Math.round(kg * 1000)} g`;
+  return `${kg.toLocaleString("en-IN", { maximumFractionDigits: 1 })} kg`;
+};
@@ -0,0 +1,80 @@
+export type ReceiptLine = {
+  name: string;
+  quantity: number;
+  mrp: number;
+  discountPercent: number;
+  unitPrice: number;
+  expiryDate?: string | null;
+};
+
+export interface ReceiptData {
+  shopName: string;
+  billNumber?: number | null;
+  date: Date;
+  lines: ReceiptLine[];
+  footer?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+export const receiptTotals = (lines: ReceiptLine[]) => {
+  const mrpTotal = lines.reduce((sum, l) => sum + l.mrp * l.quantity, 0);
+  const total = lines.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0);
+  return { mrpTotal, total, savings: mrpTotal - total };
+};
+
+export const renderReceiptHtml = ({ shopName, billNumber, date, lines, footer }: ReceiptData) => {
+  const { mrpTotal, total, savings } = receiptTotals(lines);
+
+  return `
+    <html>
+      <head><title>Receipt${billNumber ? ` #${billNumber}` : ""}</title>
+      <style>
+        body { font-family: monospace; margin: 2rem; }
+        h1, h2 { text-align: center; }
+        table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
+        th, td { border: 1px solid #ccc; padding: 8px; text-align: left; }
+        .muted { color: #666; font-size: 0.85em; }
+        .total { font-weight: bold; }
+      </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(shopName || "Your Shop")}</h1>
+        ${billNumber ? `<h2>Bill #${billNumber}</h2>` : ""}
+        <h2>Date: ${date.toLocaleString()}</h2>
+        <table>
+          <thead>
+            <tr><th>Item</th><th>Qty</th><th>MRP</th><th>Discount</th><th>Price</th><th>Total</th></tr>
+          </thead>
+          <tbody>
+            ${lines.map((line) => `
+              <tr>
+                <td>${escapeHtml(line.name)}${line.expiryDate ? `<div class="muted">Exp: ${new Date(line.expiryDate).toLocaleDateString()}</div>` : ""}</td>
+                <td>${line.quantity}</td>
+                <td>₹${line.mrp.toFixed(2)}</td>
+                <td>${line.discountPercent}%</td>
+                <td>₹${line.unitPrice.toFixed(2)}</td>
+                <td>₹${(line.unitPrice * line.quantity).toFixed(2)}</td>
+              </tr>
+            `).join("")}
+          </tbody>
+        </table>
+        <p>MRP Total: ₹${mrpTotal.toFixed(2)}</p>
+        <p>You Saved: ₹${savings.toFixed(2)}</p>
+        <h2 class="total">Total: ₹${total.toFixed(2)}</h2>
+        <p style="text-align: center; margin-top: 2rem;">${escapeHtml(footer || "Thank you for your purchase!")}</p>
+      </body>
+    </html>
+  `;
+};
+
+// Pass a window opened synchronously from the click handler, otherwise
+// popup blockers will swallow receipts printed after an await.
+export const writeReceipt = (receiptWindow: Window | null, data: ReceiptData) => {
+  const target = receiptWindow || window.open("", "_blank");
+  if (!target) return;
+  target.document.open();
+  target.document.write(renderReceiptHtml(data));
+  target.document.close();
+};
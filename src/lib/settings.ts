@@ -0,0 +1,104 @@
+import { z } from "zod";
+import type { Json } from "@/integrations/supabase/types";
+import { DEFAULT_DISCOUNT_TIERS, discountTiersSchema, sortTiers, type DiscountTier } from "@/lib/discountPolicy";
+
+// Known system_settings keys, each with the schema its value must satisfy and
+// the default used when the row is missing, malformed or not visible to the
+// caller (non-admins can only read rows marked is_public).
+export const SETTINGS = {
+  discount_threshold_days: {
+    label: "Default discount period",
+    schema: z.coerce.number().int("Discount period must be whole days").min(1, "Discount period must be at least 1 day").max(365, "Discount period too long"),
+    default: 30,
+  },
+  min_discount_percent: {
+    label: "Minimum discount",
+    schema: z.coerce.number().min(0, "Minimum discount cannot be negative").max(100, "Minimum discount cannot exceed 100%"),
+    default: 10,
+  },
+  max_discount_percent: {
+    label: "Maximum discount",
+    schema: z.coerce.number().min(0, "Maximum discount cannot be negative").max(100, "Maximum discount cannot exceed 100%"),
+    default: 70,
+  },
+  discount_tiers: {
+    label: "Default discount tiers",
+    schema: discountTiersSchema.transform((tiers) => sortTiers(tiers as DiscountTier[])),
+    default: DEFAULT_DISCOUNT_TIERS,
+  },
+  reservation_hold_minutes: {
+    label: "Reservation hold",
+    schema: z.coerce.number().int("Hold time must be whole minutes").min(15, "Hold time must be at least 15 minutes").max(1440, "Hold time cannot exceed a day"),
+    default: 120,
+  },
+  max_complaint_resolution_days: {
+    label: "Complaint resolution target",
+    schema: z.coerce.number().int("Resolution target must be whole days").min(1, "Resolution target must be at least 1 day").max(90, "Resolution target too long"),
+    default: 7,
+  },
+  auto_approve_shops: {
+    label: "Auto-approve shops",
+    schema: z.boolean(),
+    default: false,
+  },
+  require_gst_for_shops: {
+    label: "Require GST for shops",
+    schema: z.boolean(),
+    default: true,
+  },
+  enable_notifications: {
+    label: "Push notifications",
+    schema: z.boolean(),
+    default: true,
+  },
+  maintenance_mode: {
+    label: "Maintenance mode",
+    schema: z.boolean(),
+    default: false,
+  },
+} satisfies Record<string, { label: string; schema: z.ZodTypeAny; default: unknown }>;
+
+export type SettingKey = keyof typeof SETTINGS;
+export type SettingValue<K extends SettingKey> = z.infer<(typeof SETTINGS)[K]["schema"]>;
+export type SettingValues = { [K in SettingKey]: SettingValue<K> };
+
+export const SETTING_KEYS = Object.keys(SETTINGS) as SettingKey[];
+
+export const SETTING_DEFAULTS = Object.fromEntries(
+  SETTING_KEYS.map((key) => [key, SETTINGS[key].default])
+) as SettingValues;
+
+export const isSettingKey = (key: string): key is SettingKey => key in SETTINGS;
+
+// Values are stored raw; rows written before that was settled may still be { value }
+const unwrap = (raw: unknown) =>
+  raw && typeof raw === "object" && !Array.isArray(raw) && "value" in raw ? (raw as { value: unknown }).value : raw;
+
+export const parseSetting = <K extends SettingKey>(key: K, raw: unknown): SettingValue<K> => {
+  const result = SETTINGS[key].schema.safeParse(unwrap(raw));
+  return (result.success ? result.data : SETTINGS[key].default) as SettingValue<K>;
+};
+
+export const parseSettings = (rows: { setting_key: string; setting_value: unknown }[]): SettingValues => {
+  const byKey = new Map(rows.map((row) => [row.setting_key, row.setting_value]));
+  return Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, parseSetting(key, byKey.get(key))])
+  ) as SettingValues;
+};
+
+// Validate a value and return it in its stored shape. Throws a ZodError when invalid.
+export const serializeSetting = <K extends SettingKey>(key: K, value: SettingValue<K>): Json =>
+  SETTINGS[key].schema.parse(value) as Json;
+
+// Short human-readable form for the change history
+export const formatSettingValue = (key: string, raw: unknown) => {
+  if (raw === null || raw === undefined) return "—";
+  if (!isSettingKey(key)) return JSON.stringify(raw);
+
+  const value: unknown = parseSetting(key, raw);
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (Array.isArray(value)) {
+    return (value as DiscountTier[]).map((tier) => `${tier.percent}% at ${tier.days}d`).join(", ");
+  }
+  return String(value);
+};
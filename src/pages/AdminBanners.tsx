@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
+import { BANNER_AUDIENCES, type Banner } from "@/hooks/use-banners";
+import AdminHeader from "@/components/admin/AdminHeader";
+import BannerEditorDialog from "@/components/admin/BannerEditorDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Pencil, Plus } from "lucide-react";
+import { format } from "date-fns";
+
+const BANNERS_KEY = ["admin-banners"];
+
+type BannerStatus = "live" | "scheduled" | "expired" | "inactive";
+
+const STATUS_BADGES: Record<BannerStatus, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  live: { label: "Live", variant: "default" },
+  scheduled: { label: "Scheduled", variant: "secondary" },
+  expired: { label: "Expired", variant: "outline" },
+  inactive: { label: "Inactive", variant: "outline" },
+};
+
+const bannerStatus = (banner: Banner): BannerStatus => {
+  const now = Date.now();
+  if (!banner.active) return "inactive";
+  if (banner.end_date && new Date(banner.end_date).getTime() < now) return "expired";
+  if (banner.start_date && new Date(banner.start_date).getTime() > now) return "scheduled";
+  return "live";
+};
+
+const fetchBanners = async (ids?: string[]) => {
+  let query = supabase.from("announcement_banners").select("*");
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+  if (error) throw error;
+  return data;
+};
+
+const formatSchedule = (banner: Banner) => {
+  const start = banner.start_date ? format(new Date(banner.start_date), "MMM d, HH:mm") : "Now";
+  const end = banner.end_date ? format(new Date(banner.end_date), "MMM d, HH:mm") : "No end";
+  return `${start} → ${end}`;
+};
+
+const AdminBanners = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Banner | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  const { data: banners = [], isLoading, isError } = useQuery({
+    queryKey: BANNERS_KEY,
+    queryFn: () => fetchBanners(),
+  });
+
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: "Error",
+        description: "Failed to load banners",
+        variant: "destructive",
+      });
+    }
+  }, [isError, toast]);
+
+  useRealtimePatch<Banner[], Banner>({
+    table: "announcement_banners",
+    queryKey: BANNERS_KEY,
+    apply: (rows, changes) =>
+      patchRows(rows, changes, {
+        hydrate: fetchBanners,
+        compare: (a, b) => b.created_at.localeCompare(a.created_at),
+      }),
+  });
+
+  const upsertBanner = (banner: Banner) => {
+    queryClient.setQueryData<Banner[]>(BANNERS_KEY, (rows = []) =>
+      rows.some((b) => b.id === banner.id)
+        ? rows.map((b) => (b.id === banner.id ? banner : b))
+        : [banner, ...rows]
+    );
+    // The admin's own banner strip reflects the change straight away
+    queryClient.invalidateQueries({ queryKey: ["active-banners"] });
+  };
+
+  const toggleActive = async (banner: Banner, active: boolean) => {
+    const { data, error } = await supabase
+      .from("announcement_banners")
+      .update({ active })
+      .eq("id", banner.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: active ? "Banner activated" : "Banner deactivated" });
+    upsertBanner(data);
+  };
+
+  const openEditor = (banner: Banner | null) => {
+    setEditing(banner);
+    setEditorOpen(true);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <AdminHeader title="Announcement Banners" />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Banners</CardTitle>
+            <CardDescription>Shown at the top of the app until they expire or the user dismisses them</CardDescription>
+          </div>
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Banner
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : banners.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No banners yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Audience</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {banners.map((banner) => {
+                  const status = STATUS_BADGES[bannerStatus(banner)];
+                  return (
+                    <TableRow key={banner.id}>
+                      <TableCell>
+                        <div className="font-medium">{banner.title}</div>
+                        <div className="text-sm text-muted-foreground line-clamp-1">{banner.message}</div>
+                      </TableCell>
+                      <TableCell className="capitalize">{banner.type}</TableCell>
+                      <TableCell>
+                        {banner.target_roles.map((role) => BANNER_AUDIENCES[role] ?? role).join(", ")}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{formatSchedule(banner)}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={banner.active}
+                          onCheckedChange={(active) => toggleActive(banner, active)}
+                          aria-label={banner.active ? "Deactivate banner" : "Activate banner"}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => openEditor(banner)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BannerEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        banner={editing}
+        onSaved={upsertBanner}
+      />
+    </div>
+  );
+};
+
+export default AdminBanners;
@@ -1,7 +1,11 @@
 import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { patchRows, useRealtimePatch } from "@/hooks/use-realtime-patch";
 import AdminHeader from "@/components/admin/AdminHeader";
+import EvidencePhotos from "@/components/EvidencePhotos";
+import ComplaintThread from "@/components/ComplaintThread";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
@@ -9,29 +13,72 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { CheckCircle, Clock, XCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, Clock, Loader2, XCircle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { COMPLAINT_CATEGORY_LABELS, COMPLAINT_STATUS_LABELS, ComplaintStatus } from "@/lib/complaints";
+import ComplaintWorkload from "@/components/admin/ComplaintWorkload";
 import { z } from "zod";
 
 interface Complaint {
   id: string;
   title: string;
   description: string;
-  category: string;
-  status: string;
+  category: keyof typeof COMPLAINT_CATEGORY_LABELS;
+  status: ComplaintStatus;
   customer_id: string;
+  assigned_admin_id: string | null;
   shop_id: string | null;
   product_id: string | null;
   resolution_note: string | null;
+  evidence_paths: string[];
   created_at: string;
+  due_at: string;
+  resolved_at: string | null;
   profiles: { name: string; phone: string };
   shops: { name: string } | null;
 }
 
+// Flatten the embedded profile/shop, which PostgREST may return as single-element arrays
+const fetchComplaints = async (ids?: string[]) => {
+  let query = supabase
+    .from("complaints")
+    .select("*, profiles!customer_id(name, phone), shops(name)");
+  if (ids) query = query.in("id", ids);
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+  if (error) throw error;
+
+  return data.map((complaint: any) => ({
+    ...complaint,
+    profiles: Array.isArray(complaint.profiles) ? complaint.profiles[0] : complaint.profiles,
+    shops: Array.isArray(complaint.shops) ? complaint.shops[0] : complaint.shops
+  })) as Complaint[];
+};
+
+const COMPLAINTS_KEY = ["admin-complaints"];
+const WORKLOAD_KEY = ["complaint-workload"];
+
+const isOpen = (complaint: Complaint) => complaint.status === "pending" || complaint.status === "in_progress";
+const isOverdue = (complaint: Complaint) => isOpen(complaint) && new Date(complaint.due_at).getTime() < Date.now();
+
+const TABS = ["overdue", "pending", "in_progress", "resolved", "rejected", "all"] as const;
+type Tab = (typeof TABS)[number];
+
+const TAB_LABELS: Record<Tab, string> = {
+  overdue: "Overdue",
+  pending: "Pending",
+  in_progress: "In Progress",
+  resolved: "Resolved",
+  rejected: "Rejected",
+  all: "All",
+};
+
 const AdminComplaints = () => {
-  const [complaints, setComplaints] = useState<Complaint[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
   const [resolutionNote, setResolutionNote] = useState("");
-  const [selectedComplaint, setSelectedComplaint] = useState<string | null>(null);
+  const [closing, setClosing] = useState<{ id: string; status: "resolved" | "rejected" } | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Validation schema for resolution notes
@@ -39,121 +86,167 @@ const AdminComplaints = () => {
     note: z.string().trim().min(10, "Resolution note must be at least 10 characters").max(2000, "Resolution note too long")
   });
 
-  useEffect(() => {
-    loadComplaints();
-    
-    const channel = supabase
-      .channel("complaints-changes")
-      .on("postgres_changes", { event: "*", schema: "public", table: "complaints" }, () => {
-        loadComplaints();
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  const { data: complaints = [], isLoading: loading, isError } = useQuery({
+    queryKey: COMPLAINTS_KEY,
+    queryFn: () => fetchComplaints(),
+  });
 
-  const loadComplaints = async () => {
-    const { data, error } = await supabase
-      .from("complaints")
-      .select("*, profiles!customer_id(name, phone), shops(name)")
-      .order("created_at", { ascending: false });
+  const { data: workload = [] } = useQuery({
+    queryKey: WORKLOAD_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("complaint_workload");
+      if (error) throw error;
+      return data;
+    },
+  });
+  const adminNames = new Map(workload.map((admin) => [admin.admin_id, admin.admin_name]));
 
-    if (error) {
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Error",
         description: "Failed to load complaints",
         variant: "destructive",
       });
-    } else {
-      // Transform the data to flatten the profiles array
-      const transformedComplaints = data?.map((complaint: any) => ({
-        ...complaint,
-        profiles: Array.isArray(complaint.profiles) ? complaint.profiles[0] : complaint.profiles,
-        shops: Array.isArray(complaint.shops) ? complaint.shops[0] : complaint.shops
-      }));
-      setComplaints(transformedComplaints as Complaint[]);
     }
-    setLoading(false);
+  }, [isError, toast]);
+
+  useRealtimePatch<Complaint[]>({
+    table: "complaints",
+    queryKey: COMPLAINTS_KEY,
+    apply: (rows, changes) => {
+      queryClient.invalidateQueries({ queryKey: WORKLOAD_KEY });
+      return patchRows(rows, changes, {
+        hydrate: fetchComplaints,
+        compare: (a, b) => b.created_at.localeCompare(a.created_at),
+      });
+    },
+  });
+
+  // Status and assignment changes return the updated complaint row
+  const applyUpdate = (updated: Partial<Complaint> & { id: string }) => {
+    queryClient.setQueryData<Complaint[]>(COMPLAINTS_KEY, (rows) =>
+      rows?.map((c) => (c.id === updated.id ? { ...c, ...updated } : c))
+    );
+    queryClient.invalidateQueries({ queryKey: WORKLOAD_KEY });
   };
 
-  const updateComplaintStatus = async (complaintId: string, newStatus: "under_review" | "resolved", note?: string) => {
+  const updateComplaintStatus = async (complaintId: string, newStatus: ComplaintStatus, note?: string) => {
     try {
-      // Validate resolution note if provided
-      if (note) {
+      // Closing a complaint needs a note the customer will see
+      if (newStatus === "resolved" || newStatus === "rejected") {
         resolutionSchema.parse({ note });
       }
 
-      const updateData: any = { status: newStatus };
-      if (note) updateData.resolution_note = note;
-      if (newStatus === "resolved") updateData.resolved_at = new Date().toISOString();
-
-      const { error } = await supabase
-        .from("complaints")
-        .update(updateData)
-        .eq("id", complaintId);
+      setUpdating(complaintId);
+      const { data, error } = await supabase.rpc("set_complaint_status", {
+        _complaint_id: complaintId,
+        _status: newStatus,
+        _note: note,
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: `Complaint ${newStatus === "resolved" ? "resolved" : "updated"} successfully`,
+        description: `Complaint marked as ${COMPLAINT_STATUS_LABELS[newStatus].toLowerCase()}`,
       });
       setResolutionNote("");
-      setSelectedComplaint(null);
-      loadComplaints();
-    } catch (error: any) {
-      const errorMessage = error instanceof z.ZodError 
-        ? error.errors[0].message 
-        : error.message;
-      
+      setClosing(null);
+      applyUpdate(data);
+    } catch (error) {
+      const errorMessage = error instanceof z.ZodError
+        ? error.errors[0].message
+        : (error as Error).message;
+
       toast({
         title: "Validation Error",
         description: errorMessage,
         variant: "destructive",
       });
+    } finally {
+      setUpdating(null);
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    const variants: Record<string, { variant: "default" | "secondary" | "destructive"; icon: any }> = {
+  const assignComplaint = async (complaintId: string, adminId: string | null) => {
+    const { data, error } = await supabase.rpc("assign_complaint", {
+      _complaint_id: complaintId,
+      _admin_id: adminId,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: adminId ? `Assigned to ${adminNames.get(adminId) ?? "admin"}` : "Unassigned" });
+    applyUpdate(data);
+  };
+
+  const getStatusBadge = (status: ComplaintStatus) => {
+    const variants: Record<ComplaintStatus, { variant: "default" | "secondary" | "destructive" | "outline"; icon: typeof Clock }> = {
       pending: { variant: "secondary", icon: Clock },
-      under_review: { variant: "default", icon: Clock },
-      resolved: { variant: "default", icon: CheckCircle },
+      in_progress: { variant: "default", icon: Loader2 },
+      resolved: { variant: "outline", icon: CheckCircle },
+      rejected: { variant: "destructive", icon: XCircle },
     };
-    const { variant, icon: Icon } = variants[status] || variants.pending;
+    const { variant, icon: Icon } = variants[status];
     return (
       <Badge variant={variant} className="flex items-center gap-1 w-fit">
         <Icon className="w-3 h-3" />
-        {status.replace("_", " ")}
+        {COMPLAINT_STATUS_LABELS[status]}
       </Badge>
     );
   };
 
-  const filterComplaints = (status: string) => {
-    if (status === "all") return complaints;
-    return complaints.filter((c) => c.status === status);
+  const getDueLabel = (complaint: Complaint) => {
+    if (!isOpen(complaint)) {
+      return complaint.resolved_at ? `Closed ${format(new Date(complaint.resolved_at), "PP")}` : "—";
+    }
+    const relative = formatDistanceToNow(new Date(complaint.due_at), { addSuffix: true });
+    return isOverdue(complaint) ? (
+      <span className="flex items-center gap-1 font-medium text-destructive">
+        <AlertTriangle className="w-3 h-3" />
+        Overdue, due {relative}
+      </span>
+    ) : (
+      `Due ${relative}`
+    );
   };
 
+  const filterComplaints = (tab: Tab) => {
+    if (tab === "all") return complaints;
+    if (tab === "overdue") return complaints.filter(isOverdue);
+    return complaints.filter((c) => c.status === tab);
+  };
+
+  const closingLabel = closing?.status === "rejected" ? "Reject" : "Resolve";
+
   return (
     <div className="p-6 space-y-6">
       <AdminHeader title="Complaint Management" />
 
+      <ComplaintWorkload workload={workload} />
+
       <Tabs defaultValue="pending" className="w-full">
         <TabsList>
-          <TabsTrigger value="all">All</TabsTrigger>
-          <TabsTrigger value="pending">Pending</TabsTrigger>
-          <TabsTrigger value="under_review">Under Review</TabsTrigger>
-          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          {TABS.map((tab) => (
+            <TabsTrigger key={tab} value={tab}>
+              {TAB_LABELS[tab]}
+              {tab === "overdue" && filterComplaints("overdue").length > 0 && (
+                <Badge variant="destructive" className="ml-2">{filterComplaints("overdue").length}</Badge>
+              )}
+            </TabsTrigger>
+          ))}
         </TabsList>
 
-        {["all", "pending", "under_review", "resolved"].map((tab) => (
+        {TABS.map((tab) => (
           <TabsContent key={tab} value={tab}>
             <Card>
               <CardHeader>
                 <CardTitle>
-                  {tab === "all" ? "All Complaints" : `${tab.replace("_", " ").charAt(0).toUpperCase() + tab.slice(1).replace("_", " ")} Complaints`}
+                  {tab === "all" ? "All Complaints" : `${TAB_LABELS[tab]} Complaints`}
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -161,7 +254,7 @@ const AdminComplaints = () => {
                   <div className="text-center py-8">Loading complaints...</div>
                 ) : filterComplaints(tab).length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">
-                    No {tab === "all" ? "" : tab.replace("_", " ")} complaints found
+                    No {tab === "all" ? "" : TAB_LABELS[tab].toLowerCase()} complaints found
                   </div>
                 ) : (
                   <Table>
@@ -172,14 +265,20 @@ const AdminComplaints = () => {
                         <TableHead>Shop</TableHead>
                         <TableHead>Category</TableHead>
                         <TableHead>Status</TableHead>
-                        <TableHead>Date</TableHead>
+                        <TableHead>Assignee</TableHead>
+                        <TableHead>SLA</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {filterComplaints(tab).map((complaint) => (
-                        <TableRow key={complaint.id}>
-                          <TableCell className="font-medium">{complaint.title}</TableCell>
+                        <TableRow key={complaint.id} className={isOverdue(complaint) ? "bg-destructive/5" : undefined}>
+                          <TableCell className="font-medium">
+                            <div>{complaint.title}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(complaint.created_at).toLocaleDateString()}
+                            </div>
+                          </TableCell>
                           <TableCell>
                             <div>
                               <div>{complaint.profiles.name}</div>
@@ -188,12 +287,34 @@ const AdminComplaints = () => {
                           </TableCell>
                           <TableCell>{complaint.shops?.name || "N/A"}</TableCell>
                           <TableCell>
-                            <Badge variant="outline">{complaint.category}</Badge>
+                            <Badge variant="outline">{COMPLAINT_CATEGORY_LABELS[complaint.category]}</Badge>
                           </TableCell>
                           <TableCell>{getStatusBadge(complaint.status)}</TableCell>
                           <TableCell>
-                            {new Date(complaint.created_at).toLocaleDateString()}
+                            {isOpen(complaint) ? (
+                              <Select
+                                value={complaint.assigned_admin_id ?? "unassigned"}
+                                onValueChange={(v) => assignComplaint(complaint.id, v === "unassigned" ? null : v)}
+                              >
+                                <SelectTrigger className="w-[160px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                                  {workload.map((admin) => (
+                                    <SelectItem key={admin.admin_id} value={admin.admin_id}>
+                                      {admin.admin_name} ({admin.open_count})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">
+                                {complaint.assigned_admin_id ? adminNames.get(complaint.assigned_admin_id) ?? "Admin" : "—"}
+                              </span>
+                            )}
                           </TableCell>
+                          <TableCell className="text-sm">{getDueLabel(complaint)}</TableCell>
                           <TableCell>
                             <div className="flex gap-2">
                               <Dialog>
@@ -202,7 +323,7 @@ const AdminComplaints = () => {
                                     View
                                   </Button>
                                 </DialogTrigger>
-                                <DialogContent>
+                                <DialogContent className="max-h-[85vh] overflow-y-auto">
                                   <DialogHeader>
                                     <DialogTitle>{complaint.title}</DialogTitle>
                                   </DialogHeader>
@@ -211,57 +332,62 @@ const AdminComplaints = () => {
                                       <strong>Description:</strong>
                                       <p className="mt-1">{complaint.description}</p>
                                     </div>
+                                    {complaint.evidence_paths.length > 0 && (
+                                      <div>
+                                        <strong>Evidence:</strong>
+                                        <div className="mt-1">
+                                          <EvidencePhotos paths={complaint.evidence_paths} />
+                                        </div>
+                                      </div>
+                                    )}
                                     {complaint.resolution_note && (
                                       <div>
                                         <strong>Resolution Note:</strong>
                                         <p className="mt-1">{complaint.resolution_note}</p>
                                       </div>
                                     )}
+                                    <div>
+                                      <strong>Conversation:</strong>
+                                      <div className="mt-2">
+                                        <ComplaintThread
+                                          complaintId={complaint.id}
+                                          open={complaint.status !== "resolved" && complaint.status !== "rejected"}
+                                        />
+                                      </div>
+                                    </div>
                                   </div>
                                 </DialogContent>
                               </Dialog>
-                              
-                              {complaint.status !== "resolved" && (
-                                <>
-                                  {complaint.status === "pending" && (
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() => updateComplaintStatus(complaint.id, "under_review")}
-                                    >
-                                      Under Review
-                                    </Button>
-                                  )}
-                                  <Dialog>
-                                    <DialogTrigger asChild>
-                                      <Button
-                                        variant="default"
-                                        size="sm"
-                                        onClick={() => setSelectedComplaint(complaint.id)}
-                                      >
-                                        <CheckCircle className="w-4 h-4 mr-1" />
-                                        Resolve
-                                      </Button>
-                                    </DialogTrigger>
-                                    <DialogContent>
-                                      <DialogHeader>
-                                        <DialogTitle>Resolve Complaint</DialogTitle>
-                                      </DialogHeader>
-                                      <div className="space-y-4">
-                                        <Textarea
-                                          placeholder="Enter resolution notes..."
-                                          value={resolutionNote}
-                                          onChange={(e) => setResolutionNote(e.target.value)}
-                                        />
-                                        <Button
-                                          onClick={() => updateComplaintStatus(complaint.id, "resolved", resolutionNote)}
-                                        >
-                                          Mark as Resolved
-                                        </Button>
-                                      </div>
-                                    </DialogContent>
-                                  </Dialog>
-                                </>
+
+                              {complaint.status === "pending" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={updating === complaint.id}
+                                  onClick={() => updateComplaintStatus(complaint.id, "in_progress")}
+                                >
+                                  Start
+                                </Button>
+                              )}
+                              {complaint.status === "in_progress" && (
+                                <Button
+                                  variant="default"
+                                  size="sm"
+                                  onClick={() => setClosing({ id: complaint.id, status: "resolved" })}
+                                >
+                                  <CheckCircle className="w-4 h-4 mr-1" />
+                                  Resolve
+                                </Button>
+                              )}
+                              {isOpen(complaint) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setClosing({ id: complaint.id, status: "rejected" })}
+                                >
+                                  <XCircle className="w-4 h-4 mr-1" />
+                                  Reject
+                                </Button>
                               )}
                             </div>
                           </TableCell>
@@ -275,6 +401,40 @@ const AdminComplaints = () => {
           </TabsContent>
         ))}
       </Tabs>
+
+      <Dialog
+        open={closing !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setClosing(null);
+            setResolutionNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{closingLabel} Complaint</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Textarea
+              placeholder={
+                closing?.status === "rejected"
+                  ? "Explain to the customer why this complaint is rejected..."
+                  : "Enter resolution notes..."
+              }
+              value={resolutionNote}
+              onChange={(e) => setResolutionNote(e.target.value)}
+            />
+            <Button
+              variant={closing?.status === "rejected" ? "destructive" : "default"}
+              disabled={!closing || updating === closing.id}
+              onClick={() => closing && updateComplaintStatus(closing.id, closing.status, resolutionNote)}
+            >
+              {closing?.status === "rejected" ? "Reject Complaint" : "Mark as Resolved"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
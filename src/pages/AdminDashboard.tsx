@@ -1,70 +1,165 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import AdminHeader from "@/components/admin/AdminHeader";
 import AdminStatsCard from "@/components/admin/AdminStatsCard";
-import { Store, Users, Package, AlertCircle, TrendingUp } from "lucide-react";
+import { Store, Users, Package, AlertCircle, TrendingUp, Loader2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatKg } from "@/lib/impact";
+import { format, parseISO, startOfMonth, subDays } from "date-fns";
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
-interface Analytics {
+interface PeriodStats {
   totalShops: number;
   pendingShops: number;
   verifiedShops: number;
+  rejectedShops: number;
+  newShops: number;
   totalUsers: { customer: number; shopkeeper: number; admin: number };
+  newUsers: number;
   totalProducts: number;
   expiringProducts: number;
+  expiringUnits: number;
   totalTransactions: number;
-  revenueThisMonth: number;
+  unitsSold: number;
+  revenue: number;
+  unitsRescued: number;
   foodSavedKg: number;
+  co2eAvoidedKg: number;
+  customerSavings: number;
+  complaintsFiled: number;
+  complaintsResolved: number;
   pendingComplaints: number;
-  dailyStats: Array<{ date: string; shops: number; users: number }>;
-  topShops: Array<{ shopId: string; name: string; revenue: number; productsSold: number }>;
 }
 
+interface Analytics {
+  range: { from: string; to: string; timeZone: string; city: string | null; category: string | null };
+  previousRange: { from: string; to: string };
+  current: PeriodStats;
+  previous: PeriodStats;
+  dailyStats: Array<{ date: string; shops: number; users: number; transactions: number; revenue: number }>;
+  topShops: Array<{ shopId: string; name: string; city: string | null; revenue: number; productsSold: number; transactions: number }>;
+  filterOptions: { cities: string[]; categories: string[] };
+}
+
+type RangePreset = "7d" | "30d" | "90d" | "month" | "custom";
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "month", label: "This month" },
+  { value: "custom", label: "Custom range" },
+];
+
+const presetRange = (preset: Exclude<RangePreset, "custom">) => {
+  const today = new Date();
+  const from = {
+    "7d": subDays(today, 6),
+    "30d": subDays(today, 29),
+    "90d": subDays(today, 89),
+    month: startOfMonth(today),
+  }[preset];
+  return { from: format(from, "yyyy-MM-dd"), to: format(today, "yyyy-MM-dd") };
+};
+
+// Percentage change against the previous period; nothing to compare when it was zero
+const change = (current: number, previous: number) => {
+  if (previous === 0) return undefined;
+  const value = Math.round(((current - previous) / previous) * 100);
+  return { value, isPositive: value >= 0, label: "vs previous period" };
+};
+
+const formatDay = (date: string) => format(parseISO(date), "d MMM");
+
+type AnalyticsFilters = { from: string; to: string; city: string; category: string };
+
+const fetchAnalytics = async (filters: AnalyticsFilters): Promise<Analytics> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const params = new URLSearchParams({
+    from: filters.from,
+    to: filters.to,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  if (filters.city !== "all") params.set("city", filters.city);
+  if (filters.category !== "all") params.set("category", filters.category);
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-analytics?${params}`,
+    {
+      headers: {
+        Authorization: `Bearer ${session?.access_token}`,
+      },
+    }
+  );
+
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to load analytics");
+  return data;
+};
+
 const AdminDashboard = () => {
-  const [analytics, setAnalytics] = useState<Analytics | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [preset, setPreset] = useState<RangePreset>("30d");
+  const [filters, setFilters] = useState<AnalyticsFilters>({
+    ...presetRange("30d"),
+    city: "all",
+    category: "all",
+  });
+  const { toast } = useToast();
 
-  useEffect(() => {
-    loadAnalytics();
-  }, []);
+  // Keyed on the filters so a slow response for an old range never replaces a newer one
+  const { data: analytics, isLoading: loading, isFetching: refreshing, error } = useQuery({
+    queryKey: ["admin-analytics", filters],
+    queryFn: () => fetchAnalytics(filters),
+    enabled: Boolean(filters.from && filters.to && filters.from <= filters.to),
+    placeholderData: keepPreviousData,
+  });
 
-  const loadAnalytics = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-analytics`,
-        {
-          headers: {
-            Authorization: `Bearer ${session?.access_token}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        setAnalytics(data);
-      }
-    } catch (error) {
+  useEffect(() => {
+    if (error) {
       console.error('Error loading analytics:', error);
-    } finally {
-      setLoading(false);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  }, [error, toast]);
+
+  const handlePresetChange = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== "custom") {
+      setFilters({ ...filters, ...presetRange(value) });
     }
   };
 
-  const shopStatusData = analytics ? [
-    { name: 'Verified', value: analytics.verifiedShops, color: '#10b981' },
-    { name: 'Pending', value: analytics.pendingShops, color: '#f59e0b' },
-    { name: 'Rejected', value: analytics.totalShops - analytics.verifiedShops - analytics.pendingShops, color: '#ef4444' },
+  const current = analytics?.current;
+  const previous = analytics?.previous;
+  const activeUsers = (stats?: PeriodStats) => (stats ? stats.totalUsers.customer + stats.totalUsers.shopkeeper : 0);
+  const periodLabel = analytics
+    ? `${formatDay(analytics.range.from)} – ${formatDay(analytics.range.to)}`
+    : "";
+
+  const shopStatusData = current ? [
+    { name: 'Verified', value: current.verifiedShops, color: '#10b981' },
+    { name: 'Pending', value: current.pendingShops, color: '#f59e0b' },
+    { name: 'Rejected', value: current.rejectedShops, color: '#ef4444' },
   ] : [];
 
-  const userDistribution = analytics ? [
-    { name: 'Customers', value: analytics.totalUsers.customer },
-    { name: 'Shopkeepers', value: analytics.totalUsers.shopkeeper },
-    { name: 'Admins', value: analytics.totalUsers.admin },
+  const userDistribution = current ? [
+    { name: 'Customers', value: current.totalUsers.customer },
+    { name: 'Shopkeepers', value: current.totalUsers.shopkeeper },
+    { name: 'Admins', value: current.totalUsers.admin },
   ] : [];
 
+  const dailyStats = (analytics?.dailyStats || []).map((day) => ({ ...day, label: formatDay(day.date) }));
+
   if (loading) {
     return (
       <div>
@@ -84,28 +179,118 @@ const AdminDashboard = () => {
       <AdminHeader title="Dashboard" />
       
       <div className="p-6 space-y-6">
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Period</Label>
+                <Select value={preset} onValueChange={(value) => handlePresetChange(value as RangePreset)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RANGE_PRESETS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="from">From</Label>
+                <Input
+                  id="from"
+                  type="date"
+                  value={filters.from}
+                  max={filters.to}
+                  onChange={(e) => {
+                    setPreset("custom");
+                    setFilters({ ...filters, from: e.target.value });
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="to">To</Label>
+                <Input
+                  id="to"
+                  type="date"
+                  value={filters.to}
+                  min={filters.from}
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  onChange={(e) => {
+                    setPreset("custom");
+                    setFilters({ ...filters, to: e.target.value });
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>City</Label>
+                <Select value={filters.city} onValueChange={(city) => setFilters({ ...filters, city })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All cities</SelectItem>
+                    {analytics?.filterOptions.cities.map((city) => (
+                      <SelectItem key={city} value={city}>
+                        {city}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={filters.category} onValueChange={(category) => setFilters({ ...filters, category })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All categories</SelectItem>
+                    {analytics?.filterOptions.categories.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground mt-4 flex items-center gap-2">
+              {refreshing && <Loader2 className="w-4 h-4 animate-spin" />}
+              {analytics && (
+                <>
+                  Comparing {periodLabel} with {formatDay(analytics.previousRange.from)} – {formatDay(analytics.previousRange.to)}
+                </>
+              )}
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <AdminStatsCard
             title="Total Shops"
-            value={analytics?.totalShops || 0}
+            value={current?.totalShops || 0}
             icon={Store}
-            trend={{ value: 12, isPositive: true }}
+            trend={current && previous ? change(current.totalShops, previous.totalShops) : undefined}
           />
           <AdminStatsCard
             title="Active Users"
-            value={analytics ? analytics.totalUsers.customer + analytics.totalUsers.shopkeeper : 0}
+            value={activeUsers(current)}
             icon={Users}
-            trend={{ value: 8, isPositive: true }}
+            trend={current && previous ? change(activeUsers(current), activeUsers(previous)) : undefined}
           />
           <AdminStatsCard
             title="Total Products"
-            value={analytics?.totalProducts || 0}
+            value={current?.totalProducts || 0}
             icon={Package}
           />
           <AdminStatsCard
             title="Pending Actions"
-            value={(analytics?.pendingShops || 0) + (analytics?.pendingComplaints || 0)}
+            value={(current?.pendingShops || 0) + (current?.pendingComplaints || 0)}
             icon={AlertCircle}
             className="border-orange-200 dark:border-orange-800"
           />
@@ -117,14 +302,18 @@ const AdminDashboard = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <TrendingUp className="w-5 h-5" />
-                Revenue This Month
+                Revenue
               </CardTitle>
-              <CardDescription>Total revenue from all shops</CardDescription>
+              <CardDescription>Total revenue from all shops, {periodLabel}</CardDescription>
             </CardHeader>
             <CardContent>
               <p className="text-4xl font-bold text-primary">
-                ₹{analytics?.revenueThisMonth.toFixed(2) || 0}
+                ₹{current?.revenue.toFixed(2) || 0}
               </p>
+              <p className="text-sm text-muted-foreground mt-2">
+                {current?.totalTransactions || 0} transactions · {current?.unitsSold || 0} units sold
+              </p>
+              <TrendLine current={current?.revenue} previous={previous?.revenue} />
             </CardContent>
           </Card>
 
@@ -134,32 +323,61 @@ const AdminDashboard = () => {
                 <img src="/clearshelf-logo.png" alt="ClearShelf" className="w-5 h-5 object-contain" />
                 Food Saved from Waste
               </CardTitle>
-              <CardDescription>Environmental impact tracker</CardDescription>
+              <CardDescription>Near-expiry stock sold at a markdown, {periodLabel}</CardDescription>
             </CardHeader>
             <CardContent>
               <p className="text-4xl font-bold text-green-600 dark:text-green-400">
-                {analytics?.foodSavedKg.toFixed(0) || 0} kg
+                {formatKg(current?.foodSavedKg || 0)}
               </p>
               <p className="text-sm text-muted-foreground mt-2">
-                ~{((analytics?.foodSavedKg || 0) * 2.5).toFixed(0)} kg CO₂ saved
+                {formatKg(current?.co2eAvoidedKg || 0)} CO₂e avoided · ₹{(current?.customerSavings || 0).toFixed(2)} saved by customers
               </p>
+              <TrendLine current={current?.foodSavedKg} previous={previous?.foodSavedKg} />
+              <Link to="/admin/reports" className="text-xs text-muted-foreground underline mt-2 inline-block">
+                Breakdown by city and shop, and how it is calculated
+              </Link>
             </CardContent>
           </Card>
         </div>
 
         {/* Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Daily Sales */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Sales Trend</CardTitle>
+              <CardDescription>Daily revenue and transactions, {periodLabel}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={dailyStats}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis yAxisId="revenue" />
+                  <YAxis yAxisId="transactions" orientation="right" allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Line yAxisId="revenue" type="monotone" dataKey="revenue" stroke="#10b981" name="Revenue (₹)" dot={false} />
+                  <Line yAxisId="transactions" type="monotone" dataKey="transactions" stroke="#3b82f6" name="Transactions" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
           {/* Daily Registration Trends */}
           <Card>
             <CardHeader>
-              <CardTitle>Registration Trends (Last 30 Days)</CardTitle>
+              <CardTitle>Registration Trends</CardTitle>
+              <CardDescription>
+                {current?.newShops || 0} new shops and {current?.newUsers || 0} new users, {periodLabel}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={analytics?.dailyStats || []}>
+                <LineChart data={dailyStats}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="date" tick={{ fontSize: 12 }} />
-                  <YAxis />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} />
                   <Tooltip />
                   <Legend />
                   <Line type="monotone" dataKey="shops" stroke="#10b981" name="Shops" />
@@ -219,11 +437,14 @@ const AdminDashboard = () => {
           <Card>
             <CardHeader>
               <CardTitle>Top Performing Shops</CardTitle>
-              <CardDescription>By revenue this month</CardDescription>
+              <CardDescription>By revenue, {periodLabel}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {analytics?.topShops.slice(0, 5).map((shop, index) => (
+                {analytics?.topShops.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No sales in this period</p>
+                )}
+                {analytics?.topShops.map((shop, index) => (
                   <div key={shop.shopId} className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center font-bold text-primary">
@@ -231,7 +452,9 @@ const AdminDashboard = () => {
                       </div>
                       <div>
                         <p className="font-medium">{shop.name}</p>
-                        <p className="text-sm text-muted-foreground">{shop.productsSold} products sold</p>
+                        <p className="text-sm text-muted-foreground">
+                          {shop.productsSold} products sold{shop.city ? ` · ${shop.city}` : ""}
+                        </p>
                       </div>
                     </div>
                     <p className="font-bold text-primary">₹{shop.revenue.toFixed(2)}</p>
@@ -246,4 +469,15 @@ const AdminDashboard = () => {
   );
 };
 
+const TrendLine = ({ current, previous }: { current?: number; previous?: number }) => {
+  const trend = current !== undefined && previous !== undefined ? change(current, previous) : undefined;
+  if (!trend) return null;
+
+  return (
+    <p className={`text-sm mt-1 ${trend.isPositive ? "text-green-600" : "text-red-600"}`}>
+      {trend.isPositive ? "+" : ""}{trend.value}% {trend.label}
+    </p>
+  );
+};
+
 export default AdminDashboard;
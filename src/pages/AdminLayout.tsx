@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import AdminSidebar from "@/components/admin/AdminSidebar";
 import ChatBot from "@/components/ChatBot";
+import AnnouncementBanner from "@/components/AnnouncementBanner";
 
 const AdminLayout = () => {
   const navigate = useNavigate();
@@ -60,6 +61,7 @@ const AdminLayout = () => {
     <div className="flex min-h-screen bg-gradient-to-br from-primary/5 via-background to-muted">
       <AdminSidebar />
       <main className="flex-1">
+        <AnnouncementBanner className="px-6 pt-6" />
         <Outlet />
       </main>
       
@@ -1,128 +1,215 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker, Tooltip } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
+import L from "leaflet";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import AdminHeader from "@/components/admin/AdminHeader";
+import HeatLayer from "@/components/admin/HeatLayer";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Store } from "lucide-react";
-
-interface Shop {
-  id: string;
-  name: string;
-  address: string;
-  latitude: number;
-  longitude: number;
-  verification_status: string;
-  gst_number: string | null;
-  profiles: { name: string; phone: string };
-}
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { MapPin } from "lucide-react";
+
+type MapStatus = "verified" | "pending" | "rejected" | "suspended";
+
+const STATUS_STYLES: Record<MapStatus, { label: string; color: string }> = {
+  verified: { label: "Verified", color: "#10b981" },
+  pending: { label: "Pending verification", color: "#f59e0b" },
+  rejected: { label: "Rejected", color: "#ef4444" },
+  suspended: { label: "Suspended", color: "#6b7280" },
+};
+
+const statusIcon = (color: string) =>
+  L.divIcon({
+    className: "",
+    html: `<span style="display:block;width:18px;height:18px;border-radius:9999px;background:${color};border:2px solid white;box-shadow:0 0 3px rgba(0,0,0,0.5)"></span>`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9],
+    popupAnchor: [0, -9],
+  });
+
+const STATUS_ICONS = Object.fromEntries(
+  Object.entries(STATUS_STYLES).map(([status, { color }]) => [status, statusIcon(color)])
+) as Record<MapStatus, L.DivIcon>;
+
+const LAYERS = {
+  shops: "Verified, rejected & suspended shops",
+  pending: "Pending verifications",
+  complaints: "Open complaint hotspots",
+  expiring: "Expiring stock heatmap",
+} as const;
+
+type LayerKey = keyof typeof LAYERS;
+
+const fetchMapShops = async () => {
+  const { data, error } = await supabase.rpc("admin_map_shops");
+  if (error) throw error;
+  return data.map((shop) => ({
+    ...shop,
+    status: (shop.suspended_at ? "suspended" : shop.verification_status) as MapStatus,
+    position: [Number(shop.latitude), Number(shop.longitude)] as [number, number],
+  }));
+};
+
+type MapShop = Awaited<ReturnType<typeof fetchMapShops>>[number];
 
 const AdminMap = () => {
-  const [shops, setShops] = useState<Shop[]>([]);
-  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const [layers, setLayers] = useState<Record<LayerKey, boolean>>({
+    shops: true,
+    pending: true,
+    complaints: false,
+    expiring: false,
+  });
 
-  useEffect(() => {
-    loadShops();
-  }, []);
+  const { data: shops = [], isLoading, isError } = useQuery({
+    queryKey: ["admin-map-shops"],
+    queryFn: fetchMapShops,
+  });
 
-  const loadShops = async () => {
-    const { data, error } = await supabase
-      .from("shops")
-      .select("*, profiles!owner_id(name, phone)")
-      .order("created_at", { ascending: false });
-
-    if (error) {
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Error",
         description: "Failed to load shops",
         variant: "destructive",
       });
-    } else {
-      // Transform the data to flatten the profiles array
-      const transformedShops = data?.map((shop: any) => ({
-        ...shop,
-        profiles: Array.isArray(shop.profiles) ? shop.profiles[0] : shop.profiles
-      }));
-      setShops(transformedShops as Shop[]);
     }
-    setLoading(false);
-  };
-
-  const getStatusBadge = (status: string) => {
-    const variants: Record<string, "default" | "secondary" | "destructive"> = {
-      verified: "default",
-      pending: "secondary",
-      rejected: "destructive",
-    };
-    return <Badge variant={variants[status] || "secondary"}>{status}</Badge>;
-  };
+  }, [isError, toast]);
+
+  const bounds = useMemo(
+    () => (shops.length > 0 ? L.latLngBounds(shops.map((shop) => shop.position)).pad(0.1) : undefined),
+    [shops]
+  );
+  const hotspots = shops.filter((shop) => shop.open_complaints > 0);
+  const heatPoints = useMemo<L.HeatLatLngTuple[]>(
+    () =>
+      shops
+        .filter((shop) => shop.expiring_units > 0)
+        .map((shop) => [shop.position[0], shop.position[1], shop.expiring_units]),
+    [shops]
+  );
+  const heatOptions = useMemo(
+    () => ({ radius: 35, blur: 25, max: Math.max(1, ...heatPoints.map((point) => point[2])) }),
+    [heatPoints]
+  );
+  const counts = shops.reduce<Record<MapStatus, number>>(
+    (total, shop) => ({ ...total, [shop.status]: total[shop.status] + 1 }),
+    { verified: 0, pending: 0, rejected: 0, suspended: 0 }
+  );
+
+  const renderMarker = (shop: MapShop) => (
+    <Marker key={shop.id} position={shop.position} icon={STATUS_ICONS[shop.status]}>
+      <Popup>
+        <div className="space-y-2 min-w-[200px]">
+          <div>
+            <p className="font-semibold">{shop.name}</p>
+            <p className="text-xs text-muted-foreground">{shop.address}</p>
+          </div>
+          <Badge style={{ backgroundColor: STATUS_STYLES[shop.status].color }} className="text-white">
+            {STATUS_STYLES[shop.status].label}
+          </Badge>
+          <div className="text-xs space-y-1">
+            <p>Owner: {shop.owner_name || "—"} {shop.owner_phone ? `(${shop.owner_phone})` : ""}</p>
+            <p>Open complaints: {shop.open_complaints}</p>
+            <p>Expiring stock: {shop.expiring_units} units in {shop.expiring_batches} batches</p>
+          </div>
+          <Button size="sm" className="w-full" onClick={() => navigate(`/admin/shops/${shop.id}`)}>
+            View shop
+          </Button>
+        </div>
+      </Popup>
+    </Marker>
+  );
 
   return (
     <div className="p-6 space-y-6">
       <AdminHeader title="Shop Map View" />
 
-      <div className="grid gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MapPin className="w-5 h-5" />
-              All Registered Shops
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {loading ? (
-              <div className="text-center py-8">Loading map data...</div>
-            ) : (
-              <div className="space-y-4">
-                {shops.map((shop) => (
-                  <Card key={shop.id}>
-                    <CardContent className="pt-6">
-                      <div className="flex items-start justify-between">
-                        <div className="flex gap-4">
-                          <div className="p-3 bg-primary/10 rounded-lg">
-                            <Store className="w-6 h-6 text-primary" />
-                          </div>
-                          <div className="space-y-2">
-                            <div>
-                              <h3 className="font-semibold text-lg">{shop.name}</h3>
-                              <p className="text-sm text-muted-foreground">{shop.address}</p>
-                            </div>
-                            <div className="flex gap-4 text-sm">
-                              <div>
-                                <span className="text-muted-foreground">Owner:</span>{" "}
-                                {shop.profiles.name}
-                              </div>
-                              <div>
-                                <span className="text-muted-foreground">Contact:</span>{" "}
-                                {shop.profiles.phone}
-                              </div>
-                            </div>
-                            <div className="flex gap-2 text-sm">
-                              <div>
-                                <span className="text-muted-foreground">Location:</span>{" "}
-                                {shop.latitude.toFixed(6)}, {shop.longitude.toFixed(6)}
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                        <div className="text-right space-y-2">
-                          {getStatusBadge(shop.verification_status)}
-                          {shop.gst_number && (
-                            <p className="text-xs text-muted-foreground">
-                              GST: {shop.gst_number}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            All Registered Shops
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-6">
+            {(Object.keys(LAYERS) as LayerKey[]).map((layer) => (
+              <div key={layer} className="flex items-center gap-2">
+                <Switch
+                  id={`layer-${layer}`}
+                  checked={layers[layer]}
+                  onCheckedChange={(checked) => setLayers({ ...layers, [layer]: checked })}
+                />
+                <Label htmlFor={`layer-${layer}`}>{LAYERS[layer]}</Label>
               </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm">
+            {(Object.keys(STATUS_STYLES) as MapStatus[]).map((status) => (
+              <div key={status} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: STATUS_STYLES[status].color }} />
+                {STATUS_STYLES[status].label} ({counts[status]})
+              </div>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8">Loading map data...</div>
+          ) : (
+            <div className="h-[600px] rounded-lg overflow-hidden border">
+              <MapContainer
+                bounds={bounds}
+                center={bounds ? undefined : [28.6139, 77.2090]} // Default: Delhi
+                zoom={bounds ? undefined : 11}
+                style={{ height: "100%", width: "100%" }}
+              >
+                <TileLayer
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                />
+
+                {layers.expiring && heatPoints.length > 0 && <HeatLayer points={heatPoints} options={heatOptions} />}
+
+                {layers.complaints &&
+                  hotspots.map((shop) => (
+                    <CircleMarker
+                      key={shop.id}
+                      center={shop.position}
+                      radius={8 + 4 * Math.sqrt(shop.open_complaints)}
+                      pathOptions={{ color: "#dc2626", fillColor: "#ef4444", fillOpacity: 0.35 }}
+                      eventHandlers={{ click: () => navigate(`/admin/shops/${shop.id}`) }}
+                    >
+                      <Tooltip>
+                        {shop.name}: {shop.open_complaints} open complaint{shop.open_complaints === 1 ? "" : "s"}
+                      </Tooltip>
+                    </CircleMarker>
+                  ))}
+
+                {layers.shops && (
+                  <MarkerClusterGroup chunkedLoading>
+                    {shops.filter((shop) => shop.status !== "pending").map(renderMarker)}
+                  </MarkerClusterGroup>
+                )}
+
+                {layers.pending && (
+                  <MarkerClusterGroup chunkedLoading>
+                    {shops.filter((shop) => shop.status === "pending").map(renderMarker)}
+                  </MarkerClusterGroup>
+                )}
+              </MapContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
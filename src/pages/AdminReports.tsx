@@ -4,23 +4,90 @@ import { useToast } from "@/hooks/use-toast";
 import AdminHeader from "@/components/admin/AdminHeader";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Download, FileText, TrendingUp, Users, Store } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ClipboardList, Download, FileText, Leaf, Loader2, MessageSquareWarning, TrendingUp, Users, Store } from "lucide-react";
 import AdminStatsCard from "@/components/admin/AdminStatsCard";
+import ImpactReport from "@/components/admin/ImpactReport";
+import { useImpactReport } from "@/hooks/use-impact";
+import { formatKg } from "@/lib/impact";
+import { format, subDays } from "date-fns";
+
+type ReportKey =
+  | "shop_verifications"
+  | "user_activity"
+  | "revenue_by_shop"
+  | "waste_prevented"
+  | "complaints"
+  | "audit_logs";
+type ReportFormat = "csv" | "pdf";
+
+const REPORT_CARDS: { key: ReportKey; title: string; description: string; icon: typeof FileText }[] = [
+  {
+    key: "shop_verifications",
+    title: "Shop Verification Report",
+    description: "Registrations, approvals and rejections with owner details",
+    icon: FileText,
+  },
+  {
+    key: "user_activity",
+    title: "User Activity Report",
+    description: "Sign-ups, logins, orders, spend, reviews and complaints per user",
+    icon: Users,
+  },
+  {
+    key: "revenue_by_shop",
+    title: "Transactions & Revenue by Shop",
+    description: "Bills, units sold, revenue and customer savings per shop",
+    icon: TrendingUp,
+  },
+  {
+    key: "waste_prevented",
+    title: "Food Waste Reduction Report",
+    description: "Near-expiry stock sold at a markdown versus stock that expired",
+    icon: Leaf,
+  },
+  {
+    key: "complaints",
+    title: "Complaint Resolution Report",
+    description: "Complaints filed, time to close and resolution targets met",
+    icon: MessageSquareWarning,
+  },
+  {
+    key: "audit_logs",
+    title: "Audit Logs",
+    description: "Every recorded admin action, including report downloads",
+    icon: ClipboardList,
+  },
+];
 
 const AdminReports = () => {
   const [stats, setStats] = useState({
     totalUsers: 0,
     totalShops: 0,
     totalTransactions: 0,
-    foodSavedKg: 0,
   });
   const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({
+    from: format(subDays(new Date(), 30), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
+    region: "",
+  });
+  const [cities, setCities] = useState<string[]>([]);
+  const [generating, setGenerating] = useState<string | null>(null);
   const { toast } = useToast();
+  const { data: allTimeImpact } = useImpactReport({});
 
   useEffect(() => {
     loadStats();
+    loadCities();
   }, []);
 
+  const loadCities = async () => {
+    const { data } = await supabase.from("shops").select("city").not("city", "is", null);
+    setCities([...new Set((data || []).map((shop) => shop.city as string))].sort());
+  };
+
   const loadStats = async () => {
     const { count: usersCount } = await supabase
       .from("profiles")
@@ -38,17 +105,62 @@ const AdminReports = () => {
       totalUsers: usersCount || 0,
       totalShops: shopsCount || 0,
       totalTransactions: transactionsCount || 0,
-      foodSavedKg: (transactionsCount || 0) * 0.5,
     });
     setLoading(false);
   };
 
-  const downloadReport = (reportType: string) => {
-    toast({
-      title: "Report Generation",
-      description: `Generating ${reportType} report...`,
-    });
-    // Report generation logic would go here
+  const downloadReport = async (report: ReportKey, fileType: ReportFormat) => {
+    if (filters.from > filters.to) {
+      toast({
+        title: "Validation Error",
+        description: "The start date must be before the end date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setGenerating(`${report}:${fileType}`);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/admin-reports`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${session?.access_token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          report,
+          format: fileType,
+          from: filters.from,
+          to: filters.to,
+          region: filters.region.trim() || null,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: "Failed to generate report" }));
+        throw new Error(error);
+      }
+
+      // Trigger the browser download from the returned file
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `clearshelf-${report.replace(/_/g, "-")}-${filters.from}-to-${filters.to}.${fileType}`;
+      link.click();
+      // Revoking in the same tick can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(null);
+    }
   };
 
   return (
@@ -72,103 +184,89 @@ const AdminReports = () => {
           icon={TrendingUp}
         />
         <AdminStatsCard
-          title="Food Saved"
-          value={`${stats.foodSavedKg} kg`}
-          icon={FileText}
+          title="Food Saved (all time)"
+          value={formatKg(allTimeImpact?.[0]?.food_kg || 0)}
+          icon={Leaf}
         />
       </div>
 
-      <div className="grid gap-6 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <FileText className="w-5 h-5" />
-              Shop Verification Report
-            </CardTitle>
-            <CardDescription>
-              Download detailed report of shop verifications
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button onClick={() => downloadReport("Shop Verification")} className="w-full">
-              <Download className="w-4 h-4 mr-2" />
-              Download Report
-            </Button>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Users className="w-5 h-5" />
-              User Activity Report
-            </CardTitle>
-            <CardDescription>
-              Download user growth and engagement metrics
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button onClick={() => downloadReport("User Activity")} className="w-full">
-              <Download className="w-4 h-4 mr-2" />
-              Download Report
-            </Button>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="w-5 h-5" />
-              Food Waste Reduction Report
-            </CardTitle>
-            <CardDescription>
-              Track environmental impact and waste reduction
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button onClick={() => downloadReport("Food Waste")} className="w-full">
-              <Download className="w-4 h-4 mr-2" />
-              Download Report
-            </Button>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Store className="w-5 h-5" />
-              Complaint Resolution Report
-            </CardTitle>
-            <CardDescription>
-              Summary of complaints and resolution rates
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button onClick={() => downloadReport("Complaints")} className="w-full">
-              <Download className="w-4 h-4 mr-2" />
-              Download Report
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-
       <Card>
         <CardHeader>
-          <CardTitle>Audit Logs</CardTitle>
-          <CardDescription>
-            Track all administrative actions and system changes
-          </CardDescription>
+          <CardTitle>Report Filters</CardTitle>
+          <CardDescription>Applied to every download below</CardDescription>
         </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground">
-            Audit logs provide a comprehensive record of all admin activities for security and compliance.
-          </p>
-          <Button onClick={() => downloadReport("Audit Logs")} className="mt-4">
-            <Download className="w-4 h-4 mr-2" />
-            Download Audit Logs
-          </Button>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={filters.from}
+              max={filters.to}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={filters.to}
+              min={filters.from}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-region">City</Label>
+            <Input
+              id="report-region"
+              list="report-cities"
+              placeholder="All regions"
+              value={filters.region}
+              onChange={(e) => setFilters({ ...filters, region: e.target.value })}
+            />
+            <datalist id="report-cities">
+              {cities.map((city) => (
+                <option key={city} value={city} />
+              ))}
+            </datalist>
+          </div>
         </CardContent>
       </Card>
+
+      <ImpactReport range={{ from: filters.from, to: filters.to, city: filters.region }} />
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {REPORT_CARDS.map(({ key, title, description, icon: Icon }) => (
+          <Card key={key}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Icon className="w-5 h-5" />
+                {title}
+              </CardTitle>
+              <CardDescription>{description}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              {(["csv", "pdf"] as const).map((fileType) => (
+                <Button
+                  key={fileType}
+                  variant={fileType === "csv" ? "default" : "outline"}
+                  className="flex-1"
+                  onClick={() => downloadReport(key, fileType)}
+                  disabled={generating !== null}
+                >
+                  {generating === `${key}:${fileType}` ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  {fileType === "csv" ? "CSV" : "PDF summary"}
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
     </div>
   );
 };
@@ -1,88 +1,81 @@
 import { useEffect, useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import AdminHeader from "@/components/admin/AdminHeader";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Settings, Bell, Shield, Database } from "lucide-react";
+import DiscountTiersEditor from "@/components/shopkeeper/DiscountTiersEditor";
+import DiscountPolicyDialog from "@/components/shopkeeper/DiscountPolicyDialog";
+import SettingsHistory from "@/components/admin/SettingsHistory";
+import { useSaveSettings, useSettings } from "@/hooks/use-settings";
+import {
+  SETTING_DEFAULTS,
+  SETTING_KEYS,
+  type SettingKey,
+  type SettingValue,
+  type SettingValues,
+} from "@/lib/settings";
+import { z } from "zod";
 
 const AdminSettings = () => {
-  const [loading, setLoading] = useState(false);
   const { toast } = useToast();
-  const [settings, setSettings] = useState({
-    defaultDiscountDays: 30,
-    enableNotifications: true,
-    maintenanceMode: false,
-    bannerMessage: "",
-    bannerActive: false,
-  });
+  const { data: saved, isError } = useSettings();
+  const { mutateAsync: saveSettings, isPending: loading } = useSaveSettings();
+  const [settings, setSettings] = useState<SettingValues>(SETTING_DEFAULTS);
 
-  const handleSave = async () => {
-    setLoading(true);
-    
-    // Save settings to system_settings table
-    const settingsToSave = [
-      { setting_key: "default_discount_days", setting_value: { value: settings.defaultDiscountDays } },
-      { setting_key: "enable_notifications", setting_value: { value: settings.enableNotifications } },
-      { setting_key: "maintenance_mode", setting_value: { value: settings.maintenanceMode } },
-    ];
-
-    for (const setting of settingsToSave) {
-      const { error } = await supabase
-        .from("system_settings")
-        .upsert({
-          setting_key: setting.setting_key,
-          setting_value: setting.setting_value,
-          updated_by: (await supabase.auth.getUser()).data.user?.id,
-        }, { onConflict: "setting_key" });
-
-      if (error) {
-        toast({
-          title: "Error",
-          description: "Failed to save settings",
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-    }
+  // Edit a local copy; refresh it whenever the stored settings change (e.g. after a rollback)
+  useEffect(() => {
+    if (saved) setSettings(saved);
+  }, [saved]);
 
-    toast({
-      title: "Success",
-      description: "Settings saved successfully",
-    });
-    setLoading(false);
-  };
-
-  const handleBannerSave = async () => {
-    const { error } = await supabase
-      .from("announcement_banners")
-      .insert({
-        title: "System Announcement",
-        message: settings.bannerMessage,
-        type: "info",
-        active: settings.bannerActive,
-        target_roles: ["all"],
-        created_by: (await supabase.auth.getUser()).data.user?.id || "",
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: "Error",
+        description: "Failed to load settings",
+        variant: "destructive",
       });
+    }
+  }, [isError, toast]);
 
-    if (error) {
+  const update = <K extends SettingKey>(key: K, value: SettingValue<K>) =>
+    setSettings((current) => ({ ...current, [key]: value }));
+
+  const handleSave = async () => {
+    if (settings.min_discount_percent > settings.max_discount_percent) {
       toast({
-        title: "Error",
-        description: "Failed to create banner",
+        title: "Validation Error",
+        description: "Minimum discount cannot be higher than the maximum",
         variant: "destructive",
       });
-    } else {
+      return;
+    }
+
+    // Only write what changed so the history shows real edits
+    const changed = Object.fromEntries(
+      SETTING_KEYS.filter((key) => JSON.stringify(settings[key]) !== JSON.stringify(saved?.[key])).map((key) => [
+        key,
+        settings[key],
+      ])
+    ) as Partial<SettingValues>;
+
+    try {
+      await saveSettings(changed);
       toast({
         title: "Success",
-        description: "Banner created successfully",
+        description: "Settings saved successfully",
+      });
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : "Failed to save settings",
+        variant: "destructive",
       });
-      setSettings({ ...settings, bannerMessage: "", bannerActive: false });
     }
   };
 
@@ -121,58 +114,93 @@ const AdminSettings = () => {
                 <Label>Default Discount Period (days before expiry)</Label>
                 <Input
                   type="number"
-                  value={settings.defaultDiscountDays}
-                  onChange={(e) =>
-                    setSettings({ ...settings, defaultDiscountDays: parseInt(e.target.value) })
-                  }
+                  value={settings.discount_threshold_days}
+                  onChange={(e) => update("discount_threshold_days", parseInt(e.target.value) || 0)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Minimum Discount (%)</Label>
+                  <Input
+                    type="number"
+                    value={settings.min_discount_percent}
+                    onChange={(e) => update("min_discount_percent", parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Maximum Discount (%)</Label>
+                  <Input
+                    type="number"
+                    value={settings.max_discount_percent}
+                    onChange={(e) => update("max_discount_percent", parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Default Discount Tiers</Label>
+                  <DiscountPolicyDialog shopId={null} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Used for every shop and category without its own rule
+                </p>
+                <DiscountTiersEditor
+                  tiers={settings.discount_tiers}
+                  onChange={(tiers) => update("discount_tiers", tiers)}
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Reservation Hold (minutes)</Label>
+                  <Input
+                    type="number"
+                    value={settings.reservation_hold_minutes}
+                    onChange={(e) => update("reservation_hold_minutes", parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Complaint Resolution Target (days)</Label>
+                  <Input
+                    type="number"
+                    value={settings.max_complaint_resolution_days}
+                    onChange={(e) => update("max_complaint_resolution_days", parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
                   <Label>Maintenance Mode</Label>
                   <p className="text-sm text-muted-foreground">
-                    Enable to restrict access for maintenance
+                    Shows a maintenance page to everyone but admins and blocks checkouts and stock changes
                   </p>
                 </div>
                 <Switch
-                  checked={settings.maintenanceMode}
-                  onCheckedChange={(checked) =>
-                    setSettings({ ...settings, maintenanceMode: checked })
-                  }
+                  checked={settings.maintenance_mode}
+                  onCheckedChange={(checked) => update("maintenance_mode", checked)}
                 />
               </div>
 
-              <Button onClick={handleSave} disabled={loading}>
+              <Button onClick={handleSave} disabled={loading || !saved}>
                 {loading ? "Saving..." : "Save Settings"}
               </Button>
             </CardContent>
           </Card>
 
+          <SettingsHistory />
+
           <Card className="mt-6">
             <CardHeader>
-              <CardTitle>Announcement Banner</CardTitle>
-              <CardDescription>Create system-wide announcements</CardDescription>
+              <CardTitle>Announcement Banners</CardTitle>
+              <CardDescription>Schedule and target system-wide announcements</CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label>Banner Message</Label>
-                <Textarea
-                  placeholder="Enter announcement message..."
-                  value={settings.bannerMessage}
-                  onChange={(e) => setSettings({ ...settings, bannerMessage: e.target.value })}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <Label>Active</Label>
-                <Switch
-                  checked={settings.bannerActive}
-                  onCheckedChange={(checked) =>
-                    setSettings({ ...settings, bannerActive: checked })
-                  }
-                />
-              </div>
-              <Button onClick={handleBannerSave}>Create Banner</Button>
+            <CardContent>
+              <Button variant="outline" asChild>
+                <Link to="/admin/banners">Manage Banners</Link>
+              </Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -192,14 +220,12 @@ const AdminSettings = () => {
                   </p>
                 </div>
                 <Switch
-                  checked={settings.enableNotifications}
-                  onCheckedChange={(checked) =>
-                    setSettings({ ...settings, enableNotifications: checked })
-                  }
+                  checked={settings.enable_notifications}
+                  onCheckedChange={(checked) => update("enable_notifications", checked)}
                 />
               </div>
 
-              <Button onClick={handleSave} disabled={loading}>
+              <Button onClick={handleSave} disabled={loading || !saved}>
                 {loading ? "Saving..." : "Save Settings"}
               </Button>
             </CardContent>
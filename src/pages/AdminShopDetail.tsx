@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, CheckCircle, XCircle, MapPin, Phone, Mail, Calendar } from "lucide-react";
+import { ArrowLeft, CheckCircle, XCircle, MapPin, Phone, Mail, Calendar, Ban, RotateCcw } from "lucide-react";
 
 interface ShopDetail {
   id: string;
@@ -19,6 +19,8 @@ interface ShopDetail {
   latitude: number;
   longitude: number;
   rejection_reason: string | null;
+  suspended_at: string | null;
+  suspension_reason: string | null;
   profiles: {
     name: string;
     email: string;
@@ -33,6 +35,8 @@ const AdminShopDetail = () => {
   const [shop, setShop] = useState<ShopDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [rejectionReason, setRejectionReason] = useState("");
+  const [suspensionReason, setSuspensionReason] = useState("");
+  const [updatingSuspension, setUpdatingSuspension] = useState(false);
 
   useEffect(() => {
     loadShopDetail();
@@ -103,6 +107,42 @@ const AdminShopDetail = () => {
     navigate('/admin/shops');
   };
 
+  const handleSuspension = async (suspend: boolean) => {
+    if (suspend && !suspensionReason.trim()) {
+      toast({
+        title: "Suspension reason required",
+        description: "Please explain why this shop is being suspended",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUpdatingSuspension(true);
+    const { error } = suspend
+      ? await supabase.rpc('suspend_shop', { _shop_id: shopId!, _reason: suspensionReason.trim() })
+      : await supabase.rpc('reinstate_shop', { _shop_id: shopId! });
+    setUpdatingSuspension(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: suspend ? "Shop Suspended" : "Shop Reinstated",
+      description: suspend
+        ? "The shop is hidden from customers and cannot take new orders"
+        : "The shop is visible to customers again",
+    });
+
+    setSuspensionReason("");
+    loadShopDetail();
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'verified':
@@ -161,7 +201,10 @@ const AdminShopDetail = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle className="text-2xl">{shop.name}</CardTitle>
-                {getStatusBadge(shop.verification_status)}
+                <div className="flex gap-2">
+                  {shop.suspended_at && <Badge variant="destructive">Suspended</Badge>}
+                  {getStatusBadge(shop.verification_status)}
+                </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -199,6 +242,15 @@ const AdminShopDetail = () => {
                   <p className="text-sm">{shop.rejection_reason}</p>
                 </div>
               )}
+
+              {shop.suspended_at && (
+                <div className="bg-destructive/10 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-destructive mb-1">
+                    Suspended on {new Date(shop.suspended_at).toLocaleDateString()}
+                  </p>
+                  <p className="text-sm">{shop.suspension_reason}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -270,6 +322,54 @@ const AdminShopDetail = () => {
               </CardContent>
             </Card>
           )}
+
+          {/* A suspended shop can lose its verification later; it must still be reinstatable */}
+          {(shop.verification_status === 'verified' || shop.suspended_at) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Suspension</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {shop.suspended_at ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      This shop is hidden from the customer feed and map and cannot take new orders or sales.
+                      Reinstating it makes its stock visible again and notifies the owner.
+                    </p>
+                    <Button
+                      onClick={() => handleSuspension(false)}
+                      disabled={updatingSuspension}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Reinstate Shop
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">
+                        Suspension Reason (shared with the owner)
+                      </label>
+                      <Textarea
+                        placeholder="Explain why this shop is being suspended..."
+                        value={suspensionReason}
+                        onChange={(e) => setSuspensionReason(e.target.value)}
+                        rows={3}
+                      />
+                    </div>
+                    <Button
+                      variant="destructive"
+                      onClick={() => handleSuspension(true)}
+                      disabled={updatingSuspension}
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Suspend Shop
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -15,6 +15,7 @@ interface Shop {
   address: string;
   gst_number: string | null;
   verification_status: string;
+  suspended_at: string | null;
   created_at: string;
   profiles: {
     name: string;
@@ -203,7 +204,12 @@ const AdminShops = () => {
                         </TableCell>
                         <TableCell className="max-w-xs truncate">{shop.address}</TableCell>
                         <TableCell>{shop.gst_number || "N/A"}</TableCell>
-                        <TableCell>{getStatusBadge(shop.verification_status)}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {getStatusBadge(shop.verification_status)}
+                            {shop.suspended_at && <Badge variant="destructive">Suspended</Badge>}
+                          </div>
+                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
                             <Button
@@ -53,21 +53,20 @@ const AdminUsers = () => {
   };
 
   const updateUserStatus = async (userId: string, newStatus: "active" | "suspended") => {
-    const { error } = await supabase
-      .from("profiles")
-      .update({ status: newStatus })
-      .eq("id", userId);
+    const { error } = await supabase.rpc("set_user_status", { _user_id: userId, _status: newStatus });
 
     if (error) {
       toast({
         title: "Error",
-        description: "Failed to update user status",
+        description: error.message || "Failed to update user status",
         variant: "destructive",
       });
     } else {
       toast({
         title: "Success",
-        description: `User ${newStatus === "active" ? "activated" : "suspended"} successfully`,
+        description: newStatus === "active"
+          ? "User activated successfully"
+          : "User suspended and signed out of all devices",
       });
       loadUsers();
     }
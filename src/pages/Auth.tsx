@@ -87,6 +87,17 @@ const Auth = () => {
 
         const { data: { user } } = await supabase.auth.getUser();
 
+        // Suspended or deactivated accounts can still authenticate, so end the session here
+        const { data: isActive, error: activeError } = await supabase
+          .rpc('is_active', { _user_id: user?.id });
+
+        if (activeError) throw activeError;
+
+        if (!isActive) {
+          await supabase.auth.signOut();
+          throw new Error("This account is suspended or deactivated. Please contact support.");
+        }
+
         if (isAdminLogin) {
           // Check if user has admin role
           const { data: hasAdminRole } = await supabase
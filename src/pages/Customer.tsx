@@ -2,17 +2,23 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { LogOut, MapPin, Heart } from "lucide-react";
+import { LogOut, MapPin, Heart, Receipt, LifeBuoy } from "lucide-react";
 import ProductFeed from "@/components/customer/ProductFeed";
 import StoreMap from "@/components/customer/StoreMap";
 import WishlistPanel from "@/components/customer/WishlistPanel";
+import OrderHistory from "@/components/customer/OrderHistory";
+import ComplaintsPanel from "@/components/customer/ComplaintsPanel";
 import NotificationBell from "@/components/customer/NotificationBell";
+import CartProvider from "@/components/customer/CartProvider";
+import CartSheet from "@/components/customer/CartSheet";
+import DietaryPreferencesDialog from "@/components/customer/DietaryPreferencesDialog";
 import ChatBot from "@/components/ChatBot";
+import AnnouncementBanner from "@/components/AnnouncementBanner";
 
 const Customer = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<any>(null);
-  const [view, setView] = useState<"map" | "feed" | "wishlist">("map");
+  const [view, setView] = useState<"map" | "feed" | "wishlist" | "orders" | "support">("map");
 
   useEffect(() => {
     checkAuth();
@@ -46,64 +52,91 @@ const Customer = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-muted">
-      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
-        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <div className="p-2 bg-primary rounded-lg">
-              <img src="/clearshelf-logo.png" alt="ClearShelf" className="w-5 h-5 object-contain" />
+    <CartProvider>
+      <div className="h-screen flex flex-col bg-gradient-to-br from-primary/5 via-background to-muted">
+        <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+          <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <div className="p-2 bg-primary rounded-lg">
+                <img src="/clearshelf-logo.png" alt="ClearShelf" className="w-5 h-5 object-contain" />
+              </div>
+              <h1 className="text-xl font-bold">Clear Shelf</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <CartSheet />
+              <DietaryPreferencesDialog />
+              <Button
+                variant={view === "map" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView("map")}
+              >
+                <MapPin className="w-4 h-4 mr-2" />
+                Map
+              </Button>
+              <Button
+                variant={view === "feed" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView("feed")}
+              >
+                Products
+              </Button>
+              <Button
+                variant={view === "wishlist" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView("wishlist")}
+              >
+                <Heart className="w-4 h-4 mr-2" />
+                Wishlist
+              </Button>
+              <Button
+                variant={view === "orders" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView("orders")}
+              >
+                <Receipt className="w-4 h-4 mr-2" />
+                Orders
+              </Button>
+              <Button
+                variant={view === "support" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView("support")}
+              >
+                <LifeBuoy className="w-4 h-4 mr-2" />
+                Support
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleLogout}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Logout
+              </Button>
             </div>
-            <h1 className="text-xl font-bold">Clear Shelf</h1>
-          </div>
-          <div className="flex items-center gap-2">
-            <NotificationBell />
-            <Button
-              variant={view === "map" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setView("map")}
-            >
-              <MapPin className="w-4 h-4 mr-2" />
-              Map
-            </Button>
-            <Button
-              variant={view === "feed" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setView("feed")}
-            >
-              Products
-            </Button>
-            <Button
-              variant={view === "wishlist" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setView("wishlist")}
-            >
-              <Heart className="w-4 h-4 mr-2" />
-              Wishlist
-            </Button>
-            <Button variant="outline" size="sm" onClick={handleLogout}>
-              <LogOut className="w-4 h-4 mr-2" />
-              Logout
-            </Button>
           </div>
-        </div>
-      </header>
+          <AnnouncementBanner className="container mx-auto px-4 pb-3" />
+        </header>
 
-      <main className="h-[calc(100vh-73px)]">
-        {view === "map" ? (
-          <StoreMap />
-        ) : view === "feed" ? (
-          <ProductFeed />
-        ) : (
-          <div className="h-full overflow-y-auto">
-            <div className="container mx-auto px-4 py-6">
-              <WishlistPanel />
+        <main className="flex-1 min-h-0">
+          {view === "map" ? (
+            <StoreMap />
+          ) : view === "feed" ? (
+            <ProductFeed />
+          ) : (
+            <div className="h-full overflow-y-auto">
+              <div className="container mx-auto px-4 py-6">
+                {view === "wishlist" ? (
+                  <WishlistPanel />
+                ) : view === "orders" ? (
+                  <OrderHistory />
+                ) : (
+                  <ComplaintsPanel />
+                )}
+              </div>
             </div>
-          </div>
-        )}
-      </main>
+          )}
+        </main>
       
-      <ChatBot userRole="customer" />
-    </div>
+        <ChatBot userRole="customer" />
+      </div>
+    </CartProvider>
   );
 };
 
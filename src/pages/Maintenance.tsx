@@ -0,0 +1,28 @@
+import { Link } from "react-router-dom";
+import { Wrench } from "lucide-react";
+
+const Maintenance = () => {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/5 px-4">
+      <div className="text-center max-w-md">
+        <div className="flex justify-center mb-6">
+          <div className="p-4 bg-primary rounded-2xl shadow-lg">
+            <img src="/clearshelf-logo.png" alt="ClearShelf" className="w-12 h-12 object-contain" />
+          </div>
+        </div>
+        <h1 className="text-3xl font-bold mb-3 flex items-center justify-center gap-2">
+          <Wrench className="w-6 h-6 text-primary" />
+          We'll be right back
+        </h1>
+        <p className="text-muted-foreground mb-6">
+          Clear Shelf is down for scheduled maintenance. We'll be back shortly.
+        </p>
+        <Link to="/auth" className="text-sm text-muted-foreground underline hover:text-foreground">
+          Staff sign in
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Maintenance;
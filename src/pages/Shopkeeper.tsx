@@ -8,11 +8,16 @@ import { LogOut, Package, TrendingUp, AlertCircle } from "lucide-react";
 import AddProductDialog from "@/components/shopkeeper/AddProductDialog";
 import ScanProductDialog from "@/components/shopkeeper/ScanProductDialog";
 import BillingDialog from "@/components/shopkeeper/BillingDialog";
+import DiscountPolicyDialog from "@/components/shopkeeper/DiscountPolicyDialog";
 import InventoryTable from "@/components/shopkeeper/InventoryTable";
+import ReservationsPanel from "@/components/shopkeeper/ReservationsPanel";
+import ReviewsPanel from "@/components/shopkeeper/ReviewsPanel";
+import ComplaintsInbox from "@/components/shopkeeper/ComplaintsInbox";
 import ShopSetup from "@/components/shopkeeper/ShopSetup";
 import ShopVerificationStatus from "@/components/shopkeeper/ShopVerificationStatus";
 import ShopStatusToggle from "@/components/shopkeeper/ShopStatusToggle";
 import ChatBot from "@/components/ChatBot";
+import AnnouncementBanner from "@/components/AnnouncementBanner";
 
 const Shopkeeper = () => {
   const navigate = useNavigate();
@@ -60,11 +65,18 @@ const Shopkeeper = () => {
   };
 
   const loadStats = async (shopId: string) => {
-    const { data: batches } = await supabase
-      .from("inventory_batches")
-      .select("*")
-      .eq("shop_id", shopId)
-      .eq("status", "active");
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const [{ data: batches }, { data: revenue }] = await Promise.all([
+      supabase
+        .from("inventory_batches")
+        .select("*")
+        .eq("shop_id", shopId)
+        .eq("status", "active"),
+      supabase.rpc("shop_revenue", { _shop_id: shopId, _since: monthStart.toISOString() }),
+    ]);
 
     if (batches) {
       const total = batches.reduce((sum, b) => sum + b.quantity, 0);
@@ -73,7 +85,7 @@ const Shopkeeper = () => {
         return daysToExpiry <= 30 && daysToExpiry > 0;
       }).reduce((sum, b) => sum + b.quantity, 0);
 
-      setStats({ total, expiring, revenue: 0 });
+      setStats({ total, expiring, revenue: Number(revenue) || 0 });
     }
   };
 
@@ -107,11 +119,14 @@ const Shopkeeper = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {shop.verification_status !== "verified" && (
+        <AnnouncementBanner className="mb-6" />
+
+        {(shop.verification_status !== "verified" || shop.suspended_at) && (
           <div className="mb-6">
             <ShopVerificationStatus 
-              status={shop.verification_status}
+              status={shop.suspended_at ? "suspended" : shop.verification_status}
               rejectionReason={shop.rejection_reason}
+              suspensionReason={shop.suspension_reason}
               createdAt={shop.created_at}
             />
           </div>
@@ -125,6 +140,18 @@ const Shopkeeper = () => {
           <BillingDialog shopId={shop.id} shopName={shop.name} onInventoryUpdated={() => loadStats(shop.id)} />
         </div>
 
+        <div className="mb-6">
+          <ReservationsPanel shopId={shop.id} onOrderCollected={() => loadStats(shop.id)} />
+        </div>
+
+        <div className="mb-6">
+          <ReviewsPanel shopId={shop.id} />
+        </div>
+
+        <div className="mb-6">
+          <ComplaintsInbox shopId={shop.id} />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <Card className="shadow-sm hover:shadow-md transition-shadow">
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -154,7 +181,7 @@ const Shopkeeper = () => {
               <TrendingUp className="w-4 h-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-primary">₹{stats.revenue}</div>
+              <div className="text-2xl font-bold text-primary">₹{stats.revenue.toFixed(2)}</div>
               <p className="text-xs text-muted-foreground mt-1">This month</p>
             </CardContent>
           </Card>
@@ -168,6 +195,7 @@ const Shopkeeper = () => {
                 <CardDescription>Manage your product batches and pricing</CardDescription>
               </div>
               <div className="flex gap-2">
+                <DiscountPolicyDialog shopId={shop.id} />
                 <ScanProductDialog shopId={shop.id} onProductAdded={() => loadStats(shop.id)} />
                 <AddProductDialog shopId={shop.id} onProductAdded={() => loadStats(shop.id)} />
               </div>
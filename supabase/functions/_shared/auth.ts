@@ -0,0 +1,44 @@
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from './cors.ts';
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+type AuthResult = { user: User; error?: never } | { user?: never; error: Response };
+
+// Resolve the caller from the Authorization header and refuse suspended or deactivated accounts.
+// `client` must use the service role key. Returns the user, or the error response to send.
+export async function requireActiveUser(req: Request, client: SupabaseClient): Promise<AuthResult> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return { error: jsonResponse({ error: 'Unauthorized' }, 401) };
+  }
+
+  const { data: { user }, error: authError } = await client.auth.getUser(token);
+  if (authError || !user) {
+    return { error: jsonResponse({ error: 'Unauthorized' }, 401) };
+  }
+
+  const { data: isActive } = await client.rpc('is_active', { _user_id: user.id });
+  if (!isActive) {
+    return { error: jsonResponse({ error: 'This account is suspended or deactivated. Please contact support.' }, 403) };
+  }
+
+  return { user };
+}
+
+// As requireActiveUser, and the caller must also be an admin.
+export async function requireAdmin(req: Request, client: SupabaseClient): Promise<AuthResult> {
+  const result = await requireActiveUser(req, client);
+  if (result.error) return result;
+
+  const { data: hasAdminRole } = await client.rpc('has_role', { _user_id: result.user.id, _role: 'admin' });
+  if (!hasAdminRole) {
+    return { error: jsonResponse({ error: 'Forbidden' }, 403) };
+  }
+
+  return result;
+}
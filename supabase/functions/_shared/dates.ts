@@ -0,0 +1,23 @@
+import { z } from 'https://esm.sh/zod@3';
+
+// Date ranges arrive as calendar days (YYYY-MM-DD) in the admin's IANA time zone
+export const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+export const timeZoneName = z.string().regex(/^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/, 'Invalid time zone');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+// Inclusive number of calendar days from `from` to `to`
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS) + 1;
+
+export const today = (timeZone: string) => new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+
+// Postgres resolves the zone name, so the bounds follow the admin's local midnight.
+// The end is exclusive: the start of the day after `to`.
+export const rangeBounds = (from: string, to: string, timeZone: string) => ({
+  start: `${from} 00:00 ${timeZone}`,
+  end: `${addDays(to, 1)} 00:00 ${timeZone}`,
+});
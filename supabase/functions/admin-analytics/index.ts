@@ -1,5 +1,125 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://esm.sh/zod@3';
 import { corsHeaders } from '../_shared/cors.ts';
+import { jsonResponse, requireAdmin } from '../_shared/auth.ts';
+import { addDays, daysBetween, isoDate, rangeBounds, timeZoneName, today } from '../_shared/dates.ts';
+
+const MAX_RANGE_DAYS = 366;
+
+// Query parameters; `from` and `to` are inclusive calendar days in the admin's time zone
+const querySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    timeZone: timeZoneName.default('Asia/Kolkata'),
+    city: z.string().trim().max(80).optional(),
+    category: z.string().trim().max(80).optional(),
+  })
+  .transform(({ from, to, timeZone, city, category }) => {
+    const end = to ?? today(timeZone);
+    return {
+      from: from ?? addDays(end, -29),
+      to: end,
+      timeZone,
+      city: city || null,
+      category: category || null,
+    };
+  })
+  .refine((query) => query.to >= query.from, 'The end date must be on or after the start date')
+  .refine((query) => daysBetween(query.from, query.to) <= MAX_RANGE_DAYS, `The range can be at most ${MAX_RANGE_DAYS} days`);
+
+type AnalyticsQuery = z.infer<typeof querySchema>;
+
+interface SummaryRow {
+  total_shops: number;
+  pending_shops: number;
+  verified_shops: number;
+  rejected_shops: number;
+  new_shops: number;
+  customers: number;
+  shopkeepers: number;
+  admins: number;
+  new_users: number;
+  total_products: number;
+  expiring_batches: number;
+  expiring_units: number;
+  transactions: number;
+  units_sold: number;
+  revenue: number;
+  complaints_filed: number;
+  complaints_resolved: number;
+  open_complaints: number;
+}
+
+interface ImpactRow {
+  units_rescued: number;
+  food_kg: number;
+  co2e_kg: number;
+  customer_savings: number;
+}
+
+interface DailyRow {
+  day: string;
+  new_shops: number;
+  new_users: number;
+  transactions: number;
+  revenue: number;
+}
+
+interface TopShopRow {
+  shop_id: string;
+  shop_name: string;
+  city: string | null;
+  transactions: number;
+  units_sold: number;
+  revenue: number;
+}
+
+interface FilterOption {
+  facet: 'city' | 'category';
+  value: string;
+}
+
+async function loadSummary(client: SupabaseClient, query: AnalyticsQuery, from: string, to: string) {
+  const { start, end } = rangeBounds(from, to, query.timeZone);
+  const filters = { _from: start, _to: end, _city: query.city, _category: query.category };
+  const [summary, impact] = await Promise.all([
+    client.rpc('analytics_summary', filters).single(),
+    client.rpc('impact_report', { ...filters, _group_by: 'platform' }).maybeSingle(),
+  ]);
+
+  if (summary.error) throw summary.error;
+  if (impact.error) throw impact.error;
+  const row = summary.data as SummaryRow;
+  const savings = impact.data as ImpactRow | null;
+
+  return {
+    totalShops: Number(row.total_shops),
+    pendingShops: Number(row.pending_shops),
+    verifiedShops: Number(row.verified_shops),
+    rejectedShops: Number(row.rejected_shops),
+    newShops: Number(row.new_shops),
+    totalUsers: {
+      customer: Number(row.customers),
+      shopkeeper: Number(row.shopkeepers),
+      admin: Number(row.admins),
+    },
+    newUsers: Number(row.new_users),
+    totalProducts: Number(row.total_products),
+    expiringProducts: Number(row.expiring_batches),
+    expiringUnits: Number(row.expiring_units),
+    totalTransactions: Number(row.transactions),
+    unitsSold: Number(row.units_sold),
+    revenue: Number(row.revenue),
+    unitsRescued: Number(savings?.units_rescued ?? 0),
+    foodSavedKg: Number(savings?.food_kg ?? 0),
+    co2eAvoidedKg: Number(savings?.co2e_kg ?? 0),
+    customerSavings: Number(savings?.customer_savings ?? 0),
+    complaintsFiled: Number(row.complaints_filed),
+    complaintsResolved: Number(row.complaints_resolved),
+    pendingComplaints: Number(row.open_complaints),
+  };
+}
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -12,156 +132,65 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Verify admin role
-    const authHeader = req.headers.get('Authorization')!;
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+    const { error: authError } = await requireAdmin(req, supabaseClient);
+    if (authError) return authError;
 
-    if (authError || !user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    const params = Object.fromEntries(new URL(req.url).searchParams);
+    const parsed = querySchema.safeParse(params);
+    if (!parsed.success) {
+      return jsonResponse({ error: parsed.error.errors[0].message }, 400);
     }
 
-    // Check if user has admin role
-    const { data: hasAdminRole } = await supabaseClient
-      .rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    const query = parsed.data;
 
-    if (!hasAdminRole) {
-      return new Response(JSON.stringify({ error: 'Forbidden' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    // The previous period has the same length and ends the day before this one starts
+    const length = daysBetween(query.from, query.to);
+    const previousRange = { from: addDays(query.from, -length), to: addDays(query.from, -1) };
+    const { start, end } = rangeBounds(query.from, query.to, query.timeZone);
+    const filters = { _city: query.city, _category: query.category };
 
-    // Get shop statistics
-    const { data: shops } = await supabaseClient
-      .from('shops')
-      .select('verification_status');
-
-    const totalShops = shops?.length || 0;
-    const pendingShops = shops?.filter(s => s.verification_status === 'pending').length || 0;
-    const verifiedShops = shops?.filter(s => s.verification_status === 'verified').length || 0;
-    const rejectedShops = shops?.filter(s => s.verification_status === 'rejected').length || 0;
-
-    // Get user statistics
-    const { data: profiles } = await supabaseClient
-      .from('profiles')
-      .select('role');
-
-    const totalUsers = {
-      customer: profiles?.filter(p => p.role === 'customer').length || 0,
-      shopkeeper: profiles?.filter(p => p.role === 'shopkeeper').length || 0,
-      admin: profiles?.filter(p => p.role === 'admin').length || 0,
-    };
-
-    // Get product statistics
-    const { count: totalProducts } = await supabaseClient
-      .from('products')
-      .select('*', { count: 'exact', head: true });
-
-    const { data: expiringProducts } = await supabaseClient
-      .from('inventory_batches')
-      .select('quantity')
-      .eq('status', 'active')
-      .lte('expiry_date', new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString());
-
-    const expiringProductsCount = expiringProducts?.length || 0;
-
-    // Get transaction statistics
-    const { count: totalTransactions } = await supabaseClient
-      .from('transactions')
-      .select('*', { count: 'exact', head: true });
-
-    const { data: thisMonthTransactions } = await supabaseClient
-      .from('transactions')
-      .select('price, quantity')
-      .gte('timestamp', new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString());
-
-    const revenueThisMonth = thisMonthTransactions?.reduce((sum, t) => sum + (Number(t.price) * t.quantity), 0) || 0;
-
-    // Calculate food saved (estimate: products sold before expiry)
-    const foodSavedKg = (totalTransactions || 0) * 0.5; // Assuming average 0.5kg per product
-
-    // Get complaint statistics
-    const { data: complaints } = await supabaseClient
-      .from('complaints')
-      .select('status');
-
-    const pendingComplaints = complaints?.filter(c => c.status === 'pending').length || 0;
-    const resolvedComplaints = complaints?.filter(c => c.status === 'resolved').length || 0;
-
-    // Get daily stats for last 30 days
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-    const { data: dailyShops } = await supabaseClient
-      .from('shops')
-      .select('created_at')
-      .gte('created_at', thirtyDaysAgo.toISOString());
-
-    const { data: dailyUsers } = await supabaseClient
-      .from('profiles')
-      .select('created_at')
-      .gte('created_at', thirtyDaysAgo.toISOString());
-
-    // Group by date
-    const dailyStats = [];
-    for (let i = 0; i < 30; i++) {
-      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
-      const dateStr = date.toISOString().split('T')[0];
-      
-      const shopsCount = dailyShops?.filter(s => s.created_at.startsWith(dateStr)).length || 0;
-      const usersCount = dailyUsers?.filter(u => u.created_at.startsWith(dateStr)).length || 0;
-      
-      dailyStats.unshift({ date: dateStr, shops: shopsCount, users: usersCount });
-    }
+    const [current, previous, daily, topShops, options] = await Promise.all([
+      loadSummary(supabaseClient, query, query.from, query.to),
+      loadSummary(supabaseClient, query, previousRange.from, previousRange.to),
+      supabaseClient.rpc('analytics_daily', { _from: start, _to: end, ...filters, _time_zone: query.timeZone }),
+      supabaseClient.rpc('analytics_top_shops', { _from: start, _to: end, ...filters, _limit: 5 }),
+      supabaseClient.rpc('analytics_filter_options'),
+    ]);
 
-    // Get top performing shops
-    const { data: topShopsData } = await supabaseClient
-      .from('transactions')
-      .select('shop_id, shops(name), price, quantity')
-      .limit(1000);
-
-    const shopRevenue: Record<string, { name: string; revenue: number; productsSold: number }> = {};
-    topShopsData?.forEach((t: any) => {
-      const shopId = t.shop_id;
-      if (!shopRevenue[shopId]) {
-        shopRevenue[shopId] = { name: t.shops?.name || 'Unknown', revenue: 0, productsSold: 0 };
-      }
-      shopRevenue[shopId].revenue += Number(t.price) * t.quantity;
-      shopRevenue[shopId].productsSold += t.quantity;
-    });
-
-    const topShops = Object.entries(shopRevenue)
-      .map(([shopId, data]) => ({ shopId, ...data }))
-      .sort((a, b) => b.revenue - a.revenue)
-      .slice(0, 5);
+    if (daily.error) throw daily.error;
+    if (topShops.error) throw topShops.error;
+    if (options.error) throw options.error;
 
+    const facets = options.data as FilterOption[];
     const analytics = {
-      totalShops,
-      pendingShops,
-      verifiedShops,
-      rejectedShops,
-      totalUsers,
-      totalProducts: totalProducts || 0,
-      expiringProducts: expiringProductsCount,
-      totalTransactions: totalTransactions || 0,
-      revenueThisMonth,
-      foodSavedKg,
-      pendingComplaints,
-      resolvedComplaints,
-      dailyStats,
-      topShops,
+      range: { from: query.from, to: query.to, timeZone: query.timeZone, city: query.city, category: query.category },
+      previousRange,
+      current,
+      previous,
+      dailyStats: (daily.data as DailyRow[]).map((day) => ({
+        date: day.day,
+        shops: Number(day.new_shops),
+        users: Number(day.new_users),
+        transactions: Number(day.transactions),
+        revenue: Number(day.revenue),
+      })),
+      topShops: (topShops.data as TopShopRow[]).map((shop) => ({
+        shopId: shop.shop_id,
+        name: shop.shop_name,
+        city: shop.city,
+        transactions: Number(shop.transactions),
+        productsSold: Number(shop.units_sold),
+        revenue: Number(shop.revenue),
+      })),
+      filterOptions: {
+        cities: facets.filter((option) => option.facet === 'city').map((option) => option.value),
+        categories: facets.filter((option) => option.facet === 'category').map((option) => option.value),
+      },
     };
 
-    return new Response(JSON.stringify(analytics), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return jsonResponse(analytics);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
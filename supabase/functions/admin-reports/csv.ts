@@ -0,0 +1,22 @@
+import type { Column, ReportRow } from './reports.ts';
+
+// Spreadsheet apps execute cells that start with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Raw values (ISO timestamps, plain numbers) so spreadsheets can sort and sum them.
+// Starts with a BOM so Excel reads names in Indian scripts as UTF-8.
+export const toCsv = (columns: Column[], rows: ReportRow[]) =>
+  '\uFEFF' +
+  [
+    columns.map((column) => escapeCell(column.label)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCell(row[column.key])).join(',')),
+  ].join('\r\n');
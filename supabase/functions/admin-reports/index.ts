@@ -0,0 +1,103 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { z } from 'https://esm.sh/zod@3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { jsonResponse, requireAdmin } from '../_shared/auth.ts';
+import { isoDate, rangeBounds, timeZoneName } from '../_shared/dates.ts';
+import { REPORTS, type ReportKey, type ReportRow } from './reports.ts';
+import { toCsv } from './csv.ts';
+import { renderPdf } from './pdf.ts';
+
+const PAGE_SIZE = 1000;
+
+// `from` and `to` are calendar days, both inclusive, in the admin's time zone
+const requestSchema = z
+  .object({
+    report: z.enum(Object.keys(REPORTS) as [ReportKey, ...ReportKey[]]),
+    format: z.enum(['csv', 'pdf']),
+    from: isoDate,
+    to: isoDate,
+    timeZone: timeZoneName.default('Asia/Kolkata'),
+    region: z.string().trim().max(80).nullish(),
+  })
+  .refine((body) => body.to >= body.from, 'The end date must be on or after the start date');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { user, error: authError } = await requireAdmin(req, supabaseClient);
+    if (authError) return authError;
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return jsonResponse({ error: parsed.error.errors[0].message }, 400);
+    }
+
+    const { report, format, from, to, timeZone } = parsed.data;
+    const region = parsed.data.region || null;
+    const definition = REPORTS[report];
+
+    const { start: rangeStart, end: rangeEnd } = rangeBounds(from, to, timeZone);
+
+    // PostgREST caps each response, so page through the report function
+    const rows: ReportRow[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseClient
+        .rpc(definition.rpc, { _from: rangeStart, _to: rangeEnd, _region: region })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data as ReportRow[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    const reportId = crypto.randomUUID();
+    const filename = `clearshelf-${report.replace(/_/g, '-')}-${from}-to-${to}.${format}`;
+
+    await supabaseClient.from('admin_activity_logs').insert({
+      admin_id: user.id,
+      action_type: 'report_generated',
+      target_type: 'report',
+      target_id: reportId,
+      details: { report, format, from, to, region, rows: rows.length },
+    });
+
+    const headers = {
+      ...corsHeaders,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Access-Control-Expose-Headers': 'Content-Disposition',
+    };
+
+    if (format === 'csv') {
+      return new Response(toCsv(definition.columns, rows), {
+        headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+      });
+    }
+
+    const pdf = await renderPdf({
+      title: definition.title,
+      subtitle: [
+        `Period: ${from} to ${to} (${timeZone})`,
+        `Region: ${region ?? 'All regions'}`,
+      ],
+      summary: definition.summary(rows),
+      columns: definition.columns,
+      rows,
+      footer: `Generated ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC by ${user.email ?? user.id} - Report ${reportId}`,
+    });
+
+    return new Response(pdf, {
+      headers: { ...headers, 'Content-Type': 'application/pdf' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
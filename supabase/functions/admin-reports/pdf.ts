@@ -0,0 +1,119 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'https://esm.sh/pdf-lib@1.17.1';
+import { formatCell, type Column, type ReportRow } from './reports.ts';
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const ROW_HEIGHT = 14;
+const FONT_SIZE = 8;
+
+// The summary is meant for printing; the CSV carries the full dataset
+export const MAX_PDF_ROWS = 500;
+
+interface PdfReport {
+  title: string;
+  subtitle: string[];
+  summary: [string, string][];
+  columns: Column[];
+  rows: ReportRow[];
+  footer: string;
+}
+
+// The standard PDF fonts only cover Latin-1
+const latin1 = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+const fit = (text: string, font: PDFFont, width: number) => {
+  let value = latin1(text);
+  if (font.widthOfTextAtSize(value, FONT_SIZE) <= width) return value;
+
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, FONT_SIZE) > width) {
+    value = value.slice(0, -1);
+  }
+  return `${value}...`;
+};
+
+export async function renderPdf({ title, subtitle, summary, columns, rows, footer }: PdfReport) {
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  doc.setProducer('ClearShelf');
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const muted = rgb(0.4, 0.4, 0.4);
+
+  const tableColumns = columns.filter((column) => column.pdfWidth);
+  const totalWeight = tableColumns.reduce((total, column) => total + (column.pdfWidth ?? 0), 0);
+  const widths = tableColumns.map((column) => ((column.pdfWidth ?? 0) / totalWeight) * (PAGE_WIDTH - 2 * MARGIN));
+  const shown = rows.slice(0, MAX_PDF_ROWS);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const drawFooter = () =>
+    page.drawText(latin1(footer), { x: MARGIN, y: MARGIN / 2, size: 7, font, color: muted });
+
+  const drawHeaderRow = () => {
+    let x = MARGIN;
+    page.drawRectangle({ x: MARGIN, y: y - 4, width: PAGE_WIDTH - 2 * MARGIN, height: ROW_HEIGHT, color: rgb(0.93, 0.95, 0.93) });
+    tableColumns.forEach((column, i) => {
+      page.drawText(fit(column.label, bold, widths[i] - 4), { x: x + 2, y, size: FONT_SIZE, font: bold });
+      x += widths[i];
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    drawFooter();
+  };
+
+  drawFooter();
+
+  page.drawText(latin1(title), { x: MARGIN, y, size: 18, font: bold });
+  y -= 22;
+  for (const line of subtitle) {
+    page.drawText(latin1(line), { x: MARGIN, y, size: 10, font, color: muted });
+    y -= 14;
+  }
+
+  // Summary figures as a row of label / value pairs
+  y -= 10;
+  const boxWidth = (PAGE_WIDTH - 2 * MARGIN) / Math.max(summary.length, 1);
+  summary.forEach(([label, value], i) => {
+    const x = MARGIN + i * boxWidth;
+    page.drawText(latin1(label), { x, y, size: 9, font, color: muted });
+    page.drawText(latin1(value), { x, y: y - 16, size: 14, font: bold });
+  });
+  y -= 44;
+
+  if (shown.length === 0) {
+    page.drawText('No data for the selected filters.', { x: MARGIN, y, size: 10, font });
+  } else {
+    drawHeaderRow();
+    for (const row of shown) {
+      if (y < MARGIN + ROW_HEIGHT) {
+        newPage();
+        drawHeaderRow();
+      }
+      let x = MARGIN;
+      tableColumns.forEach((column, i) => {
+        const text = formatCell(row[column.key], column.format);
+        page.drawText(fit(text, font, widths[i] - 4), { x: x + 2, y, size: FONT_SIZE, font });
+        x += widths[i];
+      });
+      y -= ROW_HEIGHT;
+    }
+  }
+
+  if (rows.length > shown.length) {
+    if (y < MARGIN + ROW_HEIGHT) newPage();
+    page.drawText(
+      `Showing the first ${shown.length} of ${rows.length} rows. Download the CSV for the full dataset.`,
+      { x: MARGIN, y: y - 6, size: 9, font, color: muted }
+    );
+  }
+
+  return doc.save();
+}
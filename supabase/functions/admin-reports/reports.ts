@@ -0,0 +1,187 @@
+export type ColumnFormat = 'text' | 'number' | 'money' | 'percent' | 'datetime' | 'boolean';
+
+export interface Column {
+  key: string;
+  label: string;
+  format?: ColumnFormat;
+  // Relative width in the PDF table; columns without one are left out of the PDF
+  pdfWidth?: number;
+}
+
+export type ReportRow = Record<string, unknown>;
+
+export interface ReportDefinition {
+  title: string;
+  rpc: string;
+  columns: Column[];
+  summary: (rows: ReportRow[]) => [string, string][];
+}
+
+const sum = (rows: ReportRow[], key: string) => rows.reduce((total, row) => total + (Number(row[key]) || 0), 0);
+const count = (rows: ReportRow[], key: string, value: unknown) => rows.filter((row) => row[key] === value).length;
+
+export const formatMoney = (value: number) =>
+  `Rs. ${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatCell = (value: unknown, format: ColumnFormat = 'text') => {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (format) {
+    case 'money':
+      return formatMoney(Number(value));
+    case 'percent':
+      return `${Number(value)}%`;
+    case 'number':
+      return Number(value).toLocaleString('en-IN');
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'datetime':
+      return new Date(String(value)).toISOString().slice(0, 16).replace('T', ' ');
+    default:
+      return String(value);
+  }
+};
+
+export const REPORTS = {
+  shop_verifications: {
+    title: 'Shop Verification Report',
+    rpc: 'report_shop_verifications',
+    columns: [
+      { key: 'shop_name', label: 'Shop', pdfWidth: 3 },
+      { key: 'city', label: 'City', pdfWidth: 2 },
+      { key: 'address', label: 'Address' },
+      { key: 'owner_name', label: 'Owner', pdfWidth: 2 },
+      { key: 'owner_phone', label: 'Owner phone' },
+      { key: 'gst_number', label: 'GST number', pdfWidth: 2 },
+      { key: 'status', label: 'Status', pdfWidth: 1.5 },
+      { key: 'registered_at', label: 'Registered', format: 'datetime', pdfWidth: 2 },
+      { key: 'verified_at', label: 'Verified', format: 'datetime', pdfWidth: 2 },
+      { key: 'verified_by', label: 'Verified by', pdfWidth: 2 },
+      { key: 'rejection_reason', label: 'Rejection reason' },
+      { key: 'suspended_at', label: 'Suspended', format: 'datetime' },
+      { key: 'suspension_reason', label: 'Suspension reason' },
+    ],
+    summary: (rows) => [
+      ['Shops', String(rows.length)],
+      ['Verified', String(count(rows, 'status', 'verified'))],
+      ['Pending', String(count(rows, 'status', 'pending'))],
+      ['Rejected', String(count(rows, 'status', 'rejected'))],
+    ],
+  },
+  user_activity: {
+    title: 'User Activity Report',
+    rpc: 'report_user_activity',
+    columns: [
+      { key: 'name', label: 'Name', pdfWidth: 3 },
+      { key: 'email', label: 'Email' },
+      { key: 'role', label: 'Role', pdfWidth: 1.5 },
+      { key: 'status', label: 'Status', pdfWidth: 1.5 },
+      { key: 'joined_at', label: 'Joined', format: 'datetime', pdfWidth: 2 },
+      { key: 'last_login', label: 'Last login', format: 'datetime', pdfWidth: 2 },
+      { key: 'orders_placed', label: 'Orders', format: 'number', pdfWidth: 1 },
+      { key: 'items_bought', label: 'Items bought', format: 'number', pdfWidth: 1.2 },
+      { key: 'amount_spent', label: 'Spent', format: 'money', pdfWidth: 1.8 },
+      { key: 'reviews_written', label: 'Reviews', format: 'number', pdfWidth: 1 },
+      { key: 'complaints_filed', label: 'Complaints', format: 'number', pdfWidth: 1.2 },
+    ],
+    summary: (rows) => [
+      ['Users', String(rows.length)],
+      ['Active buyers', String(rows.filter((row) => Number(row.items_bought) > 0).length)],
+      ['Orders placed', String(sum(rows, 'orders_placed'))],
+      ['Total spent', formatMoney(sum(rows, 'amount_spent'))],
+    ],
+  },
+  revenue_by_shop: {
+    title: 'Transactions & Revenue by Shop',
+    rpc: 'report_revenue_by_shop',
+    columns: [
+      { key: 'shop_name', label: 'Shop', pdfWidth: 3 },
+      { key: 'city', label: 'City', pdfWidth: 2 },
+      { key: 'bills', label: 'Bills', format: 'number', pdfWidth: 1 },
+      { key: 'units_sold', label: 'Units sold', format: 'number', pdfWidth: 1.2 },
+      { key: 'revenue', label: 'Revenue', format: 'money', pdfWidth: 2 },
+      { key: 'mrp_value', label: 'MRP value', format: 'money', pdfWidth: 2 },
+      { key: 'customer_savings', label: 'Customer savings', format: 'money', pdfWidth: 2 },
+      { key: 'average_discount_percent', label: 'Avg. discount', format: 'percent', pdfWidth: 1.2 },
+    ],
+    summary: (rows) => [
+      ['Shops with sales', String(rows.length)],
+      ['Units sold', sum(rows, 'units_sold').toLocaleString('en-IN')],
+      ['Revenue', formatMoney(sum(rows, 'revenue'))],
+      ['Customer savings', formatMoney(sum(rows, 'customer_savings'))],
+    ],
+  },
+  waste_prevented: {
+    title: 'Food Waste Reduction Report',
+    rpc: 'report_waste_prevented',
+    columns: [
+      { key: 'shop_name', label: 'Shop', pdfWidth: 3 },
+      { key: 'city', label: 'City', pdfWidth: 2 },
+      { key: 'units_rescued', label: 'Units rescued', format: 'number', pdfWidth: 1.3 },
+      { key: 'rescued_value', label: 'Rescued value', format: 'money', pdfWidth: 2 },
+      { key: 'customer_savings', label: 'Customer savings', format: 'money', pdfWidth: 2 },
+      { key: 'food_kg_rescued', label: 'Food diverted (kg)', format: 'number', pdfWidth: 1.5 },
+      { key: 'co2e_avoided_kg', label: 'CO2e avoided (kg)', format: 'number', pdfWidth: 1.5 },
+      { key: 'units_expired', label: 'Units expired', format: 'number', pdfWidth: 1.3 },
+      { key: 'expired_value', label: 'Expired value', format: 'money', pdfWidth: 2 },
+      { key: 'rescue_rate_percent', label: 'Rescue rate', format: 'percent', pdfWidth: 1.2 },
+    ],
+    summary: (rows) => {
+      const rescued = sum(rows, 'units_rescued');
+      const expired = sum(rows, 'units_expired');
+      return [
+        ['Units rescued', rescued.toLocaleString('en-IN')],
+        ['Units expired', expired.toLocaleString('en-IN')],
+        ['Rescue rate', rescued + expired > 0 ? `${((100 * rescued) / (rescued + expired)).toFixed(1)}%` : '-'],
+        ['Food diverted', `${sum(rows, 'food_kg_rescued').toLocaleString('en-IN', { maximumFractionDigits: 1 })} kg`],
+        ['CO2e avoided', `${sum(rows, 'co2e_avoided_kg').toLocaleString('en-IN', { maximumFractionDigits: 1 })} kg`],
+        ['Customer savings', formatMoney(sum(rows, 'customer_savings'))],
+      ];
+    },
+  },
+  complaints: {
+    title: 'Complaint Resolution Report',
+    rpc: 'report_complaints',
+    columns: [
+      { key: 'filed_at', label: 'Filed', format: 'datetime', pdfWidth: 2 },
+      { key: 'title', label: 'Title', pdfWidth: 3 },
+      { key: 'category', label: 'Category', pdfWidth: 1.6 },
+      { key: 'status', label: 'Status', pdfWidth: 1.4 },
+      { key: 'shop_name', label: 'Shop', pdfWidth: 2 },
+      { key: 'city', label: 'City' },
+      { key: 'customer_name', label: 'Customer' },
+      { key: 'assigned_to', label: 'Assigned to', pdfWidth: 1.8 },
+      { key: 'due_at', label: 'Due', format: 'datetime' },
+      { key: 'resolved_at', label: 'Closed', format: 'datetime', pdfWidth: 2 },
+      { key: 'resolution_hours', label: 'Hours to close', format: 'number', pdfWidth: 1.2 },
+      { key: 'met_target', label: 'Within target', format: 'boolean', pdfWidth: 1.2 },
+    ],
+    summary: (rows) => {
+      const closed = rows.filter((row) => row.resolved_at);
+      return [
+        ['Complaints', String(rows.length)],
+        ['Closed', String(closed.length)],
+        ['Within target', closed.length > 0 ? `${Math.round((100 * count(closed, 'met_target', true)) / closed.length)}%` : '-'],
+        ['Avg. hours to close', closed.length > 0 ? (sum(closed, 'resolution_hours') / closed.length).toFixed(1) : '-'],
+      ];
+    },
+  },
+  audit_logs: {
+    title: 'Admin Audit Log',
+    rpc: 'report_audit_logs',
+    columns: [
+      { key: 'logged_at', label: 'When', format: 'datetime', pdfWidth: 2 },
+      { key: 'admin_name', label: 'Admin', pdfWidth: 2 },
+      { key: 'action_type', label: 'Action', pdfWidth: 2 },
+      { key: 'target_type', label: 'Target type', pdfWidth: 1.5 },
+      { key: 'target_id', label: 'Target ID', pdfWidth: 3 },
+      { key: 'details', label: 'Details' },
+    ],
+    summary: (rows) => [
+      ['Actions', String(rows.length)],
+      ['Admins', String(new Set(rows.map((row) => row.admin_name)).size)],
+    ],
+  },
+} satisfies Record<string, ReportDefinition>;
+
+export type ReportKey = keyof typeof REPORTS;
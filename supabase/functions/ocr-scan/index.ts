@@ -1,16 +1,30 @@
 import "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requireActiveUser } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const DIETS = ['veg', 'non_veg', 'vegan', 'jain'];
+const ALLERGENS = ['gluten', 'nuts', 'peanuts', 'lactose', 'soy', 'egg', 'shellfish', 'sesame'];
+const PACK_UNITS = ['g', 'kg', 'ml', 'l'];
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { error: authError } = await requireActiveUser(req, supabaseClient);
+    if (authError) return authError;
+
     const { imageBase64 } = await req.json();
     
     if (!imageBase64) {
@@ -43,7 +57,10 @@ Extract the following information from product packaging images:
 - Batch code
 - MRP/price
 - Quantity
+- Net weight or volume of one pack ("Net Wt.", "Net Qty", "Net Vol."), as a number and a unit of g, kg, ml or l
 - Manufacturing date (if visible)
+- Veg/non-veg mark: the green dot-in-square means vegetarian, the brown or red dot/triangle means non-vegetarian. Use "vegan" or "jain" only if the pack is explicitly labelled so.
+- Allergens from the allergen statement ("Contains: ...", "May contain ..."), mapped to: gluten (wheat, barley, rye, oats), nuts (tree nuts), peanuts, lactose (milk, dairy), soy, egg, shellfish (crustaceans, molluscs), sesame
 
 Return the data as a valid JSON object with these exact keys:
 {
@@ -54,7 +71,11 @@ Return the data as a valid JSON object with these exact keys:
   "batchCode": "string or null",
   "mrp": "number or null",
   "quantity": "number or null",
+  "netQuantity": "number or null",
+  "netUnit": "g" | "kg" | "ml" | "l" | null,
   "manufacturingDate": "YYYY-MM-DD or null",
+  "diet": "veg" | "non_veg" | "vegan" | "jain" | null,
+  "allergens": ["gluten" | "nuts" | "peanuts" | "lactose" | "soy" | "egg" | "shellfish" | "sesame"],
   "confidence": {
     "productName": 0-1,
     "expiryDate": 0-1,
@@ -62,7 +83,7 @@ Return the data as a valid JSON object with these exact keys:
   }
 }
 
-If you can't extract a field, set it to null. Provide confidence scores (0-1) for key fields.`
+If you can't extract a field, set it to null (use an empty array for allergens). Provide confidence scores (0-1) for key fields.`
           },
           {
             role: 'user',
@@ -115,6 +136,25 @@ If you can't extract a field, set it to null. Provide confidence scores (0-1) fo
 
     const extractedData = JSON.parse(jsonStr);
 
+    // Keep dietary fields to the values the products table accepts
+    if (!DIETS.includes(extractedData.diet)) {
+      extractedData.diet = null;
+    }
+    extractedData.allergens = Array.isArray(extractedData.allergens)
+      ? [...new Set(extractedData.allergens.filter((a: unknown) => ALLERGENS.includes(a as string)))]
+      : [];
+
+    // Pack size feeds the food-waste impact figures, so drop anything that isn't a clean amount
+    const netQuantity = Number(extractedData.netQuantity);
+    const netUnit = typeof extractedData.netUnit === 'string' ? extractedData.netUnit.toLowerCase() : null;
+    if (Number.isFinite(netQuantity) && netQuantity > 0 && netUnit && PACK_UNITS.includes(netUnit)) {
+      extractedData.netQuantity = netQuantity;
+      extractedData.netUnit = netUnit;
+    } else {
+      extractedData.netQuantity = null;
+      extractedData.netUnit = null;
+    }
+
     console.log('Extracted product data:', extractedData);
 
     return new Response(
@@ -0,0 +1,68 @@
+-- Scheduled expiry sweeper: expires past-date batches and escalates discounts
+
+-- Enable pg_cron for the daily schedule
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+-- Discount tier for a given expiry date (30/15/7 days -> 10/20/30%)
+CREATE OR REPLACE FUNCTION public.expiry_discount_percent(_expiry_date DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  days_to_expiry INTEGER := _expiry_date - CURRENT_DATE;
+BEGIN
+  IF days_to_expiry <= 30 AND days_to_expiry > 15 THEN
+    RETURN 10;
+  ELSIF days_to_expiry <= 15 AND days_to_expiry > 7 THEN
+    RETURN 20;
+  ELSIF days_to_expiry <= 7 AND days_to_expiry >= 0 THEN
+    RETURN 30;
+  END IF;
+
+  RETURN 0;
+END;
+$$;
+
+-- Walk active batches, expire the ones past their date and raise discounts
+-- that are below their tier. Discounts are never lowered, so a deeper manual
+-- markdown set by the shopkeeper is kept. Updates go through the normal
+-- triggers, so notify_wishlist_discount fires for every escalation.
+CREATE OR REPLACE FUNCTION public.run_expiry_sweep()
+RETURNS TABLE (expired_count INTEGER, discounted_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.inventory_batches
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND expiry_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+
+  UPDATE public.inventory_batches
+  SET discount_percent = public.expiry_discount_percent(expiry_date)
+  WHERE status = 'active'
+    AND expiry_date >= CURRENT_DATE
+    AND public.expiry_discount_percent(expiry_date) > discount_percent;
+
+  GET DIAGNOSTICS discounted_count = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- The sweep is a platform job, not something clients should trigger
+REVOKE EXECUTE ON FUNCTION public.run_expiry_sweep() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_status_expiry
+  ON public.inventory_batches(status, expiry_date);
+
+-- Run daily at 00:05 UTC
+SELECT cron.unschedule('expiry-sweep')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expiry-sweep');
+
+SELECT cron.schedule('expiry-sweep', '5 0 * * *', $$SELECT public.run_expiry_sweep()$$);
@@ -0,0 +1,250 @@
+-- Discount policy subsystem: platform defaults, per-shop / per-category overrides
+-- and a single evaluator shared by inserts, the sweeper and the shopkeeper preview
+
+-- Platform default tier schedule (days before expiry -> discount percent)
+INSERT INTO public.system_settings (setting_key, setting_value, description) VALUES
+('discount_tiers', '[{"days": 30, "percent": 10}, {"days": 15, "percent": 20}, {"days": 7, "percent": 30}]', 'Default auto-discount tiers by days to expiry')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Overrides. shop_id NULL = platform-wide category rule, category NULL = whole shop
+CREATE TABLE public.discount_policies (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  shop_id UUID REFERENCES public.shops(id) ON DELETE CASCADE,
+  category TEXT,
+  tiers JSONB NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT discount_policy_scope CHECK (shop_id IS NOT NULL OR category IS NOT NULL),
+  CONSTRAINT discount_policy_tiers_array CHECK (jsonb_typeof(tiers) = 'array')
+);
+
+CREATE UNIQUE INDEX idx_discount_policies_scope
+  ON public.discount_policies (COALESCE(shop_id, '00000000-0000-0000-0000-000000000000'::uuid), COALESCE(lower(category), ''));
+
+ALTER TABLE public.discount_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shop owners can view their discount policies"
+ON public.discount_policies
+FOR SELECT
+TO authenticated
+USING (
+  shop_id IS NULL
+  OR EXISTS (SELECT 1 FROM public.shops WHERE id = shop_id AND owner_id = auth.uid())
+);
+
+CREATE POLICY "Shop owners can manage their discount policies"
+ON public.discount_policies
+FOR ALL
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.shops WHERE id = shop_id AND owner_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.shops WHERE id = shop_id AND owner_id = auth.uid()));
+
+CREATE POLICY "Admins can manage all discount policies"
+ON public.discount_policies
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_discount_policies_updated_at
+BEFORE UPDATE ON public.discount_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Read a numeric setting. Accepts both the raw seed shape ('30') and the
+-- { "value": 30 } shape written by the admin settings page.
+CREATE OR REPLACE FUNCTION public.setting_numeric(_key TEXT, _default NUMERIC)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN jsonb_typeof(setting_value) = 'object' THEN (setting_value->>'value')::numeric
+        ELSE (setting_value #>> '{}')::numeric
+      END
+      FROM public.system_settings
+      WHERE setting_key = _key
+    ),
+    _default
+  )
+$$;
+
+-- Most specific tier schedule for a shop and category
+CREATE OR REPLACE FUNCTION public.resolve_discount_tiers(_shop_id UUID, _category TEXT)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT dp.tiers
+      FROM public.discount_policies dp
+      WHERE (dp.shop_id = _shop_id OR dp.shop_id IS NULL)
+        AND (lower(dp.category) = lower(_category) OR dp.category IS NULL)
+      ORDER BY (dp.shop_id IS NOT NULL AND dp.category IS NOT NULL) DESC,
+               (dp.shop_id IS NOT NULL) DESC
+      LIMIT 1
+    ),
+    (
+      SELECT CASE WHEN jsonb_typeof(setting_value) = 'object' THEN setting_value->'value' ELSE setting_value END
+      FROM public.system_settings
+      WHERE setting_key = 'discount_tiers'
+    ),
+    '[{"days": 30, "percent": 10}, {"days": 15, "percent": 20}, {"days": 7, "percent": 30}]'::jsonb
+  )
+$$;
+
+-- The evaluator. Picks the deepest tier the batch qualifies for, ignores
+-- tiers beyond discount_threshold_days and clamps to the platform bounds.
+CREATE OR REPLACE FUNCTION public.evaluate_discount(
+  _shop_id UUID,
+  _category TEXT,
+  _expiry_date DATE,
+  _as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  days_to_expiry INTEGER := _expiry_date - _as_of;
+  threshold_days NUMERIC := public.setting_numeric('discount_threshold_days', 30);
+  min_percent NUMERIC := public.setting_numeric('min_discount_percent', 0);
+  max_percent NUMERIC := public.setting_numeric('max_discount_percent', 100);
+  tier_percent NUMERIC;
+BEGIN
+  IF days_to_expiry < 0 OR days_to_expiry > threshold_days THEN
+    RETURN 0;
+  END IF;
+
+  SELECT MAX((tier->>'percent')::numeric)
+  INTO tier_percent
+  FROM jsonb_array_elements(public.resolve_discount_tiers(_shop_id, _category)) AS tier
+  WHERE days_to_expiry <= (tier->>'days')::integer;
+
+  IF tier_percent IS NULL OR tier_percent <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN GREATEST(min_percent, LEAST(max_percent, tier_percent));
+END;
+$$;
+
+-- Day-by-day discount from today until expiry, for the shopkeeper preview
+CREATE OR REPLACE FUNCTION public.discount_schedule(_shop_id UUID, _category TEXT, _expiry_date DATE)
+RETURNS TABLE (on_date DATE, days_to_expiry INTEGER, discount_percent NUMERIC)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    d::date,
+    _expiry_date - d::date,
+    public.evaluate_discount(_shop_id, _category, _expiry_date, d::date)
+  FROM generate_series(
+    CURRENT_DATE,
+    GREATEST(CURRENT_DATE, _expiry_date),
+    interval '1 day'
+  ) AS d
+$$;
+
+-- Apply the policy on insert. An explicit discount deeper than the policy is kept.
+CREATE OR REPLACE FUNCTION public.apply_discount_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  product_category TEXT;
+BEGIN
+  SELECT category INTO product_category FROM public.products WHERE id = NEW.product_id;
+
+  NEW.discount_percent := GREATEST(
+    NEW.discount_percent,
+    public.evaluate_discount(NEW.shop_id, product_category, NEW.expiry_date)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_discount_policy_on_insert
+BEFORE INSERT ON public.inventory_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_discount_policy();
+
+-- Reject discounts outside the platform min/max. Zero (no discount) is always allowed.
+CREATE OR REPLACE FUNCTION public.enforce_discount_bounds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  min_percent NUMERIC := public.setting_numeric('min_discount_percent', 0);
+  max_percent NUMERIC := public.setting_numeric('max_discount_percent', 100);
+BEGIN
+  IF NEW.discount_percent > 0
+     AND (NEW.discount_percent < min_percent OR NEW.discount_percent > max_percent) THEN
+    RAISE EXCEPTION 'Discount of % percent is outside the allowed range (% to %)',
+      NEW.discount_percent, min_percent, max_percent
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_discount_bounds
+BEFORE INSERT OR UPDATE OF discount_percent ON public.inventory_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_discount_bounds();
+
+-- Sweeper now goes through the shared evaluator
+CREATE OR REPLACE FUNCTION public.run_expiry_sweep()
+RETURNS TABLE (expired_count INTEGER, discounted_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.inventory_batches
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND expiry_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+
+  WITH due AS (
+    SELECT b.id, public.evaluate_discount(b.shop_id, p.category, b.expiry_date) AS percent
+    FROM public.inventory_batches b
+    JOIN public.products p ON p.id = b.product_id
+    WHERE b.status = 'active'
+      AND b.expiry_date >= CURRENT_DATE
+  )
+  UPDATE public.inventory_batches b
+  SET discount_percent = due.percent
+  FROM due
+  WHERE b.id = due.id
+    AND due.percent > b.discount_percent;
+
+  GET DIAGNOSTICS discounted_count = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_expiry_sweep() FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.expiry_discount_percent(DATE);
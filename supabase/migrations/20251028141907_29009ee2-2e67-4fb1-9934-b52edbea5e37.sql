@@ -0,0 +1,121 @@
+-- Atomic checkout with first-expiry-first-out batch allocation
+--
+-- _items is a JSON array of { product_id, quantity, batch_id? }. Lines with a
+-- batch_id are filled from that batch only; the rest are allocated FEFO across
+-- the shop's active batches. Either every line is allocated or nothing changes.
+CREATE OR REPLACE FUNCTION public.checkout_cart(_shop_id UUID, _items JSONB)
+RETURNS TABLE (
+  transaction_id UUID,
+  product_id UUID,
+  batch_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  unit_price NUMERIC,
+  line_total NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  caller UUID := auth.uid();
+  buyer UUID;
+  item RECORD;
+  batch RECORD;
+  remaining INTEGER;
+  take_qty INTEGER;
+  sale_price NUMERIC;
+  product_name TEXT;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Please log in to check out' USING ERRCODE = '28000';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  -- Shop owners ring up walk-in sales; anyone else is buying for themselves
+  IF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.owner_id = caller) THEN
+    buyer := NULL;
+  ELSIF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.verification_status = 'verified') THEN
+    buyer := caller;
+  ELSE
+    RAISE EXCEPTION 'This shop is not accepting orders' USING ERRCODE = '42501';
+  END IF;
+
+  -- Merge duplicate lines and walk products in a fixed order so concurrent
+  -- checkouts always lock batches in the same sequence
+  FOR item IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      NULLIF(i->>'batch_id', '')::uuid AS batch_id,
+      SUM((i->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(_items) AS i
+    GROUP BY 1, 2
+    ORDER BY 1, 2 NULLS LAST
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1' USING ERRCODE = '22023';
+    END IF;
+
+    remaining := item.quantity;
+
+    FOR batch IN
+      SELECT b.id, b.quantity, b.mrp, b.discount_percent
+      FROM public.inventory_batches b
+      WHERE b.shop_id = _shop_id
+        AND b.product_id = item.product_id
+        AND (item.batch_id IS NULL OR b.id = item.batch_id)
+        AND b.status = 'active'
+        AND b.quantity > 0
+        AND b.expiry_date >= CURRENT_DATE
+      ORDER BY b.expiry_date, b.created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN remaining = 0;
+
+      take_qty := LEAST(remaining, batch.quantity);
+      sale_price := ROUND(batch.mrp * (1 - batch.discount_percent / 100), 2);
+
+      UPDATE public.inventory_batches b
+      SET quantity = b.quantity - take_qty,
+          status = CASE WHEN b.quantity - take_qty = 0 THEN 'sold_out'::batch_status ELSE b.status END
+      WHERE b.id = batch.id;
+
+      INSERT INTO public.transactions (shop_id, product_id, batch_id, customer_id, quantity, price)
+      VALUES (_shop_id, item.product_id, batch.id, buyer, take_qty, sale_price)
+      RETURNING id INTO transaction_id;
+
+      product_id := item.product_id;
+      batch_id := batch.id;
+      quantity := take_qty;
+      mrp := batch.mrp;
+      discount_percent := batch.discount_percent;
+      unit_price := sale_price;
+      line_total := sale_price * take_qty;
+      RETURN NEXT;
+
+      remaining := remaining - take_qty;
+    END LOOP;
+
+    IF remaining > 0 THEN
+      SELECT p.name INTO product_name FROM public.products p WHERE p.id = item.product_id;
+      RAISE EXCEPTION 'Only % of % in stock', item.quantity - remaining, COALESCE(product_name, 'this product')
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.checkout_cart(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.checkout_cart(UUID, JSONB) TO authenticated;
+
+-- Sales are only recorded through checkout_cart now
+DROP POLICY IF EXISTS "Shop owners can create transactions" ON public.transactions;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_batches_fefo
+  ON public.inventory_batches(shop_id, product_id, expiry_date)
+  WHERE status = 'active';
@@ -0,0 +1,192 @@
+-- Bills group the per-batch transactions of one checkout (in-store or online)
+CREATE TABLE public.bills (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  bill_number BIGINT GENERATED ALWAYS AS IDENTITY,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('pos', 'online')),
+  item_count INTEGER NOT NULL DEFAULT 0,
+  mrp_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+
+-- Bills are only written by checkout_cart
+CREATE POLICY "Customers can view their own bills"
+ON public.bills FOR SELECT
+USING (auth.uid() = customer_id);
+
+CREATE POLICY "Shop owners can view their shop bills"
+ON public.bills FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.shops WHERE id = shop_id AND owner_id = auth.uid()));
+
+CREATE POLICY "Admins can view all bills"
+ON public.bills FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_bills_shop_created ON public.bills(shop_id, created_at DESC);
+CREATE INDEX idx_bills_customer ON public.bills(customer_id) WHERE customer_id IS NOT NULL;
+
+-- Each transaction is now a line item of a bill; older rows stay unattached
+ALTER TABLE public.transactions
+  ADD COLUMN bill_id UUID REFERENCES public.bills(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_transactions_bill ON public.transactions(bill_id);
+CREATE INDEX idx_transactions_shop_timestamp ON public.transactions(shop_id, "timestamp" DESC);
+
+-- Recreate checkout_cart so every checkout opens a bill and reports its id
+DROP FUNCTION IF EXISTS public.checkout_cart(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(_shop_id UUID, _items JSONB)
+RETURNS TABLE (
+  bill_id UUID,
+  transaction_id UUID,
+  product_id UUID,
+  batch_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  unit_price NUMERIC,
+  line_total NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  caller UUID := auth.uid();
+  buyer UUID;
+  new_bill_id UUID;
+  item RECORD;
+  batch RECORD;
+  remaining INTEGER;
+  take_qty INTEGER;
+  sale_price NUMERIC;
+  product_name TEXT;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Please log in to check out' USING ERRCODE = '28000';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  -- Shop owners ring up walk-in sales; anyone else is buying for themselves
+  IF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.owner_id = caller) THEN
+    buyer := NULL;
+  ELSIF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.verification_status = 'verified') THEN
+    buyer := caller;
+  ELSE
+    RAISE EXCEPTION 'This shop is not accepting orders' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.bills (shop_id, customer_id, channel, created_by)
+  VALUES (_shop_id, buyer, CASE WHEN buyer IS NULL THEN 'pos' ELSE 'online' END, caller)
+  RETURNING id INTO new_bill_id;
+
+  -- Merge duplicate lines and walk products in a fixed order so concurrent
+  -- checkouts always lock batches in the same sequence
+  FOR item IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      NULLIF(i->>'batch_id', '')::uuid AS batch_id,
+      SUM((i->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(_items) AS i
+    GROUP BY 1, 2
+    ORDER BY 1, 2 NULLS LAST
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1' USING ERRCODE = '22023';
+    END IF;
+
+    remaining := item.quantity;
+
+    FOR batch IN
+      SELECT b.id, b.quantity, b.mrp, b.discount_percent
+      FROM public.inventory_batches b
+      WHERE b.shop_id = _shop_id
+        AND b.product_id = item.product_id
+        AND (item.batch_id IS NULL OR b.id = item.batch_id)
+        AND b.status = 'active'
+        AND b.quantity > 0
+        AND b.expiry_date >= CURRENT_DATE
+      ORDER BY b.expiry_date, b.created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN remaining = 0;
+
+      take_qty := LEAST(remaining, batch.quantity);
+      sale_price := ROUND(batch.mrp * (1 - batch.discount_percent / 100), 2);
+
+      UPDATE public.inventory_batches b
+      SET quantity = b.quantity - take_qty,
+          status = CASE WHEN b.quantity - take_qty = 0 THEN 'sold_out'::batch_status ELSE b.status END
+      WHERE b.id = batch.id;
+
+      INSERT INTO public.transactions (bill_id, shop_id, product_id, batch_id, customer_id, quantity, price)
+      VALUES (new_bill_id, _shop_id, item.product_id, batch.id, buyer, take_qty, sale_price)
+      RETURNING id INTO transaction_id;
+
+      bill_id := new_bill_id;
+      product_id := item.product_id;
+      batch_id := batch.id;
+      quantity := take_qty;
+      mrp := batch.mrp;
+      discount_percent := batch.discount_percent;
+      unit_price := sale_price;
+      line_total := sale_price * take_qty;
+      RETURN NEXT;
+
+      remaining := remaining - take_qty;
+    END LOOP;
+
+    IF remaining > 0 THEN
+      SELECT p.name INTO product_name FROM public.products p WHERE p.id = item.product_id;
+      RAISE EXCEPTION 'Only % of % in stock', item.quantity - remaining, COALESCE(product_name, 'this product')
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  UPDATE public.bills bl
+  SET item_count = totals.item_count,
+      mrp_total = totals.mrp_total,
+      total = totals.total
+  FROM (
+    SELECT
+      SUM(t.quantity)::integer AS item_count,
+      SUM(b.mrp * t.quantity) AS mrp_total,
+      SUM(t.price * t.quantity) AS total
+    FROM public.transactions t
+    JOIN public.inventory_batches b ON b.id = t.batch_id
+    WHERE t.bill_id = new_bill_id
+  ) AS totals
+  WHERE bl.id = new_bill_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.checkout_cart(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.checkout_cart(UUID, JSONB) TO authenticated;
+
+-- Revenue for a shop's dashboard, from recorded sales (price is per unit)
+CREATE OR REPLACE FUNCTION public.shop_revenue(_shop_id UUID, _since TIMESTAMP WITH TIME ZONE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(t.price * t.quantity), 0)
+  FROM public.transactions t
+  WHERE t.shop_id = _shop_id
+    AND t."timestamp" >= _since
+    AND EXISTS (
+      SELECT 1 FROM public.shops s
+      WHERE s.id = _shop_id
+        AND (s.owner_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+    );
+$$;
@@ -0,0 +1,465 @@
+-- Click-and-collect: customers reserve stock, the shop hands it over against a pickup code
+CREATE TYPE public.order_status AS ENUM ('reserved', 'collected', 'cancelled', 'expired');
+
+INSERT INTO public.system_settings (setting_key, setting_value, description) VALUES
+('reservation_hold_minutes', '120', 'How long reserved stock is held for pickup before it is released')
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE public.orders (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  order_number BIGINT GENERATED ALWAYS AS IDENTITY,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status public.order_status NOT NULL DEFAULT 'reserved',
+  pickup_code TEXT NOT NULL,
+  hold_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  mrp_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  bill_id UUID REFERENCES public.bills(id) ON DELETE SET NULL,
+  collected_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Batch prices are captured at reservation time so the counter charges what the customer saw
+CREATE TABLE public.order_items (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  batch_id UUID NOT NULL REFERENCES public.inventory_batches(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  mrp NUMERIC(10, 2) NOT NULL,
+  discount_percent NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  unit_price NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- Orders are only written through the functions below
+CREATE POLICY "Customers can view their own orders"
+ON public.orders FOR SELECT
+USING (auth.uid() = customer_id);
+
+CREATE POLICY "Shop owners can view their shop orders"
+ON public.orders FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.shops WHERE id = shop_id AND owner_id = auth.uid()));
+
+CREATE POLICY "Admins can view all orders"
+ON public.orders FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Order items follow their order"
+ON public.order_items FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND (
+        o.customer_id = auth.uid()
+        OR EXISTS (SELECT 1 FROM public.shops s WHERE s.id = o.shop_id AND s.owner_id = auth.uid())
+        OR has_role(auth.uid(), 'admin'::app_role)
+      )
+  )
+);
+
+CREATE TRIGGER update_orders_updated_at
+BEFORE UPDATE ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_orders_shop_status ON public.orders(shop_id, status, created_at DESC);
+CREATE INDEX idx_orders_customer ON public.orders(customer_id, created_at DESC);
+CREATE INDEX idx_orders_hold_expiry ON public.orders(hold_expires_at) WHERE status = 'reserved';
+CREATE UNIQUE INDEX idx_orders_open_pickup_code ON public.orders(shop_id, pickup_code) WHERE status = 'reserved';
+CREATE INDEX idx_order_items_order ON public.order_items(order_id);
+
+-- Lock, allocate (FEFO unless a batch is pinned) and deduct stock for a cart.
+-- Shared by checkout_cart and reserve_order; callers do their own authorization.
+CREATE OR REPLACE FUNCTION public.allocate_stock(_shop_id UUID, _items JSONB)
+RETURNS TABLE (
+  product_id UUID,
+  batch_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  unit_price NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  item RECORD;
+  batch RECORD;
+  remaining INTEGER;
+  take_qty INTEGER;
+  product_name TEXT;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  -- Merge duplicate lines and walk products in a fixed order so concurrent
+  -- checkouts always lock batches in the same sequence
+  FOR item IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      NULLIF(i->>'batch_id', '')::uuid AS batch_id,
+      SUM((i->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(_items) AS i
+    GROUP BY 1, 2
+    ORDER BY 1, 2 NULLS LAST
+  LOOP
+    IF item.quantity IS NULL OR item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1' USING ERRCODE = '22023';
+    END IF;
+
+    remaining := item.quantity;
+
+    FOR batch IN
+      SELECT b.id, b.quantity, b.mrp, b.discount_percent
+      FROM public.inventory_batches b
+      WHERE b.shop_id = _shop_id
+        AND b.product_id = item.product_id
+        AND (item.batch_id IS NULL OR b.id = item.batch_id)
+        AND b.status = 'active'
+        AND b.quantity > 0
+        AND b.expiry_date >= CURRENT_DATE
+      ORDER BY b.expiry_date, b.created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN remaining = 0;
+
+      take_qty := LEAST(remaining, batch.quantity);
+
+      UPDATE public.inventory_batches b
+      SET quantity = b.quantity - take_qty,
+          status = CASE WHEN b.quantity - take_qty = 0 THEN 'sold_out'::batch_status ELSE b.status END
+      WHERE b.id = batch.id;
+
+      product_id := item.product_id;
+      batch_id := batch.id;
+      quantity := take_qty;
+      mrp := batch.mrp;
+      discount_percent := batch.discount_percent;
+      unit_price := ROUND(batch.mrp * (1 - batch.discount_percent / 100), 2);
+      RETURN NEXT;
+
+      remaining := remaining - take_qty;
+    END LOOP;
+
+    IF remaining > 0 THEN
+      SELECT p.name INTO product_name FROM public.products p WHERE p.id = item.product_id;
+      RAISE EXCEPTION 'Only % of % in stock', item.quantity - remaining, COALESCE(product_name, 'this product')
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.allocate_stock(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- checkout_cart now delegates allocation to allocate_stock
+CREATE OR REPLACE FUNCTION public.checkout_cart(_shop_id UUID, _items JSONB)
+RETURNS TABLE (
+  bill_id UUID,
+  transaction_id UUID,
+  product_id UUID,
+  batch_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  unit_price NUMERIC,
+  line_total NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  caller UUID := auth.uid();
+  buyer UUID;
+  new_bill_id UUID;
+  line RECORD;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Please log in to check out' USING ERRCODE = '28000';
+  END IF;
+
+  -- Shop owners ring up walk-in sales; anyone else is buying for themselves
+  IF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.owner_id = caller) THEN
+    buyer := NULL;
+  ELSIF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.verification_status = 'verified') THEN
+    buyer := caller;
+  ELSE
+    RAISE EXCEPTION 'This shop is not accepting orders' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.bills (shop_id, customer_id, channel, created_by)
+  VALUES (_shop_id, buyer, CASE WHEN buyer IS NULL THEN 'pos' ELSE 'online' END, caller)
+  RETURNING id INTO new_bill_id;
+
+  FOR line IN SELECT * FROM public.allocate_stock(_shop_id, _items) LOOP
+    INSERT INTO public.transactions (bill_id, shop_id, product_id, batch_id, customer_id, quantity, price)
+    VALUES (new_bill_id, _shop_id, line.product_id, line.batch_id, buyer, line.quantity, line.unit_price)
+    RETURNING id INTO transaction_id;
+
+    bill_id := new_bill_id;
+    product_id := line.product_id;
+    batch_id := line.batch_id;
+    quantity := line.quantity;
+    mrp := line.mrp;
+    discount_percent := line.discount_percent;
+    unit_price := line.unit_price;
+    line_total := line.unit_price * line.quantity;
+    RETURN NEXT;
+  END LOOP;
+
+  UPDATE public.bills bl
+  SET item_count = totals.item_count,
+      mrp_total = totals.mrp_total,
+      total = totals.total
+  FROM (
+    SELECT
+      SUM(t.quantity)::integer AS item_count,
+      SUM(b.mrp * t.quantity) AS mrp_total,
+      SUM(t.price * t.quantity) AS total
+    FROM public.transactions t
+    JOIN public.inventory_batches b ON b.id = t.batch_id
+    WHERE t.bill_id = new_bill_id
+  ) AS totals
+  WHERE bl.id = new_bill_id;
+END;
+$$;
+
+-- Put an order's held units back on the shelf
+CREATE OR REPLACE FUNCTION public.release_order_stock(_order_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.inventory_batches b
+  SET quantity = b.quantity + held.quantity,
+      status = CASE
+        WHEN b.expiry_date < CURRENT_DATE THEN 'expired'::batch_status
+        WHEN b.status = 'sold_out' THEN 'active'::batch_status
+        ELSE b.status
+      END
+  FROM (
+    SELECT oi.batch_id, SUM(oi.quantity)::integer AS quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = _order_id
+    GROUP BY oi.batch_id
+  ) AS held
+  WHERE b.id = held.batch_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Customer reserves a cart for pickup; stock is held until hold_expires_at
+CREATE OR REPLACE FUNCTION public.reserve_order(_shop_id UUID, _items JSONB)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  new_order public.orders;
+  code TEXT;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Please log in to reserve products' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.verification_status = 'verified') THEN
+    RAISE EXCEPTION 'This shop is not accepting orders' USING ERRCODE = '42501';
+  END IF;
+
+  LOOP
+    code := lpad(floor(random() * 1000000)::integer::text, 6, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.shop_id = _shop_id AND o.pickup_code = code AND o.status = 'reserved'
+    );
+  END LOOP;
+
+  INSERT INTO public.orders (shop_id, customer_id, pickup_code, hold_expires_at)
+  VALUES (
+    _shop_id,
+    caller,
+    code,
+    now() + make_interval(mins => public.setting_numeric('reservation_hold_minutes', 120)::integer)
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO public.order_items (order_id, product_id, batch_id, quantity, mrp, discount_percent, unit_price)
+  SELECT new_order.id, a.product_id, a.batch_id, a.quantity, a.mrp, a.discount_percent, a.unit_price
+  FROM public.allocate_stock(_shop_id, _items) AS a;
+
+  UPDATE public.orders o
+  SET item_count = totals.item_count,
+      mrp_total = totals.mrp_total,
+      total = totals.total
+  FROM (
+    SELECT
+      SUM(oi.quantity)::integer AS item_count,
+      SUM(oi.mrp * oi.quantity) AS mrp_total,
+      SUM(oi.unit_price * oi.quantity) AS total
+    FROM public.order_items oi
+    WHERE oi.order_id = new_order.id
+  ) AS totals
+  WHERE o.id = new_order.id
+  RETURNING o.* INTO new_order;
+
+  RETURN new_order;
+END;
+$$;
+
+-- Shop hands over a reservation: the pickup code turns it into a bill
+CREATE OR REPLACE FUNCTION public.collect_order(_shop_id UUID, _pickup_code TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  target public.orders;
+  new_bill_id UUID;
+BEGIN
+  IF caller IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.owner_id = caller
+  ) THEN
+    RAISE EXCEPTION 'Only the shop owner can hand over orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.orders o
+  WHERE o.shop_id = _shop_id
+    AND o.pickup_code = btrim(_pickup_code)
+    AND o.status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open reservation matches this pickup code' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target.hold_expires_at < now() THEN
+    RAISE EXCEPTION 'This reservation expired at %', to_char(target.hold_expires_at, 'DD Mon HH24:MI')
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.bills (shop_id, customer_id, channel, item_count, mrp_total, total, created_by)
+  VALUES (_shop_id, target.customer_id, 'online', target.item_count, target.mrp_total, target.total, caller)
+  RETURNING id INTO new_bill_id;
+
+  INSERT INTO public.transactions (bill_id, shop_id, product_id, batch_id, customer_id, quantity, price)
+  SELECT new_bill_id, _shop_id, oi.product_id, oi.batch_id, target.customer_id, oi.quantity, oi.unit_price
+  FROM public.order_items oi
+  WHERE oi.order_id = target.id;
+
+  UPDATE public.orders o
+  SET status = 'collected', bill_id = new_bill_id, collected_at = now()
+  WHERE o.id = target.id
+  RETURNING o.* INTO target;
+
+  RETURN target;
+END;
+$$;
+
+-- Either side can cancel while the order is still open
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  target public.orders;
+BEGIN
+  SELECT * INTO target FROM public.orders o WHERE o.id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR caller IS NULL OR NOT (
+    target.customer_id = caller
+    OR EXISTS (SELECT 1 FROM public.shops s WHERE s.id = target.shop_id AND s.owner_id = caller)
+  ) THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target.status <> 'reserved' THEN
+    RAISE EXCEPTION 'This order is already %', target.status USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM public.release_order_stock(target.id);
+
+  UPDATE public.orders o
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE o.id = target.id
+  RETURNING o.* INTO target;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_order(UUID, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.collect_order(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_order(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.collect_order(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO authenticated;
+
+-- Release holds that were never collected and let the customer know
+CREATE OR REPLACE FUNCTION public.release_expired_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stale RECORD;
+  released INTEGER := 0;
+BEGIN
+  FOR stale IN
+    SELECT o.id, o.customer_id, o.order_number
+    FROM public.orders o
+    WHERE o.status = 'reserved' AND o.hold_expires_at < now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.release_order_stock(stale.id);
+
+    UPDATE public.orders SET status = 'expired' WHERE id = stale.id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      stale.customer_id,
+      'Reservation expired',
+      'Order #' || stale.order_number || ' was not picked up in time and has been released.',
+      'order'
+    );
+
+    released := released + 1;
+  END LOOP;
+
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_orders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.unschedule('release-expired-orders')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'release-expired-orders');
+
+SELECT cron.schedule('release-expired-orders', '*/5 * * * *', $$SELECT public.release_expired_orders()$$);
+
+-- Shopkeepers watch incoming reservations live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
@@ -0,0 +1,151 @@
+-- Capture the MRP and discount on every sale line so order history and savings
+-- don't depend on batch prices that may change later
+ALTER TABLE public.transactions
+  ADD COLUMN mrp NUMERIC(10, 2),
+  ADD COLUMN discount_percent NUMERIC(5, 2);
+
+UPDATE public.transactions t
+SET mrp = b.mrp,
+    discount_percent = b.discount_percent
+FROM public.inventory_batches b
+WHERE b.id = t.batch_id
+  AND t.mrp IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_customer ON public.transactions(customer_id, "timestamp" DESC)
+  WHERE customer_id IS NOT NULL;
+
+-- Customers keep seeing the batches they bought or reserved after they sell out or expire
+CREATE POLICY "Customers can view batches they purchased"
+ON public.inventory_batches FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.transactions t WHERE t.batch_id = inventory_batches.id AND t.customer_id = auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.batch_id = inventory_batches.id AND o.customer_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(_shop_id UUID, _items JSONB)
+RETURNS TABLE (
+  bill_id UUID,
+  transaction_id UUID,
+  product_id UUID,
+  batch_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  unit_price NUMERIC,
+  line_total NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  caller UUID := auth.uid();
+  buyer UUID;
+  new_bill_id UUID;
+  line RECORD;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Please log in to check out' USING ERRCODE = '28000';
+  END IF;
+
+  -- Shop owners ring up walk-in sales; anyone else is buying for themselves
+  IF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.owner_id = caller) THEN
+    buyer := NULL;
+  ELSIF EXISTS (SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.verification_status = 'verified') THEN
+    buyer := caller;
+  ELSE
+    RAISE EXCEPTION 'This shop is not accepting orders' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.bills (shop_id, customer_id, channel, created_by)
+  VALUES (_shop_id, buyer, CASE WHEN buyer IS NULL THEN 'pos' ELSE 'online' END, caller)
+  RETURNING id INTO new_bill_id;
+
+  FOR line IN SELECT * FROM public.allocate_stock(_shop_id, _items) LOOP
+    INSERT INTO public.transactions (bill_id, shop_id, product_id, batch_id, customer_id, quantity, price, mrp, discount_percent)
+    VALUES (new_bill_id, _shop_id, line.product_id, line.batch_id, buyer, line.quantity, line.unit_price, line.mrp, line.discount_percent)
+    RETURNING id INTO transaction_id;
+
+    bill_id := new_bill_id;
+    product_id := line.product_id;
+    batch_id := line.batch_id;
+    quantity := line.quantity;
+    mrp := line.mrp;
+    discount_percent := line.discount_percent;
+    unit_price := line.unit_price;
+    line_total := line.unit_price * line.quantity;
+    RETURN NEXT;
+  END LOOP;
+
+  UPDATE public.bills bl
+  SET item_count = totals.item_count,
+      mrp_total = totals.mrp_total,
+      total = totals.total
+  FROM (
+    SELECT
+      SUM(t.quantity)::integer AS item_count,
+      SUM(t.mrp * t.quantity) AS mrp_total,
+      SUM(t.price * t.quantity) AS total
+    FROM public.transactions t
+    WHERE t.bill_id = new_bill_id
+  ) AS totals
+  WHERE bl.id = new_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.collect_order(_shop_id UUID, _pickup_code TEXT)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  target public.orders;
+  new_bill_id UUID;
+BEGIN
+  IF caller IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.shops s WHERE s.id = _shop_id AND s.owner_id = caller
+  ) THEN
+    RAISE EXCEPTION 'Only the shop owner can hand over orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.orders o
+  WHERE o.shop_id = _shop_id
+    AND o.pickup_code = btrim(_pickup_code)
+    AND o.status = 'reserved'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open reservation matches this pickup code' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target.hold_expires_at < now() THEN
+    RAISE EXCEPTION 'This reservation expired at %', to_char(target.hold_expires_at, 'DD Mon HH24:MI')
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.bills (shop_id, customer_id, channel, item_count, mrp_total, total, created_by)
+  VALUES (_shop_id, target.customer_id, 'online', target.item_count, target.mrp_total, target.total, caller)
+  RETURNING id INTO new_bill_id;
+
+  -- Charge the prices captured when the customer reserved
+  INSERT INTO public.transactions (bill_id, shop_id, product_id, batch_id, customer_id, quantity, price, mrp, discount_percent)
+  SELECT new_bill_id, _shop_id, oi.product_id, oi.batch_id, target.customer_id, oi.quantity, oi.unit_price, oi.mrp, oi.discount_percent
+  FROM public.order_items oi
+  WHERE oi.order_id = target.id;
+
+  UPDATE public.orders o
+  SET status = 'collected', bill_id = new_bill_id, collected_at = now()
+  WHERE o.id = target.id
+  RETURNING o.* INTO target;
+
+  RETURN target;
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Persistent customer cart; items are grouped by shop because pickup is per shop
+CREATE TABLE public.cart_items (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES public.shops(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.inventory_batches(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (customer_id, batch_id)
+);
+
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can manage their own cart"
+ON public.cart_items FOR ALL
+USING (auth.uid() = customer_id)
+WITH CHECK (auth.uid() = customer_id);
+
+CREATE INDEX idx_cart_items_customer_shop ON public.cart_items(customer_id, shop_id);
+
+CREATE TRIGGER update_cart_items_updated_at
+BEFORE UPDATE ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep shop and product in step with the batch, whatever the client sent
+CREATE OR REPLACE FUNCTION public.sync_cart_item_batch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT b.shop_id, b.product_id
+  INTO NEW.shop_id, NEW.product_id
+  FROM public.inventory_batches b
+  WHERE b.id = NEW.batch_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This product is no longer available' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_cart_item_batch
+BEFORE INSERT OR UPDATE OF batch_id ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_cart_item_batch();
+
+-- Reserve everything in the caller's cart for one shop as a single order,
+-- clearing those cart lines only if the reservation succeeds
+CREATE OR REPLACE FUNCTION public.reserve_cart(_shop_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  cart JSONB;
+  new_order public.orders;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Please log in to reserve products' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('product_id', c.product_id, 'batch_id', c.batch_id, 'quantity', c.quantity))
+  INTO cart
+  FROM public.cart_items c
+  WHERE c.customer_id = caller AND c.shop_id = _shop_id;
+
+  IF cart IS NULL THEN
+    RAISE EXCEPTION 'Your cart for this shop is empty' USING ERRCODE = '22023';
+  END IF;
+
+  new_order := public.reserve_order(_shop_id, cart);
+
+  DELETE FROM public.cart_items c
+  WHERE c.customer_id = caller AND c.shop_id = _shop_id;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_cart(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_cart(UUID) TO authenticated;
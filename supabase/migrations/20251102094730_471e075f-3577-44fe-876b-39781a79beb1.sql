@@ -0,0 +1,141 @@
+-- Distance-aware discovery. Plain haversine over shops.latitude/longitude keeps us
+-- off PostGIS; a bounding box in front of it lets the lat/lng index do the culling.
+CREATE OR REPLACE FUNCTION public.haversine_km(
+  _lat1 DOUBLE PRECISION,
+  _lng1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2)
+    + cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_shops_location ON public.shops(latitude, longitude);
+
+-- True when the shop is inside the radius, or when there is no location/radius to filter by
+CREATE OR REPLACE FUNCTION public.within_radius(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION,
+  _shop_lat NUMERIC,
+  _shop_lng NUMERIC
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _lat IS NULL OR _lng IS NULL OR _radius_km IS NULL OR (
+    _shop_lat BETWEEN _lat - _radius_km / 111.0 AND _lat + _radius_km / 111.0
+    AND public.haversine_km(_lat, _lng, _shop_lat::double precision, _shop_lng::double precision) <= _radius_km
+  );
+$$;
+
+-- Verified shops ordered by distance from the caller
+CREATE OR REPLACE FUNCTION public.nearby_shops(
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  address TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  is_open BOOLEAN,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.address,
+    s.latitude,
+    s.longitude,
+    s.is_open,
+    CASE WHEN _lat IS NOT NULL AND _lng IS NOT NULL
+      THEN public.haversine_km(_lat, _lng, s.latitude::double precision, s.longitude::double precision)
+    END AS distance_km
+  FROM public.shops s
+  WHERE s.verification_status = 'verified'
+    AND public.within_radius(_lat, _lng, _radius_km, s.latitude, s.longitude)
+  ORDER BY distance_km ASC NULLS LAST, s.name;
+$$;
+
+-- Active deals near the caller. _sort is one of distance, discount, expiry or price.
+CREATE OR REPLACE FUNCTION public.nearby_deals(
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _sort TEXT DEFAULT 'discount',
+  _limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  shop_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  final_price NUMERIC,
+  expiry_date DATE,
+  product_name TEXT,
+  brand TEXT,
+  category TEXT,
+  shop_name TEXT,
+  shop_address TEXT,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      b.id AS batch_id,
+      b.product_id,
+      b.shop_id,
+      b.quantity,
+      b.mrp,
+      b.discount_percent,
+      ROUND(b.mrp * (1 - b.discount_percent / 100), 2) AS final_price,
+      b.expiry_date,
+      p.name AS product_name,
+      p.brand,
+      p.category,
+      s.name AS shop_name,
+      s.address AS shop_address,
+      CASE WHEN _lat IS NOT NULL AND _lng IS NOT NULL
+        THEN public.haversine_km(_lat, _lng, s.latitude::double precision, s.longitude::double precision)
+      END AS distance_km
+    FROM public.inventory_batches b
+    JOIN public.products p ON p.id = b.product_id
+    JOIN public.shops s ON s.id = b.shop_id
+    WHERE b.status = 'active'
+      AND b.quantity > 0
+      AND b.expiry_date >= CURRENT_DATE
+      AND s.verification_status = 'verified'
+      AND public.within_radius(_lat, _lng, _radius_km, s.latitude, s.longitude)
+  ) AS deals
+  ORDER BY
+    CASE WHEN _sort = 'distance' THEN deals.distance_km END ASC NULLS LAST,
+    CASE WHEN _sort = 'expiry' THEN deals.expiry_date END ASC,
+    CASE WHEN _sort = 'price' THEN deals.final_price END ASC,
+    deals.discount_percent DESC,
+    deals.expiry_date ASC
+  LIMIT LEAST(GREATEST(_limit, 1), 500);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.nearby_shops(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.nearby_deals(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER) TO anon, authenticated;
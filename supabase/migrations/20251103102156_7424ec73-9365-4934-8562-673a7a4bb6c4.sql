@@ -0,0 +1,205 @@
+-- Server-side deal search: full-text plus trigram matching, facet filters and keyset pagination
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(brand, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(category, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON public.products USING GIN (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_brand_trgm ON public.products USING GIN (brand extensions.gin_trgm_ops);
+
+-- Superseded by search_deals
+DROP FUNCTION IF EXISTS public.nearby_deals(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER);
+
+-- Active deals matching the text query near the caller, with everything the filters sort and facet on
+CREATE OR REPLACE FUNCTION public.match_deals(
+  _query TEXT DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  shop_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  final_price NUMERIC,
+  expiry_date DATE,
+  product_name TEXT,
+  brand TEXT,
+  category TEXT,
+  shop_name TEXT,
+  shop_address TEXT,
+  shop_is_open BOOLEAN,
+  distance_km DOUBLE PRECISION,
+  relevance REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      NULLIF(btrim(_query), '') AS term,
+      websearch_to_tsquery('english', coalesce(_query, '')) AS ts
+  )
+  SELECT
+    b.id,
+    b.product_id,
+    b.shop_id,
+    b.quantity,
+    b.mrp,
+    b.discount_percent,
+    ROUND(b.mrp * (1 - b.discount_percent / 100), 2),
+    b.expiry_date,
+    p.name,
+    p.brand,
+    p.category,
+    s.name,
+    s.address,
+    coalesce(s.is_open, false),
+    CASE WHEN _lat IS NOT NULL AND _lng IS NOT NULL
+      THEN public.haversine_km(_lat, _lng, s.latitude::double precision, s.longitude::double precision)
+    END,
+    CASE WHEN q.term IS NULL THEN 0
+      ELSE ts_rank(p.search_vector, q.ts)
+        + GREATEST(word_similarity(q.term, p.name), word_similarity(q.term, coalesce(p.brand, '')))
+    END::REAL
+  FROM q, public.inventory_batches b
+  JOIN public.products p ON p.id = b.product_id
+  JOIN public.shops s ON s.id = b.shop_id
+  WHERE b.status = 'active'
+    AND b.quantity > 0
+    AND b.expiry_date >= CURRENT_DATE
+    AND s.verification_status = 'verified'
+    AND public.within_radius(_lat, _lng, _radius_km, s.latitude, s.longitude)
+    AND (
+      q.term IS NULL
+      OR p.search_vector @@ q.ts
+      OR q.term <% p.name
+      OR q.term <% coalesce(p.brand, '')
+    );
+$$;
+
+-- One page of deals. Rows are ordered by (sort_key, batch_id); pass the last row's pair back
+-- as _after_key/_after_id to fetch the next page.
+CREATE OR REPLACE FUNCTION public.search_deals(
+  _query TEXT DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _categories TEXT[] DEFAULT NULL,
+  _brands TEXT[] DEFAULT NULL,
+  _min_discount NUMERIC DEFAULT NULL,
+  _max_discount NUMERIC DEFAULT NULL,
+  _max_days_to_expiry INTEGER DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _open_now BOOLEAN DEFAULT false,
+  _sort TEXT DEFAULT 'relevance',
+  _after_key DOUBLE PRECISION DEFAULT NULL,
+  _after_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  shop_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  final_price NUMERIC,
+  expiry_date DATE,
+  product_name TEXT,
+  brand TEXT,
+  category TEXT,
+  shop_name TEXT,
+  shop_address TEXT,
+  shop_is_open BOOLEAN,
+  distance_km DOUBLE PRECISION,
+  sort_key DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      d.batch_id,
+      d.product_id,
+      d.shop_id,
+      d.quantity,
+      d.mrp,
+      d.discount_percent,
+      d.final_price,
+      d.expiry_date,
+      d.product_name,
+      d.brand,
+      d.category,
+      d.shop_name,
+      d.shop_address,
+      d.shop_is_open,
+      d.distance_km,
+      -- Ascending key for every sort so one keyset condition serves them all
+      (CASE _sort
+        WHEN 'distance' THEN coalesce(d.distance_km, 1e9)
+        WHEN 'expiry' THEN (d.expiry_date - CURRENT_DATE)::double precision
+        WHEN 'price' THEN d.final_price::double precision
+        WHEN 'discount' THEN -d.discount_percent::double precision
+        ELSE -(d.relevance * 1000 + d.discount_percent)::double precision
+      END) AS sort_key
+    FROM public.match_deals(_query, _lat, _lng, _radius_km) d
+    WHERE (_categories IS NULL OR d.category = ANY(_categories))
+      AND (_brands IS NULL OR d.brand = ANY(_brands))
+      AND (_min_discount IS NULL OR d.discount_percent >= _min_discount)
+      AND (_max_discount IS NULL OR d.discount_percent <= _max_discount)
+      AND (_max_days_to_expiry IS NULL OR d.expiry_date <= CURRENT_DATE + _max_days_to_expiry)
+      AND (_min_price IS NULL OR d.final_price >= _min_price)
+      AND (_max_price IS NULL OR d.final_price <= _max_price)
+      AND (NOT coalesce(_open_now, false) OR d.shop_is_open)
+  ) AS deals
+  WHERE _after_key IS NULL
+    OR (deals.sort_key, deals.batch_id) > (_after_key, _after_id)
+  ORDER BY deals.sort_key, deals.batch_id
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+-- Category and brand counts for the current text query and area, to populate the filter UI
+CREATE OR REPLACE FUNCTION public.search_deal_facets(
+  _query TEXT DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  deal_count BIGINT,
+  max_price NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 'category', d.category, COUNT(*), MAX(d.final_price)
+  FROM public.match_deals(_query, _lat, _lng, _radius_km) d
+  GROUP BY d.category
+  UNION ALL
+  SELECT 'brand', d.brand, COUNT(*), MAX(d.final_price)
+  FROM public.match_deals(_query, _lat, _lng, _radius_km) d
+  WHERE d.brand IS NOT NULL
+  GROUP BY d.brand
+  ORDER BY 1, 3 DESC, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_deals(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_deals(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, NUMERIC, NUMERIC, BOOLEAN, TEXT, DOUBLE PRECISION, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_deal_facets(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
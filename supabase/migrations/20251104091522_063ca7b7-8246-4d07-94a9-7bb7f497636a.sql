@@ -0,0 +1,133 @@
+-- Wishlist alert preferences. All optional; with none set the customer hears about any discount.
+ALTER TABLE public.wishlists
+  ADD COLUMN target_price NUMERIC CHECK (target_price > 0),
+  ADD COLUMN min_discount_percent NUMERIC CHECK (min_discount_percent > 0 AND min_discount_percent <= 100),
+  ADD COLUMN max_distance_km NUMERIC CHECK (max_distance_km > 0),
+  -- Where the customer was when they set max_distance_km
+  ADD COLUMN origin_latitude NUMERIC,
+  ADD COLUMN origin_longitude NUMERIC,
+  ADD CONSTRAINT wishlists_distance_origin_check CHECK (
+    max_distance_km IS NULL OR (origin_latitude IS NOT NULL AND origin_longitude IS NOT NULL)
+  );
+
+CREATE POLICY "Users can update their wishlist" ON public.wishlists
+  FOR UPDATE USING (auth.uid() = customer_id) WITH CHECK (auth.uid() = customer_id);
+
+CREATE INDEX IF NOT EXISTS idx_wishlists_product ON public.wishlists(product_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_product
+  ON public.notifications(user_id, related_product_id, created_at DESC);
+
+-- Whether a batch at the given price/discount/location satisfies a wishlist entry's targets
+CREATE OR REPLACE FUNCTION public.wishlist_target_met(
+  _wishlist public.wishlists,
+  _final_price NUMERIC,
+  _discount_percent NUMERIC,
+  _shop_lat NUMERIC,
+  _shop_lng NUMERIC
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (_wishlist.target_price IS NULL OR _final_price <= _wishlist.target_price)
+    AND (_wishlist.min_discount_percent IS NULL OR _discount_percent >= _wishlist.min_discount_percent)
+    AND (
+      _wishlist.max_distance_km IS NULL
+      OR public.haversine_km(
+        _wishlist.origin_latitude::double precision, _wishlist.origin_longitude::double precision,
+        _shop_lat::double precision, _shop_lng::double precision
+      ) <= _wishlist.max_distance_km
+    )
+    -- Without a price target only discounted batches are worth an alert
+    AND (_wishlist.target_price IS NOT NULL OR _discount_percent > 0);
+$$;
+
+-- Replaces notify_wishlist_discount, which only saw discount increases on existing batches.
+-- Alerts on new batches, restocks and price drops that newly meet the customer's targets,
+-- at most one wishlist alert per customer and product per day.
+CREATE OR REPLACE FUNCTION public.notify_wishlist_batch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shop public.shops%ROWTYPE;
+  _product_name TEXT;
+  _new_price NUMERIC;
+  _old_price NUMERIC;
+  _event TEXT;
+BEGIN
+  IF NEW.status <> 'active' OR NEW.quantity <= 0 OR NEW.expiry_date < CURRENT_DATE THEN
+    RETURN NEW;
+  END IF;
+
+  _new_price := ROUND(NEW.mrp * (1 - NEW.discount_percent / 100), 2);
+
+  IF TG_OP = 'INSERT' THEN
+    _event := 'new';
+  ELSIF OLD.status <> 'active' OR OLD.quantity <= 0 THEN
+    _event := 'restock';
+  ELSE
+    _old_price := ROUND(OLD.mrp * (1 - OLD.discount_percent / 100), 2);
+    IF _new_price >= _old_price AND NEW.discount_percent <= OLD.discount_percent THEN
+      RETURN NEW;
+    END IF;
+    _event := 'drop';
+  END IF;
+
+  SELECT * INTO _shop FROM public.shops WHERE id = NEW.shop_id;
+  IF _shop.verification_status <> 'verified' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO _product_name FROM public.products WHERE id = NEW.product_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_product_id, related_batch_id)
+  SELECT
+    w.customer_id,
+    CASE _event
+      WHEN 'new' THEN 'New Deal on Your Wishlist'
+      WHEN 'restock' THEN 'Back in Stock'
+      ELSE 'Price Drop Alert!'
+    END,
+    _product_name
+      || CASE _event
+        WHEN 'new' THEN ' is now available at '
+        WHEN 'restock' THEN ' is back in stock at '
+        ELSE ' dropped in price at '
+      END
+      || _shop.name || ': ₹' || to_char(_new_price, 'FM999999990.00')
+      || CASE WHEN NEW.discount_percent > 0 THEN ' (' || NEW.discount_percent || '% off)' ELSE '' END,
+    'wishlist',
+    NEW.product_id,
+    NEW.id
+  FROM public.wishlists w
+  WHERE w.product_id = NEW.product_id
+    AND public.wishlist_target_met(w, _new_price, NEW.discount_percent, _shop.latitude, _shop.longitude)
+    -- A price drop only counts when it crosses the threshold, unless the customer set none
+    AND (
+      _event <> 'drop'
+      OR (w.target_price IS NULL AND w.min_discount_percent IS NULL)
+      OR NOT public.wishlist_target_met(w, _old_price, OLD.discount_percent, _shop.latitude, _shop.longitude)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = w.customer_id
+        AND n.related_product_id = NEW.product_id
+        AND n.type IN ('wishlist', 'discount')
+        AND n.created_at > now() - INTERVAL '1 day'
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_discount_to_wishlist ON public.inventory_batches;
+DROP FUNCTION IF EXISTS public.notify_wishlist_discount();
+
+CREATE TRIGGER notify_wishlist_on_batch_change
+  AFTER INSERT OR UPDATE OF quantity, status, mrp, discount_percent ON public.inventory_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_wishlist_batch();
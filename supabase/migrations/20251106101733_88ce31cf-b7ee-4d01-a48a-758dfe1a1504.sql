@@ -0,0 +1,365 @@
+-- Reviews: only buyers may review, shops can reply, and ratings are aggregated for display and sorting
+ALTER TABLE public.reviews
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN shop_reply TEXT CHECK (char_length(shop_reply) <= 1000),
+  ADD COLUMN shop_replied_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT reviews_comment_length_check CHECK (char_length(comment) <= 1000);
+
+CREATE TRIGGER update_reviews_updated_at
+  BEFORE UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_reviews_shop ON public.reviews(shop_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_product ON public.reviews(product_id);
+
+-- Customers can only review a product they bought from that shop
+DROP POLICY IF EXISTS "Users can create reviews" ON public.reviews;
+CREATE POLICY "Customers can review products they bought" ON public.reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = customer_id
+    AND EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.customer_id = auth.uid()
+        AND t.shop_id = reviews.shop_id
+        AND t.product_id = reviews.product_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update their own reviews" ON public.reviews;
+CREATE POLICY "Users can update their own reviews" ON public.reviews
+  FOR UPDATE USING (auth.uid() = customer_id) WITH CHECK (auth.uid() = customer_id);
+
+-- Customers edit their rating and comment only; the reply belongs to the shop
+CREATE OR REPLACE FUNCTION public.protect_review_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.product_id := OLD.product_id;
+  NEW.shop_id := OLD.shop_id;
+  NEW.customer_id := OLD.customer_id;
+
+  IF current_setting('clearshelf.review_reply', true) IS DISTINCT FROM 'on' THEN
+    NEW.shop_reply := OLD.shop_reply;
+    NEW.shop_replied_at := OLD.shop_replied_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_review_columns
+  BEFORE UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_columns();
+
+-- Shop owners reply to reviews of their shop. An empty reply removes it.
+CREATE OR REPLACE FUNCTION public.reply_to_review(_review_id UUID, _reply TEXT)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review public.reviews%ROWTYPE;
+BEGIN
+  SELECT r.* INTO _review
+  FROM public.reviews r
+  JOIN public.shops s ON s.id = r.shop_id
+  WHERE r.id = _review_id AND s.owner_id = auth.uid();
+
+  IF _review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  PERFORM set_config('clearshelf.review_reply', 'on', true);
+
+  UPDATE public.reviews
+  SET
+    shop_reply = NULLIF(btrim(_reply), ''),
+    shop_replied_at = CASE WHEN NULLIF(btrim(_reply), '') IS NULL THEN NULL ELSE now() END
+  WHERE id = _review_id
+  RETURNING * INTO _review;
+
+  PERFORM set_config('clearshelf.review_reply', 'off', true);
+
+  RETURN _review;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) FROM PUBLIC, anon;
+
+-- Let the customer know the shop answered
+CREATE OR REPLACE FUNCTION public.notify_review_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shop_reply IS NOT NULL AND NEW.shop_reply IS DISTINCT FROM OLD.shop_reply THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_product_id)
+    SELECT
+      NEW.customer_id,
+      'The shop replied to your review',
+      s.name || ': ' || left(NEW.shop_reply, 140),
+      'review',
+      NEW.product_id
+    FROM public.shops s
+    WHERE s.id = NEW.shop_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_review_reply
+  AFTER UPDATE OF shop_reply ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_review_reply();
+
+CREATE OR REPLACE VIEW public.shop_ratings
+WITH (security_invoker = true) AS
+SELECT
+  shop_id,
+  COUNT(*) AS review_count,
+  ROUND(AVG(rating), 1) AS average_rating
+FROM public.reviews
+GROUP BY shop_id;
+
+CREATE OR REPLACE VIEW public.product_ratings
+WITH (security_invoker = true) AS
+SELECT
+  product_id,
+  COUNT(*) AS review_count,
+  ROUND(AVG(rating), 1) AS average_rating
+FROM public.reviews
+GROUP BY product_id;
+
+GRANT SELECT ON public.shop_ratings TO authenticated, anon;
+GRANT SELECT ON public.product_ratings TO authenticated, anon;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reviews;
+
+-- Search rows gain ratings and a 'rating' sort; the return types change, so recreate them
+DROP FUNCTION IF EXISTS public.search_deal_facets(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[]);
+DROP FUNCTION IF EXISTS public.search_deals(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, NUMERIC, NUMERIC, BOOLEAN, TEXT[], TEXT, DOUBLE PRECISION, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.match_deals(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[]);
+
+-- Active deals matching the text query near the caller, with dietary tags and ratings. Products that
+-- conflict with _dietary (a customer's dietary_preferences) are left out.
+CREATE OR REPLACE FUNCTION public.match_deals(
+  _query TEXT DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _dietary TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  shop_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  final_price NUMERIC,
+  expiry_date DATE,
+  product_name TEXT,
+  brand TEXT,
+  category TEXT,
+  diet public.diet_type,
+  allergens TEXT[],
+  shop_name TEXT,
+  shop_address TEXT,
+  shop_is_open BOOLEAN,
+  product_rating NUMERIC,
+  product_review_count BIGINT,
+  shop_rating NUMERIC,
+  distance_km DOUBLE PRECISION,
+  relevance REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      NULLIF(btrim(_query), '') AS term,
+      websearch_to_tsquery('english', coalesce(_query, '')) AS ts
+  )
+  SELECT
+    b.id,
+    b.product_id,
+    b.shop_id,
+    b.quantity,
+    b.mrp,
+    b.discount_percent,
+    ROUND(b.mrp * (1 - b.discount_percent / 100), 2),
+    b.expiry_date,
+    p.name,
+    p.brand,
+    p.category,
+    p.diet,
+    p.allergens,
+    s.name,
+    s.address,
+    coalesce(s.is_open, false),
+    pr.average_rating,
+    coalesce(pr.review_count, 0),
+    sr.average_rating,
+    CASE WHEN _lat IS NOT NULL AND _lng IS NOT NULL
+      THEN public.haversine_km(_lat, _lng, s.latitude::double precision, s.longitude::double precision)
+    END,
+    CASE WHEN q.term IS NULL THEN 0
+      ELSE ts_rank(p.search_vector, q.ts)
+        + GREATEST(word_similarity(q.term, p.name), word_similarity(q.term, coalesce(p.brand, '')))
+    END::REAL
+  FROM q, public.inventory_batches b
+  JOIN public.products p ON p.id = b.product_id
+  JOIN public.shops s ON s.id = b.shop_id
+  LEFT JOIN public.product_ratings pr ON pr.product_id = b.product_id
+  LEFT JOIN public.shop_ratings sr ON sr.shop_id = b.shop_id
+  WHERE b.status = 'active'
+    AND b.quantity > 0
+    AND b.expiry_date >= CURRENT_DATE
+    AND s.verification_status = 'verified'
+    AND public.within_radius(_lat, _lng, _radius_km, s.latitude, s.longitude)
+    AND (_dietary IS NULL OR public.product_fits_diet(_dietary, p.diet, p.allergens))
+    AND (
+      q.term IS NULL
+      OR p.search_vector @@ q.ts
+      OR q.term <% p.name
+      OR q.term <% coalesce(p.brand, '')
+    );
+$$;
+
+-- One page of deals. Rows are ordered by (sort_key, batch_id); pass the last row's pair back
+-- as _after_key/_after_id to fetch the next page.
+CREATE OR REPLACE FUNCTION public.search_deals(
+  _query TEXT DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _categories TEXT[] DEFAULT NULL,
+  _brands TEXT[] DEFAULT NULL,
+  _min_discount NUMERIC DEFAULT NULL,
+  _max_discount NUMERIC DEFAULT NULL,
+  _max_days_to_expiry INTEGER DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _open_now BOOLEAN DEFAULT false,
+  _dietary TEXT[] DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _after_key DOUBLE PRECISION DEFAULT NULL,
+  _after_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  batch_id UUID,
+  product_id UUID,
+  shop_id UUID,
+  quantity INTEGER,
+  mrp NUMERIC,
+  discount_percent NUMERIC,
+  final_price NUMERIC,
+  expiry_date DATE,
+  product_name TEXT,
+  brand TEXT,
+  category TEXT,
+  diet public.diet_type,
+  allergens TEXT[],
+  shop_name TEXT,
+  shop_address TEXT,
+  shop_is_open BOOLEAN,
+  product_rating NUMERIC,
+  product_review_count BIGINT,
+  shop_rating NUMERIC,
+  distance_km DOUBLE PRECISION,
+  sort_key DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      d.batch_id,
+      d.product_id,
+      d.shop_id,
+      d.quantity,
+      d.mrp,
+      d.discount_percent,
+      d.final_price,
+      d.expiry_date,
+      d.product_name,
+      d.brand,
+      d.category,
+      d.diet,
+      d.allergens,
+      d.shop_name,
+      d.shop_address,
+      d.shop_is_open,
+      d.product_rating,
+      d.product_review_count,
+      d.shop_rating,
+      d.distance_km,
+      -- Ascending key for every sort so one keyset condition serves them all
+      (CASE _sort
+        WHEN 'distance' THEN coalesce(d.distance_km, 1e9)
+        WHEN 'expiry' THEN (d.expiry_date - CURRENT_DATE)::double precision
+        WHEN 'price' THEN d.final_price::double precision
+        WHEN 'discount' THEN -d.discount_percent::double precision
+        -- Product rating first, the shop's rating breaking ties; unrated sorts last
+        WHEN 'rating' THEN -(coalesce(d.product_rating, 0) * 10 + coalesce(d.shop_rating, 0))::double precision
+        ELSE -(d.relevance * 1000 + d.discount_percent)::double precision
+      END) AS sort_key
+    FROM public.match_deals(_query, _lat, _lng, _radius_km, _dietary) d
+    WHERE (_categories IS NULL OR d.category = ANY(_categories))
+      AND (_brands IS NULL OR d.brand = ANY(_brands))
+      AND (_min_discount IS NULL OR d.discount_percent >= _min_discount)
+      AND (_max_discount IS NULL OR d.discount_percent <= _max_discount)
+      AND (_max_days_to_expiry IS NULL OR d.expiry_date <= CURRENT_DATE + _max_days_to_expiry)
+      AND (_min_price IS NULL OR d.final_price >= _min_price)
+      AND (_max_price IS NULL OR d.final_price <= _max_price)
+      AND (NOT coalesce(_open_now, false) OR d.shop_is_open)
+  ) AS deals
+  WHERE _after_key IS NULL
+    OR (deals.sort_key, deals.batch_id) > (_after_key, _after_id)
+  ORDER BY deals.sort_key, deals.batch_id
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+-- Category and brand counts for the current text query and area, to populate the filter UI
+CREATE OR REPLACE FUNCTION public.search_deal_facets(
+  _query TEXT DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _dietary TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  deal_count BIGINT,
+  max_price NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 'category', d.category, COUNT(*), MAX(d.final_price)
+  FROM public.match_deals(_query, _lat, _lng, _radius_km, _dietary) d
+  GROUP BY d.category
+  UNION ALL
+  SELECT 'brand', d.brand, COUNT(*), MAX(d.final_price)
+  FROM public.match_deals(_query, _lat, _lng, _radius_km, _dietary) d
+  WHERE d.brand IS NOT NULL
+  GROUP BY d.brand
+  ORDER BY 1, 3 DESC, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_deals(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_deals(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, NUMERIC, NUMERIC, BOOLEAN, TEXT[], TEXT, DOUBLE PRECISION, UUID, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_deal_facets(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT[]) TO anon, authenticated;
@@ -0,0 +1,128 @@
+-- Customer complaint filing: photo evidence, tighter insert rules and status notifications
+
+-- Length checks apply to new complaints; older rows are left as filed.
+-- Evidence photos live in storage under <customer_id>/...; the complaint keeps their paths
+ALTER TABLE public.complaints
+  ADD COLUMN evidence_paths TEXT[] NOT NULL DEFAULT '{}',
+  ADD CONSTRAINT complaints_evidence_paths_check CHECK (cardinality(evidence_paths) <= 5),
+  ADD CONSTRAINT complaints_title_length_check CHECK (char_length(title) BETWEEN 5 AND 120) NOT VALID,
+  ADD CONSTRAINT complaints_description_length_check CHECK (char_length(description) BETWEEN 20 AND 2000) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_complaints_customer ON public.complaints(customer_id, created_at DESC);
+
+-- Customers file new complaints only; status, assignment and resolution belong to admins.
+-- Evidence must point into the customer's own storage folder.
+DROP POLICY IF EXISTS "Customers can insert their own complaints" ON public.complaints;
+CREATE POLICY "Customers can insert their own complaints"
+ON public.complaints
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = customer_id
+  AND status = 'pending'
+  AND resolution_note IS NULL
+  AND resolved_at IS NULL
+  AND assigned_admin_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM unnest(evidence_paths) AS path
+    WHERE split_part(path, '/', 1) <> auth.uid()::text
+  )
+);
+
+-- Private bucket: evidence can show faces, receipts and addresses
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('complaint-evidence', 'complaint-evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Customers can upload complaint evidence"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'complaint-evidence'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Customers can view their complaint evidence"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'complaint-evidence'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Customers can delete their complaint evidence"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'complaint-evidence'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Admins can view complaint evidence"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'complaint-evidence'
+    AND has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Tell the customer when their complaint moves or the admin adds a note
+CREATE OR REPLACE FUNCTION public.notify_complaint_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     OR OLD.resolution_note IS DISTINCT FROM NEW.resolution_note THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_product_id)
+    VALUES (
+      NEW.customer_id,
+      'Complaint update',
+      '"' || NEW.title || '" is now ' || replace(NEW.status::text, '_', ' ')
+        || COALESCE('. ' || NEW.resolution_note, '.'),
+      'complaint',
+      NEW.product_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_complaint_update ON public.complaints;
+CREATE TRIGGER trigger_notify_complaint_update
+  AFTER UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_complaint_update();
+
+-- Let admins know a new complaint is waiting
+CREATE OR REPLACE FUNCTION public.notify_admins_new_complaint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, title, message, type, related_product_id)
+  SELECT
+    ur.user_id,
+    'New Complaint',
+    'A customer reported "' || NEW.title || '".',
+    'complaint',
+    NEW.product_id
+  FROM public.user_roles ur
+  WHERE ur.role = 'admin';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_admins_new_complaint ON public.complaints;
+CREATE TRIGGER trigger_notify_admins_new_complaint
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_admins_new_complaint();
+
+REVOKE EXECUTE ON FUNCTION public.notify_complaint_update() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_admins_new_complaint() FROM PUBLIC, anon, authenticated;
+
+-- Customers track their complaints live, and the admin list patches in new ones
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaints;
@@ -0,0 +1,158 @@
+-- Complaint conversations between the customer, the shop being complained about and admins
+
+CREATE TABLE public.complaint_messages (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  sender_role TEXT NOT NULL CHECK (sender_role IN ('customer', 'shop', 'admin')),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_messages_complaint ON public.complaint_messages(complaint_id, created_at);
+
+ALTER TABLE public.complaint_messages ENABLE ROW LEVEL SECURITY;
+
+-- The side a user speaks for on a complaint, or NULL when they are not part of it
+CREATE OR REPLACE FUNCTION public.complaint_participant_role(_complaint_id UUID, _user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN c.customer_id = _user_id THEN 'customer'
+    WHEN EXISTS (SELECT 1 FROM public.shops s WHERE s.id = c.shop_id AND s.owner_id = _user_id) THEN 'shop'
+    WHEN has_role(_user_id, 'admin'::app_role) THEN 'admin'
+  END
+  FROM public.complaints c
+  WHERE c.id = _complaint_id
+$$;
+
+CREATE POLICY "Participants can view complaint messages"
+ON public.complaint_messages
+FOR SELECT
+TO authenticated
+USING (complaint_participant_role(complaint_id, auth.uid()) IS NOT NULL);
+
+-- Messages are posted under the sender's own role, and only while the complaint is open
+CREATE POLICY "Participants can post complaint messages"
+ON public.complaint_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  sender_id = auth.uid()
+  AND sender_role = complaint_participant_role(complaint_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = complaint_id AND c.status IN ('pending', 'in_progress')
+  )
+);
+
+-- Shops can see what they are accused of, including the customer's photos
+CREATE POLICY "Shop owners can view complaints about their shop"
+ON public.complaints
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.shops s WHERE s.id = shop_id AND s.owner_id = auth.uid()));
+
+CREATE POLICY "Shop owners can view complaint evidence about their shop"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'complaint-evidence'
+    AND EXISTS (
+      SELECT 1
+      FROM public.complaints c
+      JOIN public.shops s ON s.id = c.shop_id
+      WHERE s.owner_id = auth.uid() AND storage.objects.name = ANY(c.evidence_paths)
+    )
+  );
+
+-- Every other participant hears about a new message: the customer, the shop owner, and the
+-- assigned admin (or all admins while nobody has picked the complaint up)
+CREATE OR REPLACE FUNCTION public.notify_complaint_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _shop_owner UUID;
+  _sender_label TEXT;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = NEW.complaint_id;
+  SELECT owner_id INTO _shop_owner FROM public.shops WHERE id = _complaint.shop_id;
+
+  _sender_label := CASE NEW.sender_role
+    WHEN 'customer' THEN 'The customer'
+    WHEN 'shop' THEN 'The shop'
+    ELSE 'ClearShelf support'
+  END;
+
+  INSERT INTO public.notifications (user_id, title, message, type, related_product_id)
+  SELECT
+    recipient,
+    'New message on a complaint',
+    _sender_label || ' replied on "' || _complaint.title || '": ' || left(NEW.body, 140),
+    'complaint',
+    _complaint.product_id
+  FROM (
+    SELECT _complaint.customer_id AS recipient WHERE NEW.sender_role <> 'customer'
+    UNION
+    SELECT _shop_owner WHERE _shop_owner IS NOT NULL AND NEW.sender_role <> 'shop'
+    UNION
+    SELECT _complaint.assigned_admin_id
+    WHERE _complaint.assigned_admin_id IS NOT NULL AND NEW.sender_role <> 'admin'
+    UNION
+    SELECT ur.user_id FROM public.user_roles ur
+    WHERE ur.role = 'admin' AND _complaint.assigned_admin_id IS NULL AND NEW.sender_role <> 'admin'
+  ) recipients
+  WHERE recipient <> NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_notify_complaint_message
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_complaint_message();
+
+-- Tell the shop owner as soon as a complaint names their shop
+CREATE OR REPLACE FUNCTION public.notify_shop_owner_new_complaint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.shop_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, title, message, type, related_product_id)
+    SELECT
+      s.owner_id,
+      'A customer reported a problem',
+      '"' || NEW.title || '" was filed against ' || s.name || '. You can respond from your dashboard.',
+      'complaint',
+      NEW.product_id
+    FROM public.shops s
+    WHERE s.id = NEW.shop_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_shop_owner_new_complaint ON public.complaints;
+CREATE TRIGGER trigger_notify_shop_owner_new_complaint
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_shop_owner_new_complaint();
+
+REVOKE EXECUTE ON FUNCTION public.notify_complaint_message() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_shop_owner_new_complaint() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complaint_participant_role(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complaint_participant_role(UUID, UUID) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaint_messages;
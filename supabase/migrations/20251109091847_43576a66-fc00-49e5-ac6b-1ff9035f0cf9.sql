@@ -0,0 +1,266 @@
+-- Complaint workflow: assignment, validated status transitions, SLA due dates and escalation
+
+ALTER TABLE public.complaints
+  ADD COLUMN due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_complaints_open_due ON public.complaints(due_at)
+  WHERE status IN ('pending', 'in_progress');
+CREATE INDEX IF NOT EXISTS idx_complaints_assigned ON public.complaints(assigned_admin_id);
+
+-- The SLA from system settings, falling back to a week if the setting is missing or malformed
+CREATE OR REPLACE FUNCTION public.complaint_resolution_days()
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+BEGIN
+  SELECT (setting_value #>> '{}')::INTEGER INTO _days
+  FROM public.system_settings
+  WHERE setting_key = 'max_complaint_resolution_days';
+
+  RETURN GREATEST(COALESCE(_days, 7), 1);
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN 7;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_complaint_due_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.due_at := NEW.created_at + make_interval(days => public.complaint_resolution_days());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_complaint_due_at
+  BEFORE INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_complaint_due_at();
+
+UPDATE public.complaints
+SET due_at = created_at + make_interval(days => public.complaint_resolution_days())
+WHERE due_at IS NULL;
+
+ALTER TABLE public.complaints ALTER COLUMN due_at SET NOT NULL;
+
+-- pending -> in_progress -> resolved, with rejection possible from either open state.
+-- Closing needs a note the customer can read; the assignee must be an admin.
+CREATE OR REPLACE FUNCTION public.validate_complaint_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_admin_id IS DISTINCT FROM OLD.assigned_admin_id
+     AND NEW.assigned_admin_id IS NOT NULL
+     AND NOT has_role(NEW.assigned_admin_id, 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Complaints can only be assigned to admins';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('in_progress', 'rejected'))
+      OR (OLD.status = 'in_progress' AND NEW.status IN ('resolved', 'rejected'))
+    ) THEN
+      RAISE EXCEPTION 'Cannot move a complaint from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status IN ('resolved', 'rejected') THEN
+      IF char_length(btrim(COALESCE(NEW.resolution_note, ''))) < 10 THEN
+        RAISE EXCEPTION 'A resolution note of at least 10 characters is required';
+      END IF;
+      NEW.resolved_at := now();
+    END IF;
+
+    -- Whoever starts work on an unassigned complaint owns it
+    IF NEW.status = 'in_progress' AND NEW.assigned_admin_id IS NULL
+       AND has_role(auth.uid(), 'admin'::app_role) THEN
+      NEW.assigned_admin_id := auth.uid();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_complaint_update
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_complaint_update();
+
+-- Admin actions go through these so they are checked and logged in one place
+CREATE OR REPLACE FUNCTION public.assign_complaint(_complaint_id UUID, _admin_id UUID)
+RETURNS public.complaints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can assign complaints';
+  END IF;
+
+  UPDATE public.complaints
+  SET assigned_admin_id = _admin_id
+  WHERE id = _complaint_id
+  RETURNING * INTO _complaint;
+
+  IF _complaint.id IS NULL THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  INSERT INTO public.admin_activity_logs (admin_id, action_type, target_type, target_id, details)
+  VALUES (auth.uid(), 'complaint_assigned', 'complaint', _complaint_id, jsonb_build_object('assigned_admin_id', _admin_id));
+
+  IF _admin_id IS NOT NULL AND _admin_id <> auth.uid() THEN
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _admin_id,
+      'Complaint assigned to you',
+      '"' || _complaint.title || '" is due ' || to_char(_complaint.due_at, 'DD Mon YYYY') || '.',
+      'complaint'
+    );
+  END IF;
+
+  RETURN _complaint;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_complaint_status(
+  _complaint_id UUID,
+  _status complaint_status,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.complaints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can change complaint status';
+  END IF;
+
+  UPDATE public.complaints
+  SET
+    status = _status,
+    resolution_note = COALESCE(NULLIF(btrim(_note), ''), resolution_note)
+  WHERE id = _complaint_id
+  RETURNING * INTO _complaint;
+
+  IF _complaint.id IS NULL THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  INSERT INTO public.admin_activity_logs (admin_id, action_type, target_type, target_id, details)
+  VALUES (auth.uid(), 'complaint_' || _status::text, 'complaint', _complaint_id, jsonb_build_object('status', _status));
+
+  RETURN _complaint;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_complaint(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_complaint_status(UUID, complaint_status, TEXT) FROM PUBLIC, anon;
+
+-- Raise overdue complaints once: to the assignee, or to every admin while nobody owns it
+CREATE OR REPLACE FUNCTION public.escalate_overdue_complaints()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  WITH overdue AS (
+    UPDATE public.complaints
+    SET escalated_at = now()
+    WHERE status IN ('pending', 'in_progress')
+      AND due_at < now()
+      AND escalated_at IS NULL
+    RETURNING id, title, due_at, assigned_admin_id
+  ),
+  notified AS (
+    INSERT INTO public.notifications (user_id, title, message, type)
+    SELECT
+      recipient.user_id,
+      'Complaint overdue',
+      '"' || o.title || '" passed its resolution deadline of ' || to_char(o.due_at, 'DD Mon YYYY') || '.',
+      'complaint_escalation'
+    FROM overdue o
+    CROSS JOIN LATERAL (
+      SELECT o.assigned_admin_id AS user_id WHERE o.assigned_admin_id IS NOT NULL
+      UNION
+      SELECT ur.user_id FROM public.user_roles ur
+      WHERE ur.role = 'admin' AND o.assigned_admin_id IS NULL
+    ) recipient
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO _count FROM overdue;
+
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_complaints() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.unschedule('escalate-overdue-complaints')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'escalate-overdue-complaints');
+
+SELECT cron.schedule('escalate-overdue-complaints', '0 * * * *', $$SELECT public.escalate_overdue_complaints()$$);
+
+-- Per-admin load for the complaints dashboard; every admin is listed, even with nothing assigned
+CREATE OR REPLACE FUNCTION public.complaint_workload()
+RETURNS TABLE (
+  admin_id UUID,
+  admin_name TEXT,
+  open_count BIGINT,
+  overdue_count BIGINT,
+  resolved_last_30_days BIGINT,
+  avg_resolution_hours NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view complaint workload';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ur.user_id,
+    p.name,
+    COUNT(c.id) FILTER (WHERE c.status IN ('pending', 'in_progress')),
+    COUNT(c.id) FILTER (WHERE c.status IN ('pending', 'in_progress') AND c.due_at < now()),
+    COUNT(c.id) FILTER (WHERE c.status IN ('resolved', 'rejected') AND c.resolved_at > now() - INTERVAL '30 days'),
+    ROUND(
+      (AVG(EXTRACT(EPOCH FROM (c.resolved_at - c.created_at)) / 3600)
+        FILTER (WHERE c.status IN ('resolved', 'rejected')))::NUMERIC,
+      1
+    )
+  FROM public.user_roles ur
+  JOIN public.profiles p ON p.id = ur.user_id
+  LEFT JOIN public.complaints c ON c.assigned_admin_id = ur.user_id
+  WHERE ur.role = 'admin'
+  GROUP BY ur.user_id, p.name
+  ORDER BY p.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complaint_workload() FROM PUBLIC, anon;
@@ -0,0 +1,68 @@
+-- Announcement banners: editable schedules, per-user dismissal and a single query for what to show
+
+ALTER TABLE public.announcement_banners
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD CONSTRAINT announcement_banners_target_roles_check
+    CHECK (cardinality(target_roles) > 0 AND target_roles <@ ARRAY['all', 'customer', 'shopkeeper', 'admin']),
+  ADD CONSTRAINT announcement_banners_schedule_check
+    CHECK (start_date IS NULL OR end_date IS NULL OR end_date > start_date),
+  ADD CONSTRAINT announcement_banners_title_length_check CHECK (char_length(title) BETWEEN 1 AND 100) NOT VALID,
+  ADD CONSTRAINT announcement_banners_message_length_check CHECK (char_length(message) BETWEEN 1 AND 500) NOT VALID;
+
+CREATE TRIGGER update_announcement_banners_updated_at
+  BEFORE UPDATE ON public.announcement_banners
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.banner_dismissals (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  banner_id UUID NOT NULL REFERENCES public.announcement_banners(id) ON DELETE CASCADE,
+  dismissed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, banner_id)
+);
+
+ALTER TABLE public.banner_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their banner dismissals"
+ON public.banner_dismissals
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can dismiss banners"
+ON public.banner_dismissals
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+-- Live, undismissed banners for the caller. Admins can read every banner through RLS, so the
+-- role and schedule filters are applied here explicitly rather than left to the policies.
+CREATE OR REPLACE FUNCTION public.active_banners()
+RETURNS SETOF public.announcement_banners
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.*
+  FROM public.announcement_banners b
+  WHERE b.active
+    AND (b.start_date IS NULL OR b.start_date <= now())
+    AND (b.end_date IS NULL OR b.end_date >= now())
+    AND (
+      'all' = ANY(b.target_roles)
+      OR (SELECT role::text FROM public.profiles WHERE id = auth.uid()) = ANY(b.target_roles)
+      OR ('admin' = ANY(b.target_roles) AND has_role(auth.uid(), 'admin'::app_role))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.banner_dismissals d
+      WHERE d.banner_id = b.id AND d.user_id = auth.uid()
+    )
+  ORDER BY
+    CASE b.type WHEN 'error' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END,
+    b.created_at DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.active_banners() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.active_banners() TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.announcement_banners;
@@ -0,0 +1,99 @@
+-- Maintenance mode: a platform switch that freezes customer and shopkeeper writes.
+-- Admins keep full access, and scheduled jobs (no auth.uid()) keep running so
+-- reservations still expire and discounts still roll over.
+
+INSERT INTO public.system_settings (setting_key, setting_value, description) VALUES
+('maintenance_mode', 'false', 'Block customer and shopkeeper activity while the platform is being maintained'),
+('enable_notifications', 'true', 'Send notifications for discounts and updates')
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- Read a boolean setting. Accepts both the raw seed shape ('true') and the
+-- { "value": true } shape written by the admin settings page.
+CREATE OR REPLACE FUNCTION public.setting_boolean(_key TEXT, _default BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN jsonb_typeof(setting_value) = 'object' THEN (setting_value->>'value')::boolean
+        ELSE (setting_value #>> '{}')::boolean
+      END
+      FROM public.system_settings
+      WHERE setting_key = _key
+    ),
+    _default
+  )
+$$;
+
+-- system_settings is admin-only under RLS, so everyone else asks through here
+CREATE OR REPLACE FUNCTION public.is_maintenance_mode()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.setting_boolean('maintenance_mode', false)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_maintenance_mode() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_maintenance_mode()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND public.is_maintenance_mode()
+     AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'ClearShelf is down for maintenance. Please try again shortly.'
+      USING ERRCODE = '55000';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_maintenance_mode() FROM PUBLIC, anon, authenticated;
+
+-- Statement-level so bulk writes (checkout, CSV imports) check the flag once
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.products
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
+
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.inventory_batches
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
+
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
+
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.bills
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
+
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.orders
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
+
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.cart_items
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
+
+CREATE TRIGGER enforce_maintenance_mode
+BEFORE INSERT OR UPDATE OR DELETE ON public.reviews
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_maintenance_mode();
@@ -0,0 +1,141 @@
+-- Typed runtime configuration: one storage shape for setting values, public
+-- read access for the keys clients need, and an audited change history with rollback.
+
+-- Values are stored raw ('30', 'true', '[...]'), the shape the seeds and SQL readers
+-- use. The admin page used to write { "value": ... }; unwrap what it left behind.
+UPDATE public.system_settings
+SET setting_value = setting_value->'value'
+WHERE jsonb_typeof(setting_value) = 'object' AND setting_value ? 'value';
+
+-- Keep older clients from reintroducing the wrapped shape
+CREATE OR REPLACE FUNCTION public.normalize_setting_value()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(NEW.setting_value) = 'object' AND NEW.setting_value ? 'value' THEN
+    NEW.setting_value := NEW.setting_value->'value';
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_setting_value
+BEFORE INSERT OR UPDATE ON public.system_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_setting_value();
+
+-- Settings the storefront and shop dashboards read directly
+ALTER TABLE public.system_settings
+  ADD COLUMN is_public BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.system_settings
+SET is_public = true
+WHERE setting_key IN (
+  'maintenance_mode',
+  'discount_threshold_days',
+  'min_discount_percent',
+  'max_discount_percent',
+  'discount_tiers',
+  'reservation_hold_minutes',
+  'max_complaint_resolution_days'
+);
+
+CREATE POLICY "Anyone can view public settings"
+ON public.system_settings
+FOR SELECT
+TO anon, authenticated
+USING (is_public);
+
+-- Change history. old_value is NULL for the change that created the setting.
+CREATE TABLE public.system_setting_history (
+  id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+  setting_key TEXT NOT NULL REFERENCES public.system_settings(setting_key) ON DELETE CASCADE,
+  old_value JSONB,
+  new_value JSONB NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  rolled_back_from UUID REFERENCES public.system_setting_history(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_system_setting_history_key ON public.system_setting_history(setting_key, changed_at DESC);
+
+ALTER TABLE public.system_setting_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view setting history"
+ON public.system_setting_history
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE OR REPLACE FUNCTION public.record_setting_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Saving the whole settings form rewrites unchanged keys; only log real changes
+  IF TG_OP = 'UPDATE' AND NEW.setting_value IS NOT DISTINCT FROM OLD.setting_value THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.system_setting_history (setting_key, old_value, new_value, changed_by, rolled_back_from)
+  VALUES (
+    NEW.setting_key,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.setting_value END,
+    NEW.setting_value,
+    COALESCE(auth.uid(), NEW.updated_by),
+    NULLIF(current_setting('clearshelf.setting_rollback', true), '')::UUID
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_setting_change
+AFTER INSERT OR UPDATE ON public.system_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.record_setting_change();
+
+-- Restore the value a setting had before the given change
+CREATE OR REPLACE FUNCTION public.rollback_setting(_history_id UUID)
+RETURNS public.system_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _change public.system_setting_history%ROWTYPE;
+  _setting public.system_settings%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can roll back settings' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _change FROM public.system_setting_history WHERE id = _history_id;
+
+  IF _change.id IS NULL THEN
+    RAISE EXCEPTION 'Change not found';
+  END IF;
+
+  IF _change.old_value IS NULL THEN
+    RAISE EXCEPTION 'This change created the setting, so there is no earlier value to restore';
+  END IF;
+
+  PERFORM set_config('clearshelf.setting_rollback', _change.id::TEXT, true);
+
+  UPDATE public.system_settings
+  SET setting_value = _change.old_value, updated_by = auth.uid()
+  WHERE setting_key = _change.setting_key
+  RETURNING * INTO _setting;
+
+  PERFORM set_config('clearshelf.setting_rollback', '', true);
+
+  RETURN _setting;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rollback_setting(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,327 @@
+-- Admin reports: a city on shops for regional filtering, and one set-returning
+-- function per report. They are only callable with the service role; the
+-- admin-reports edge function checks the caller and renders CSV / PDF.
+
+ALTER TABLE public.shops
+  ADD COLUMN city TEXT,
+  ADD CONSTRAINT shops_city_length_check CHECK (city IS NULL OR char_length(btrim(city)) BETWEEN 2 AND 80);
+
+CREATE INDEX idx_shops_city ON public.shops (lower(city));
+
+-- Shops registered before city was captured only have a free-text address to go on
+CREATE OR REPLACE FUNCTION public.shop_in_region(_city TEXT, _address TEXT, _region TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT NULLIF(btrim(_region), '') IS NULL
+    OR lower(btrim(_city)) = lower(btrim(_region))
+    OR (_city IS NULL AND _address ILIKE '%' || btrim(_region) || '%')
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_shop_verifications(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_name TEXT,
+  city TEXT,
+  address TEXT,
+  owner_name TEXT,
+  owner_phone TEXT,
+  gst_number TEXT,
+  status TEXT,
+  registered_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,
+  verified_by TEXT,
+  rejection_reason TEXT,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  suspension_reason TEXT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.name,
+    s.city,
+    s.address,
+    owner.name,
+    owner.phone,
+    s.gst_number,
+    s.verification_status::TEXT,
+    s.created_at,
+    s.verified_at,
+    verifier.name,
+    s.rejection_reason,
+    s.suspended_at,
+    s.suspension_reason
+  FROM public.shops s
+  JOIN public.profiles owner ON owner.id = s.owner_id
+  LEFT JOIN public.profiles verifier ON verifier.id = s.verified_by
+  WHERE ((s.created_at >= _from AND s.created_at < _to)
+      OR (s.verified_at >= _from AND s.verified_at < _to))
+    AND public.shop_in_region(s.city, s.address, _region)
+  ORDER BY s.created_at DESC
+$$;
+
+-- Users who signed up before the end of the range, with what they did inside it.
+-- With a region, customers count when they bought there and shopkeepers when they own a shop there.
+CREATE OR REPLACE FUNCTION public.report_user_activity(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  name TEXT,
+  email TEXT,
+  role TEXT,
+  status TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  last_login TIMESTAMP WITH TIME ZONE,
+  orders_placed BIGINT,
+  items_bought BIGINT,
+  amount_spent NUMERIC,
+  reviews_written BIGINT,
+  complaints_filed BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH region_shops AS (
+    SELECT id, owner_id
+    FROM public.shops
+    WHERE public.shop_in_region(city, address, _region)
+  ),
+  purchases AS (
+    SELECT t.customer_id, SUM(t.quantity) AS items, SUM(t.price * t.quantity) AS spent
+    FROM public.transactions t
+    JOIN region_shops rs ON rs.id = t.shop_id
+    WHERE t.customer_id IS NOT NULL AND t."timestamp" >= _from AND t."timestamp" < _to
+    GROUP BY t.customer_id
+  ),
+  placed AS (
+    SELECT o.customer_id, COUNT(*) AS orders
+    FROM public.orders o
+    JOIN region_shops rs ON rs.id = o.shop_id
+    WHERE o.created_at >= _from AND o.created_at < _to
+    GROUP BY o.customer_id
+  ),
+  reviewed AS (
+    SELECT r.customer_id, COUNT(*) AS reviews
+    FROM public.reviews r
+    WHERE r.created_at >= _from AND r.created_at < _to
+    GROUP BY r.customer_id
+  ),
+  filed AS (
+    SELECT c.customer_id, COUNT(*) AS complaints
+    FROM public.complaints c
+    WHERE c.created_at >= _from AND c.created_at < _to
+    GROUP BY c.customer_id
+  )
+  SELECT
+    p.name,
+    p.email,
+    p.role::TEXT,
+    p.status::TEXT,
+    p.created_at,
+    p.last_login,
+    COALESCE(placed.orders, 0),
+    COALESCE(purchases.items, 0),
+    COALESCE(purchases.spent, 0),
+    COALESCE(reviewed.reviews, 0),
+    COALESCE(filed.complaints, 0)
+  FROM public.profiles p
+  LEFT JOIN purchases ON purchases.customer_id = p.id
+  LEFT JOIN placed ON placed.customer_id = p.id
+  LEFT JOIN reviewed ON reviewed.customer_id = p.id
+  LEFT JOIN filed ON filed.customer_id = p.id
+  WHERE p.created_at < _to
+    AND (
+      NULLIF(btrim(_region), '') IS NULL
+      OR purchases.customer_id IS NOT NULL
+      OR placed.customer_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM region_shops rs WHERE rs.owner_id = p.id)
+    )
+  ORDER BY COALESCE(purchases.spent, 0) DESC, p.created_at DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_revenue_by_shop(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_name TEXT,
+  city TEXT,
+  bills BIGINT,
+  units_sold BIGINT,
+  revenue NUMERIC,
+  mrp_value NUMERIC,
+  customer_savings NUMERIC,
+  average_discount_percent NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.name,
+    s.city,
+    COUNT(DISTINCT t.bill_id),
+    SUM(t.quantity),
+    ROUND(SUM(t.price * t.quantity), 2),
+    ROUND(SUM(COALESCE(t.mrp, t.price) * t.quantity), 2),
+    ROUND(SUM((COALESCE(t.mrp, t.price) - t.price) * t.quantity), 2),
+    ROUND(SUM(COALESCE(t.discount_percent, 0) * t.quantity) / NULLIF(SUM(t.quantity), 0), 1)
+  FROM public.transactions t
+  JOIN public.shops s ON s.id = t.shop_id
+  WHERE t."timestamp" >= _from AND t."timestamp" < _to
+    AND public.shop_in_region(s.city, s.address, _region)
+  GROUP BY s.id, s.name, s.city
+  ORDER BY 5 DESC
+$$;
+
+-- Stock sold at a markdown counts as rescued; batches that expired in the range
+-- with units left on the shelf count as wasted.
+CREATE OR REPLACE FUNCTION public.report_waste_prevented(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_name TEXT,
+  city TEXT,
+  units_rescued BIGINT,
+  rescued_value NUMERIC,
+  customer_savings NUMERIC,
+  units_expired BIGINT,
+  expired_value NUMERIC,
+  rescue_rate_percent NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH rescued AS (
+    SELECT
+      t.shop_id,
+      SUM(t.quantity) AS units,
+      SUM(t.price * t.quantity) AS value,
+      SUM((COALESCE(t.mrp, t.price) - t.price) * t.quantity) AS savings
+    FROM public.transactions t
+    WHERE t."timestamp" >= _from AND t."timestamp" < _to
+      AND COALESCE(t.discount_percent, 0) > 0
+    GROUP BY t.shop_id
+  ),
+  expired AS (
+    SELECT b.shop_id, SUM(b.quantity) AS units, SUM(b.mrp * b.quantity) AS value
+    FROM public.inventory_batches b
+    WHERE b.status = 'expired' AND b.quantity > 0
+      AND b.expiry_date >= _from::DATE AND b.expiry_date < _to::DATE
+    GROUP BY b.shop_id
+  )
+  SELECT
+    s.name,
+    s.city,
+    COALESCE(r.units, 0),
+    ROUND(COALESCE(r.value, 0), 2),
+    ROUND(COALESCE(r.savings, 0), 2),
+    COALESCE(e.units, 0),
+    ROUND(COALESCE(e.value, 0), 2),
+    ROUND(100.0 * COALESCE(r.units, 0) / NULLIF(COALESCE(r.units, 0) + COALESCE(e.units, 0), 0), 1)
+  FROM public.shops s
+  LEFT JOIN rescued r ON r.shop_id = s.id
+  LEFT JOIN expired e ON e.shop_id = s.id
+  WHERE (r.shop_id IS NOT NULL OR e.shop_id IS NOT NULL)
+    AND public.shop_in_region(s.city, s.address, _region)
+  ORDER BY 3 DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_complaints(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  filed_at TIMESTAMP WITH TIME ZONE,
+  title TEXT,
+  category TEXT,
+  status TEXT,
+  shop_name TEXT,
+  city TEXT,
+  customer_name TEXT,
+  assigned_to TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_hours NUMERIC,
+  met_target BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.created_at,
+    c.title,
+    c.category::TEXT,
+    c.status::TEXT,
+    s.name,
+    s.city,
+    customer.name,
+    assignee.name,
+    c.due_at,
+    c.resolved_at,
+    ROUND((EXTRACT(EPOCH FROM (c.resolved_at - c.created_at)) / 3600)::NUMERIC, 1),
+    CASE
+      WHEN c.resolved_at IS NOT NULL THEN c.resolved_at <= c.due_at
+      WHEN c.due_at < now() THEN false
+    END
+  FROM public.complaints c
+  JOIN public.profiles customer ON customer.id = c.customer_id
+  LEFT JOIN public.profiles assignee ON assignee.id = c.assigned_admin_id
+  LEFT JOIN public.shops s ON s.id = c.shop_id
+  WHERE c.created_at >= _from AND c.created_at < _to
+    AND (NULLIF(btrim(_region), '') IS NULL OR public.shop_in_region(s.city, s.address, _region))
+  ORDER BY c.created_at DESC
+$$;
+
+-- Admin actions have no location, so the region filter does not apply
+CREATE OR REPLACE FUNCTION public.report_audit_logs(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  logged_at TIMESTAMP WITH TIME ZONE,
+  admin_name TEXT,
+  action_type TEXT,
+  target_type TEXT,
+  target_id TEXT,
+  details TEXT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.created_at, p.name, l.action_type, l.target_type, l.target_id::TEXT, l.details::TEXT
+  FROM public.admin_activity_logs l
+  LEFT JOIN public.profiles p ON p.id = l.admin_id
+  WHERE l.created_at >= _from AND l.created_at < _to
+  ORDER BY l.created_at DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.report_shop_verifications(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_user_activity(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_revenue_by_shop(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_waste_prevented(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_complaints(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_audit_logs(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.report_shop_verifications(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.report_user_activity(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.report_revenue_by_shop(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.report_waste_prevented(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.report_complaints(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.report_audit_logs(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
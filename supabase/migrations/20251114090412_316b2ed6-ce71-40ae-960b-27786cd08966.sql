@@ -0,0 +1,270 @@
+-- Admin dashboard analytics computed in the database. Every function takes a
+-- half-open [_from, _to) range plus optional city and product category filters
+-- and is only callable with the service role; the admin-analytics edge function
+-- checks the caller and asks for the selected and the previous period.
+
+-- Sales in range, narrowed to shops in the city and products in the category
+CREATE OR REPLACE FUNCTION public.analytics_sales(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_id UUID,
+  product_id UUID,
+  customer_id UUID,
+  quantity INTEGER,
+  revenue NUMERIC,
+  sold_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.shop_id, t.product_id, t.customer_id, t.quantity, t.price * t.quantity, t."timestamp"
+  FROM public.transactions t
+  JOIN public.shops s ON s.id = t.shop_id
+  JOIN public.products p ON p.id = t.product_id
+  WHERE t."timestamp" >= _from AND t."timestamp" < _to
+    AND public.shop_in_region(s.city, s.address, _city)
+    AND (NULLIF(btrim(_category), '') IS NULL OR lower(p.category) = lower(btrim(_category)))
+$$;
+
+-- Users who belong to a city: owners of a shop there and customers who have bought there.
+-- Without a city every profile counts.
+CREATE OR REPLACE FUNCTION public.analytics_region_users(_city TEXT, _before TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  user_id UUID,
+  role TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.id, p.role::TEXT, p.created_at
+  FROM public.profiles p
+  WHERE p.created_at < _before
+    AND (
+      NULLIF(btrim(_city), '') IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.shops s
+        WHERE s.owner_id = p.id AND public.shop_in_region(s.city, s.address, _city)
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.transactions t
+        JOIN public.shops s ON s.id = t.shop_id
+        WHERE t.customer_id = p.id
+          AND t."timestamp" < _before
+          AND public.shop_in_region(s.city, s.address, _city)
+      )
+    )
+$$;
+
+-- Headline figures. Shop and user totals are as of the end of the range; stock
+-- and open complaint counts describe the platform right now.
+CREATE OR REPLACE FUNCTION public.analytics_summary(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  total_shops BIGINT,
+  pending_shops BIGINT,
+  verified_shops BIGINT,
+  rejected_shops BIGINT,
+  new_shops BIGINT,
+  customers BIGINT,
+  shopkeepers BIGINT,
+  admins BIGINT,
+  new_users BIGINT,
+  total_products BIGINT,
+  expiring_batches BIGINT,
+  expiring_units BIGINT,
+  transactions BIGINT,
+  units_sold BIGINT,
+  revenue NUMERIC,
+  complaints_filed BIGINT,
+  complaints_resolved BIGINT,
+  open_complaints BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH region_shops AS (
+    SELECT s.id, s.verification_status, s.created_at
+    FROM public.shops s
+    WHERE s.created_at < _to AND public.shop_in_region(s.city, s.address, _city)
+  ),
+  category_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE NULLIF(btrim(_category), '') IS NULL OR lower(p.category) = lower(btrim(_category))
+  ),
+  stock AS (
+    SELECT b.product_id, b.quantity, b.status, b.expiry_date
+    FROM public.inventory_batches b
+    JOIN region_shops rs ON rs.id = b.shop_id
+    JOIN category_products cp ON cp.id = b.product_id
+  ),
+  users AS (
+    SELECT * FROM public.analytics_region_users(_city, _to)
+  ),
+  sales AS (
+    SELECT * FROM public.analytics_sales(_from, _to, _city, _category)
+  ),
+  region_complaints AS (
+    SELECT c.status, c.created_at, c.resolved_at
+    FROM public.complaints c
+    LEFT JOIN public.shops s ON s.id = c.shop_id
+    LEFT JOIN public.products p ON p.id = c.product_id
+    WHERE (NULLIF(btrim(_city), '') IS NULL OR public.shop_in_region(s.city, s.address, _city))
+      AND (NULLIF(btrim(_category), '') IS NULL OR lower(p.category) = lower(btrim(_category)))
+  )
+  SELECT
+    (SELECT COUNT(*) FROM region_shops),
+    (SELECT COUNT(*) FROM region_shops WHERE verification_status = 'pending'),
+    (SELECT COUNT(*) FROM region_shops WHERE verification_status = 'verified'),
+    (SELECT COUNT(*) FROM region_shops WHERE verification_status = 'rejected'),
+    (SELECT COUNT(*) FROM region_shops WHERE created_at >= _from),
+    (SELECT COUNT(*) FROM users WHERE role = 'customer'),
+    (SELECT COUNT(*) FROM users WHERE role = 'shopkeeper'),
+    (SELECT COUNT(*) FROM users WHERE role = 'admin'),
+    (SELECT COUNT(*) FROM users WHERE joined_at >= _from),
+    CASE
+      WHEN NULLIF(btrim(_city), '') IS NULL THEN (SELECT COUNT(*) FROM category_products)
+      ELSE (SELECT COUNT(DISTINCT product_id) FROM stock)
+    END,
+    (SELECT COUNT(*) FROM stock
+      WHERE status = 'active'
+        AND expiry_date <= CURRENT_DATE + public.setting_numeric('discount_threshold_days', 30)::INTEGER),
+    (SELECT COALESCE(SUM(quantity), 0) FROM stock
+      WHERE status = 'active'
+        AND expiry_date <= CURRENT_DATE + public.setting_numeric('discount_threshold_days', 30)::INTEGER),
+    (SELECT COUNT(*) FROM sales),
+    (SELECT COALESCE(SUM(quantity), 0) FROM sales),
+    (SELECT COALESCE(SUM(revenue), 0) FROM sales),
+    (SELECT COUNT(*) FROM region_complaints WHERE created_at >= _from AND created_at < _to),
+    (SELECT COUNT(*) FROM region_complaints WHERE resolved_at >= _from AND resolved_at < _to),
+    (SELECT COUNT(*) FROM region_complaints WHERE status IN ('pending', 'in_progress'))
+$$;
+
+-- One row per calendar day of the range in the admin's time zone, including empty days
+CREATE OR REPLACE FUNCTION public.analytics_daily(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  new_shops BIGINT,
+  new_users BIGINT,
+  transactions BIGINT,
+  revenue NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(
+      (_from AT TIME ZONE _time_zone)::DATE,
+      ((_to AT TIME ZONE _time_zone) - INTERVAL '1 microsecond')::DATE,
+      INTERVAL '1 day'
+    ) d
+  ),
+  shops_by_day AS (
+    SELECT (s.created_at AT TIME ZONE _time_zone)::DATE AS day, COUNT(*) AS shops
+    FROM public.shops s
+    WHERE s.created_at >= _from AND s.created_at < _to
+      AND public.shop_in_region(s.city, s.address, _city)
+    GROUP BY 1
+  ),
+  users_by_day AS (
+    SELECT (u.joined_at AT TIME ZONE _time_zone)::DATE AS day, COUNT(*) AS users
+    FROM public.analytics_region_users(_city, _to) u
+    WHERE u.joined_at >= _from
+    GROUP BY 1
+  ),
+  sales_by_day AS (
+    SELECT (sa.sold_at AT TIME ZONE _time_zone)::DATE AS day, COUNT(*) AS transactions, SUM(sa.revenue) AS revenue
+    FROM public.analytics_sales(_from, _to, _city, _category) sa
+    GROUP BY 1
+  )
+  SELECT
+    days.day,
+    COALESCE(shops_by_day.shops, 0),
+    COALESCE(users_by_day.users, 0),
+    COALESCE(sales_by_day.transactions, 0),
+    COALESCE(sales_by_day.revenue, 0)
+  FROM days
+  LEFT JOIN shops_by_day ON shops_by_day.day = days.day
+  LEFT JOIN users_by_day ON users_by_day.day = days.day
+  LEFT JOIN sales_by_day ON sales_by_day.day = days.day
+  ORDER BY days.day
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_top_shops(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  shop_id UUID,
+  shop_name TEXT,
+  city TEXT,
+  transactions BIGINT,
+  units_sold BIGINT,
+  revenue NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id, s.name, s.city, COUNT(*), SUM(sa.quantity), SUM(sa.revenue)
+  FROM public.analytics_sales(_from, _to, _city, _category) sa
+  JOIN public.shops s ON s.id = sa.shop_id
+  GROUP BY s.id, s.name, s.city
+  ORDER BY SUM(sa.revenue) DESC, SUM(sa.quantity) DESC, s.name
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+-- Values for the dashboard's city and category pickers
+CREATE OR REPLACE FUNCTION public.analytics_filter_options()
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT 'city', btrim(city) FROM public.shops WHERE NULLIF(btrim(city), '') IS NOT NULL
+  UNION
+  SELECT DISTINCT 'category', category FROM public.products
+  ORDER BY 1, 2
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_timestamp ON public.transactions("timestamp");
+CREATE INDEX IF NOT EXISTS idx_profiles_created_at ON public.profiles(created_at);
+
+REVOKE EXECUTE ON FUNCTION public.analytics_sales(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_region_users(TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_daily(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_top_shops(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_filter_options() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_sales(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_region_users(TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_daily(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_top_shops(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_filter_options() TO service_role;
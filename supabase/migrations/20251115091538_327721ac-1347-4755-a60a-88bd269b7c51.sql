@@ -0,0 +1,314 @@
+-- Food-waste impact accounting. Products carry their net pack size, categories carry an
+-- emission factor, and rescued sales (sold at a near-expiry markdown) are converted to
+-- kilograms of food diverted, kg CO2e avoided and rupees saved by customers.
+
+CREATE TYPE public.pack_unit AS ENUM ('g', 'kg', 'ml', 'l');
+
+ALTER TABLE public.products
+  ADD COLUMN net_quantity NUMERIC,
+  ADD COLUMN net_unit public.pack_unit,
+  ADD CONSTRAINT products_net_quantity_check CHECK (net_quantity IS NULL OR net_quantity > 0),
+  ADD CONSTRAINT products_pack_size_check CHECK ((net_quantity IS NULL) = (net_unit IS NULL));
+
+-- Liquids are counted at 1 kg per litre
+CREATE OR REPLACE FUNCTION public.pack_size_kg(_net_quantity NUMERIC, _net_unit public.pack_unit)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE _net_unit
+    WHEN 'g' THEN _net_quantity / 1000
+    WHEN 'ml' THEN _net_quantity / 1000
+    WHEN 'kg' THEN _net_quantity
+    WHEN 'l' THEN _net_quantity
+  END
+$$;
+
+-- Same rules as set_product_dietary: shopkeepers fill in a missing pack size, admins can correct it
+CREATE OR REPLACE FUNCTION public.set_product_pack_size(
+  _product_id UUID,
+  _net_quantity NUMERIC,
+  _net_unit public.pack_unit
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product public.products%ROWTYPE;
+BEGIN
+  IF _net_quantity IS NULL OR _net_quantity <= 0 OR _net_unit IS NULL THEN
+    RAISE EXCEPTION 'Pack size needs a positive quantity and a unit' USING ERRCODE = '22023';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin'::app_role) THEN
+    UPDATE public.products
+    SET net_quantity = _net_quantity, net_unit = _net_unit
+    WHERE id = _product_id
+    RETURNING * INTO _product;
+  ELSIF EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'shopkeeper') THEN
+    UPDATE public.products
+    SET
+      net_quantity = coalesce(net_quantity, _net_quantity),
+      net_unit = coalesce(net_unit, _net_unit)
+    WHERE id = _product_id
+    RETURNING * INTO _product;
+  ELSE
+    RAISE EXCEPTION 'Only shopkeepers can set pack sizes';
+  END IF;
+
+  IF _product.id IS NULL THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  RETURN _product;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_product_pack_size(UUID, NUMERIC, public.pack_unit) FROM PUBLIC, anon;
+
+-- Lifecycle emissions per kilogram of food, keyed by lower-case product category.
+-- The 'default' row covers categories without their own factor.
+CREATE TABLE public.category_emission_factors (
+  category TEXT PRIMARY KEY CHECK (category = lower(btrim(category)) AND category <> ''),
+  kg_co2e_per_kg NUMERIC NOT NULL CHECK (kg_co2e_per_kg >= 0),
+  -- Assumed pack weight when a product has no net quantity recorded
+  default_pack_kg NUMERIC NOT NULL CHECK (default_pack_kg > 0),
+  source TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.category_emission_factors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view emission factors"
+ON public.category_emission_factors FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage emission factors"
+ON public.category_emission_factors FOR ALL
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_category_emission_factors_updated_at
+  BEFORE UPDATE ON public.category_emission_factors
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.category_emission_factors (category, kg_co2e_per_kg, default_pack_kg, source) VALUES
+  ('default', 2.5, 0.25, 'Mean of packaged grocery foods, Poore & Nemecek (2018)'),
+  ('dairy', 3.2, 0.5, 'Milk, Poore & Nemecek (2018)'),
+  ('bakery', 1.6, 0.4, 'Wheat bread, Poore & Nemecek (2018)'),
+  ('snacks', 2.5, 0.1, 'Crisps and savoury snacks, WRAP (2020)'),
+  ('beverages', 0.6, 0.5, 'Soft drinks and juices, WRAP (2020)'),
+  ('fruits', 0.7, 0.5, 'Mean of fruits, Poore & Nemecek (2018)'),
+  ('vegetables', 0.5, 0.5, 'Mean of vegetables, Poore & Nemecek (2018)'),
+  ('meat', 9.9, 0.5, 'Poultry meat, Poore & Nemecek (2018)'),
+  ('eggs', 4.7, 0.36, 'Eggs, Poore & Nemecek (2018)'),
+  ('staples', 2.5, 1.0, 'Mean of rice, wheat and pulses, Poore & Nemecek (2018)'),
+  ('frozen', 3.0, 0.5, 'Frozen ready meals, WRAP (2020)'),
+  ('confectionery', 4.0, 0.1, 'Sugar confectionery and chocolate, WRAP (2020)')
+ON CONFLICT (category) DO NOTHING;
+
+-- Sales at a near-expiry markdown, each converted to food mass, emissions and customer savings
+CREATE OR REPLACE FUNCTION public.impact_rescued_sales(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_id UUID,
+  shop_name TEXT,
+  city TEXT,
+  units INTEGER,
+  food_kg NUMERIC,
+  estimated_kg NUMERIC,
+  co2e_kg NUMERIC,
+  savings NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH fallback AS (
+    SELECT kg_co2e_per_kg, default_pack_kg
+    FROM public.category_emission_factors
+    WHERE category = 'default'
+  ),
+  sales AS (
+    SELECT
+      t.shop_id,
+      s.name AS shop_name,
+      s.city,
+      t.quantity,
+      t.quantity * COALESCE(
+        public.pack_size_kg(p.net_quantity, p.net_unit),
+        ef.default_pack_kg,
+        fallback.default_pack_kg
+      ) AS food_kg,
+      p.net_quantity IS NULL AS estimated,
+      COALESCE(ef.kg_co2e_per_kg, fallback.kg_co2e_per_kg) AS factor,
+      (COALESCE(t.mrp, t.price) - t.price) * t.quantity AS savings
+    FROM public.transactions t
+    JOIN public.shops s ON s.id = t.shop_id
+    JOIN public.products p ON p.id = t.product_id
+    LEFT JOIN public.category_emission_factors ef ON ef.category = lower(btrim(p.category))
+    LEFT JOIN fallback ON true
+    WHERE t."timestamp" >= _from AND t."timestamp" < _to
+      AND COALESCE(t.discount_percent, 0) > 0
+      AND public.shop_in_region(s.city, s.address, _city)
+      AND (NULLIF(btrim(_category), '') IS NULL OR lower(p.category) = lower(btrim(_category)))
+  )
+  SELECT
+    shop_id,
+    shop_name,
+    city,
+    quantity,
+    food_kg,
+    CASE WHEN estimated THEN food_kg ELSE 0 END,
+    food_kg * factor,
+    savings
+  FROM sales
+$$;
+
+-- Impact totals grouped by 'shop', 'city' or 'platform'. Callable by admins and the service role.
+CREATE OR REPLACE FUNCTION public.impact_report(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _group_by TEXT DEFAULT 'platform'
+)
+RETURNS TABLE (
+  group_key TEXT,
+  group_name TEXT,
+  city TEXT,
+  units_rescued BIGINT,
+  food_kg NUMERIC,
+  estimated_kg NUMERIC,
+  co2e_kg NUMERIC,
+  customer_savings NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view impact reports' USING ERRCODE = '42501';
+  END IF;
+
+  IF _group_by NOT IN ('shop', 'city', 'platform') THEN
+    RAISE EXCEPTION 'Unknown grouping %', _group_by USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH grouped AS (
+    SELECT
+      CASE _group_by
+        WHEN 'shop' THEN r.shop_id::TEXT
+        WHEN 'city' THEN COALESCE(initcap(btrim(r.city)), 'Unspecified')
+        ELSE 'platform'
+      END AS key,
+      CASE _group_by
+        WHEN 'shop' THEN r.shop_name
+        WHEN 'city' THEN COALESCE(initcap(btrim(r.city)), 'Unspecified')
+        ELSE 'All shops'
+      END AS name,
+      CASE WHEN _group_by = 'platform' THEN NULL ELSE initcap(btrim(r.city)) END AS group_city,
+      r.units,
+      r.food_kg,
+      r.estimated_kg,
+      r.co2e_kg,
+      r.savings
+    FROM public.impact_rescued_sales(_from, _to, _city, _category) r
+  )
+  SELECT
+    g.key,
+    MIN(g.name),
+    MIN(g.group_city),
+    COALESCE(SUM(g.units), 0)::BIGINT,
+    ROUND(COALESCE(SUM(g.food_kg), 0), 2),
+    ROUND(COALESCE(SUM(g.estimated_kg), 0), 2),
+    ROUND(COALESCE(SUM(g.co2e_kg), 0), 2),
+    ROUND(COALESCE(SUM(g.savings), 0), 2)
+  FROM grouped g
+  GROUP BY g.key
+  ORDER BY 5 DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.impact_rescued_sales(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.impact_rescued_sales(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.impact_report(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.impact_report(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, TEXT) TO authenticated, service_role;
+
+-- The waste report gains food mass and emissions per shop; the return type changes, so recreate it
+DROP FUNCTION IF EXISTS public.report_waste_prevented(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.report_waste_prevented(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_name TEXT,
+  city TEXT,
+  units_rescued BIGINT,
+  rescued_value NUMERIC,
+  customer_savings NUMERIC,
+  food_kg_rescued NUMERIC,
+  co2e_avoided_kg NUMERIC,
+  units_expired BIGINT,
+  expired_value NUMERIC,
+  rescue_rate_percent NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH rescued AS (
+    SELECT
+      t.shop_id,
+      SUM(t.quantity) AS units,
+      SUM(t.price * t.quantity) AS value
+    FROM public.transactions t
+    WHERE t."timestamp" >= _from AND t."timestamp" < _to
+      AND COALESCE(t.discount_percent, 0) > 0
+    GROUP BY t.shop_id
+  ),
+  impact AS (
+    SELECT i.shop_id, SUM(i.savings) AS savings, SUM(i.food_kg) AS food_kg, SUM(i.co2e_kg) AS co2e_kg
+    FROM public.impact_rescued_sales(_from, _to, _region) i
+    GROUP BY i.shop_id
+  ),
+  expired AS (
+    SELECT b.shop_id, SUM(b.quantity) AS units, SUM(b.mrp * b.quantity) AS value
+    FROM public.inventory_batches b
+    WHERE b.status = 'expired' AND b.quantity > 0
+      AND b.expiry_date >= _from::DATE AND b.expiry_date < _to::DATE
+    GROUP BY b.shop_id
+  )
+  SELECT
+    s.name,
+    s.city,
+    COALESCE(r.units, 0),
+    ROUND(COALESCE(r.value, 0), 2),
+    ROUND(COALESCE(i.savings, 0), 2),
+    ROUND(COALESCE(i.food_kg, 0), 2),
+    ROUND(COALESCE(i.co2e_kg, 0), 2),
+    COALESCE(e.units, 0),
+    ROUND(COALESCE(e.value, 0), 2),
+    ROUND(100.0 * COALESCE(r.units, 0) / NULLIF(COALESCE(r.units, 0) + COALESCE(e.units, 0), 0), 1)
+  FROM public.shops s
+  LEFT JOIN rescued r ON r.shop_id = s.id
+  LEFT JOIN impact i ON i.shop_id = s.id
+  LEFT JOIN expired e ON e.shop_id = s.id
+  WHERE (r.shop_id IS NOT NULL OR e.shop_id IS NOT NULL)
+    AND public.shop_in_region(s.city, s.address, _region)
+  ORDER BY 3 DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.report_waste_prevented(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.report_waste_prevented(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO service_role;
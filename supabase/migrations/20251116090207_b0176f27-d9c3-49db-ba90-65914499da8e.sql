@@ -0,0 +1,67 @@
+-- Everything the admin shop map draws, one row per shop: status for marker colour,
+-- open complaints for the hotspot layer and near-expiry stock for the heatmap.
+CREATE OR REPLACE FUNCTION public.admin_map_shops()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  address TEXT,
+  city TEXT,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  verification_status public.shop_status,
+  suspended_at TIMESTAMP WITH TIME ZONE,
+  owner_name TEXT,
+  owner_phone TEXT,
+  open_complaints BIGINT,
+  expiring_batches BIGINT,
+  expiring_units BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view the shop map' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH complaint_counts AS (
+    SELECT c.shop_id, COUNT(*) AS open_count
+    FROM public.complaints c
+    WHERE c.shop_id IS NOT NULL AND c.status IN ('pending', 'in_progress')
+    GROUP BY c.shop_id
+  ),
+  -- "Expiring" matches the dashboard: inside the window where auto-discounts kick in
+  expiring AS (
+    SELECT b.shop_id, COUNT(*) AS batch_count, SUM(b.quantity) AS units
+    FROM public.inventory_batches b
+    WHERE b.status = 'active'
+      AND b.quantity > 0
+      AND b.expiry_date <= CURRENT_DATE + public.setting_numeric('discount_threshold_days', 30)::INTEGER
+    GROUP BY b.shop_id
+  )
+  SELECT
+    s.id,
+    s.name,
+    s.address,
+    s.city,
+    s.latitude,
+    s.longitude,
+    s.verification_status,
+    s.suspended_at,
+    p.name,
+    p.phone,
+    COALESCE(cc.open_count, 0),
+    COALESCE(e.batch_count, 0),
+    COALESCE(e.units, 0)::BIGINT
+  FROM public.shops s
+  LEFT JOIN public.profiles p ON p.id = s.owner_id
+  LEFT JOIN complaint_counts cc ON cc.shop_id = s.id
+  LEFT JOIN expiring e ON e.shop_id = s.id
+  ORDER BY s.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_map_shops() FROM PUBLIC, anon;
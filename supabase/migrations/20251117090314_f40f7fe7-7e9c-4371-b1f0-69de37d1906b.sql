@@ -0,0 +1,226 @@
+-- Shop suspension: admins suspend and reinstate a verified shop with a reason.
+-- A suspended shop keeps its verification status but disappears from the
+-- customer feed and map, and cannot take new carts, reservations or sales.
+
+-- RLS hides suspended shops from customers, so policies and triggers ask through here
+CREATE OR REPLACE FUNCTION public.is_shop_suspended(_shop_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.shops
+    WHERE id = _shop_id
+      AND suspended_at IS NOT NULL
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_shop_suspended(UUID) TO anon, authenticated;
+
+-- Owners can update their own shop row, but only admins may touch the suspension columns
+CREATE OR REPLACE FUNCTION public.protect_shop_suspension()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT has_role(auth.uid(), 'admin'::app_role)
+     AND (
+       NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+       OR NEW.suspended_by IS DISTINCT FROM OLD.suspended_by
+       OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason
+     ) THEN
+    RAISE EXCEPTION 'Only admins can suspend or reinstate shops'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.protect_shop_suspension() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER protect_shop_suspension
+BEFORE UPDATE ON public.shops
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_shop_suspension();
+
+CREATE OR REPLACE FUNCTION public.suspend_shop(_shop_id UUID, _reason TEXT)
+RETURNS public.shops
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shop public.shops%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can suspend shops'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(btrim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A suspension reason is required'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.shops
+  SET suspended_at = now(),
+      suspended_by = auth.uid(),
+      suspension_reason = btrim(_reason)
+  WHERE id = _shop_id
+    AND suspended_at IS NULL
+  RETURNING * INTO _shop;
+
+  IF _shop.id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.shops WHERE id = _shop_id) THEN
+      RAISE EXCEPTION 'Shop is already suspended'
+        USING ERRCODE = '22023';
+    END IF;
+    RAISE EXCEPTION 'Shop not found';
+  END IF;
+
+  INSERT INTO public.admin_activity_logs (admin_id, action_type, target_type, target_id, details)
+  VALUES (auth.uid(), 'shop_suspended', 'shop', _shop_id, jsonb_build_object('reason', _shop.suspension_reason));
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    _shop.owner_id,
+    'Shop Suspended',
+    'Your shop "' || _shop.name || '" has been suspended and is hidden from customers. Reason: ' || _shop.suspension_reason,
+    'shop_suspended'
+  );
+
+  RETURN _shop;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reinstate_shop(_shop_id UUID, _note TEXT DEFAULT NULL)
+RETURNS public.shops
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shop public.shops%ROWTYPE;
+  _previous_reason TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can reinstate shops'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT suspension_reason INTO _previous_reason
+  FROM public.shops
+  WHERE id = _shop_id
+    AND suspended_at IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM public.shops WHERE id = _shop_id) THEN
+      RAISE EXCEPTION 'Shop is not suspended'
+        USING ERRCODE = '22023';
+    END IF;
+    RAISE EXCEPTION 'Shop not found';
+  END IF;
+
+  UPDATE public.shops
+  SET suspended_at = NULL,
+      suspended_by = NULL,
+      suspension_reason = NULL
+  WHERE id = _shop_id
+  RETURNING * INTO _shop;
+
+  INSERT INTO public.admin_activity_logs (admin_id, action_type, target_type, target_id, details)
+  VALUES (
+    auth.uid(),
+    'shop_reinstated',
+    'shop',
+    _shop_id,
+    jsonb_build_object('previous_reason', _previous_reason, 'note', NULLIF(btrim(_note), ''))
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    _shop.owner_id,
+    'Shop Reinstated',
+    'Your shop "' || _shop.name || '" has been reinstated and is visible to customers again.',
+    'shop_reinstated'
+  );
+
+  RETURN _shop;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.suspend_shop(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reinstate_shop(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.suspend_shop(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reinstate_shop(UUID, TEXT) TO authenticated;
+
+-- Customer-facing visibility. Owners and admins keep their own policies, so a
+-- suspended shop still sees its dashboard and admins still see everything.
+DROP POLICY IF EXISTS "Anyone can view verified shops" ON public.shops;
+CREATE POLICY "Anyone can view verified shops"
+ON public.shops
+FOR SELECT
+USING (verification_status = 'verified' AND suspended_at IS NULL);
+
+DROP POLICY IF EXISTS "Anyone can view active inventory" ON public.inventory_batches;
+CREATE POLICY "Anyone can view active inventory"
+ON public.inventory_batches
+FOR SELECT
+USING (status = 'active' AND NOT public.is_shop_suspended(shop_id));
+
+CREATE OR REPLACE VIEW public.shop_owners_public
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.name,
+  s.id as shop_id
+FROM public.profiles p
+INNER JOIN public.shops s ON s.owner_id = p.id
+WHERE s.verification_status = 'verified'
+  AND s.suspended_at IS NULL;
+
+-- Carts, reservations, bills and sales all carry the shop, so one trigger covers them
+CREATE OR REPLACE FUNCTION public.enforce_shop_not_suspended()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_shop_suspended(NEW.shop_id) THEN
+    RAISE EXCEPTION 'This shop is suspended and cannot take new orders or sales.'
+      USING ERRCODE = '55000';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_shop_not_suspended() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER enforce_shop_not_suspended
+BEFORE INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_shop_not_suspended();
+
+CREATE TRIGGER enforce_shop_not_suspended
+BEFORE INSERT ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_shop_not_suspended();
+
+CREATE TRIGGER enforce_shop_not_suspended
+BEFORE INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_shop_not_suspended();
+
+CREATE TRIGGER enforce_shop_not_suspended
+BEFORE INSERT ON public.cart_items
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_shop_not_suspended();
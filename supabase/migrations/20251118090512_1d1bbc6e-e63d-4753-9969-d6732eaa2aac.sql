@@ -0,0 +1,190 @@
+-- User suspension: profiles.status was only a label. Suspended and deactivated
+-- users now lose write access everywhere, and suspending someone signs them out.
+
+-- A user without a profile row yet (mid sign-up) counts as active
+CREATE OR REPLACE FUNCTION public.is_active(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _user_id
+      AND status <> 'active'
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_active(UUID) TO anon, authenticated;
+
+-- Restrictive policies are ANDed with the existing permissive ones, so every
+-- direct write from an inactive account fails without rewriting each policy
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'profiles', 'shops', 'products', 'product_images', 'inventory_batches', 'discount_policies',
+    'transactions', 'bills', 'orders', 'order_items', 'cart_items', 'reviews', 'wishlists',
+    'complaints', 'complaint_messages', 'notifications', 'banner_dismissals', 'chat_messages',
+    'admin_activity_logs', 'announcement_banners', 'system_settings', 'system_setting_history',
+    'category_emission_factors', 'user_roles'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Inactive users cannot insert" ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated WITH CHECK ((SELECT public.is_active(auth.uid())))',
+      _table
+    );
+    EXECUTE format(
+      'CREATE POLICY "Inactive users cannot update" ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated USING ((SELECT public.is_active(auth.uid())))',
+      _table
+    );
+    EXECUTE format(
+      'CREATE POLICY "Inactive users cannot delete" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated USING ((SELECT public.is_active(auth.uid())))',
+      _table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Checkout, reservations, billing and review replies run as SECURITY DEFINER
+-- and bypass RLS, so the tables they write check the caller here as well
+CREATE OR REPLACE FUNCTION public.enforce_active_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_active(auth.uid()) THEN
+    RAISE EXCEPTION 'Your account is suspended. Please contact support.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_active_user() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.products
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.inventory_batches
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.bills
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.orders
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.cart_items
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+CREATE TRIGGER enforce_active_user
+BEFORE INSERT OR UPDATE OR DELETE ON public.reviews
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.enforce_active_user();
+
+-- Users can update their own profile row, but not their own status
+CREATE OR REPLACE FUNCTION public.protect_profile_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can change account status'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.protect_profile_status() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER protect_profile_status
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_status();
+
+-- Deleting the auth sessions stops refresh, so the user is signed out as soon as
+-- their current access token expires; RLS blocks their writes until then
+CREATE OR REPLACE FUNCTION public.set_user_status(
+  _user_id UUID,
+  _status user_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+  _previous_status user_status;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can change account status'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _user_id = auth.uid() AND _status <> 'active' THEN
+    RAISE EXCEPTION 'You cannot suspend your own account'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT status INTO _previous_status
+  FROM public.profiles
+  WHERE id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  UPDATE public.profiles
+  SET status = _status
+  WHERE id = _user_id
+  RETURNING * INTO _profile;
+
+  IF _status <> 'active' THEN
+    DELETE FROM auth.sessions WHERE user_id = _user_id;
+    DELETE FROM auth.refresh_tokens WHERE user_id = _user_id::text;
+  END IF;
+
+  INSERT INTO public.admin_activity_logs (admin_id, action_type, target_type, target_id, details)
+  VALUES (
+    auth.uid(),
+    CASE WHEN _status = 'active' THEN 'user_reactivated' ELSE 'user_' || _status END,
+    'user',
+    _user_id,
+    jsonb_build_object('previous_status', _previous_status, 'reason', NULLIF(btrim(_reason), ''))
+  );
+
+  RETURN _profile;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_user_status(UUID, user_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_status(UUID, user_status, TEXT) TO authenticated;
@@ -0,0 +1,65 @@
+-- Discount tiers were only validated by the client. The evaluator and the expiry
+-- sweep read them as-is, so reject malformed schedules where they are stored.
+
+-- Same rules as discountTiersSchema in src/lib/discountPolicy.ts: a non-empty array
+-- of { days: whole number 0-365, percent: 0-100 } with no repeated days
+CREATE OR REPLACE FUNCTION public.valid_discount_tiers(_tiers JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(_tiers) IS DISTINCT FROM 'array' OR jsonb_array_length(_tiers) = 0 THEN
+    RETURN false;
+  END IF;
+
+  -- Check the shape first so the casts below cannot fail
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_tiers) AS tier
+    WHERE jsonb_typeof(tier) IS DISTINCT FROM 'object'
+      OR jsonb_typeof(tier->'days') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(tier->'percent') IS DISTINCT FROM 'number'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_tiers) AS tier
+    WHERE (tier->>'days')::numeric <> trunc((tier->>'days')::numeric)
+      OR (tier->>'days')::numeric NOT BETWEEN 0 AND 365
+      OR (tier->>'percent')::numeric NOT BETWEEN 0 AND 100
+  )
+  AND (
+    SELECT count(DISTINCT (tier->>'days')::numeric)
+    FROM jsonb_array_elements(_tiers) AS tier
+  ) = jsonb_array_length(_tiers);
+END;
+$$;
+
+-- NOT VALID: existing overrides are left alone, new and edited ones are checked
+ALTER TABLE public.discount_policies
+  ADD CONSTRAINT discount_policy_tiers_valid CHECK (public.valid_discount_tiers(tiers)) NOT VALID;
+
+-- Runs after normalize_setting_value (triggers fire by name), so the value is already unwrapped
+CREATE OR REPLACE FUNCTION public.validate_discount_tiers_setting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.setting_key = 'discount_tiers' AND NOT public.valid_discount_tiers(NEW.setting_value) THEN
+    RAISE EXCEPTION 'Discount tiers must be a list of { days, percent } with days 0-365, percent 0-100 and no repeated days'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_discount_tiers_setting
+BEFORE INSERT OR UPDATE ON public.system_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_discount_tiers_setting();
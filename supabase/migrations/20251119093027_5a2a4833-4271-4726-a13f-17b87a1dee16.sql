@@ -0,0 +1,46 @@
+-- complaint_participant_role took any user id, so callers could probe who takes
+-- part in any complaint. It now only answers for the caller.
+
+DROP POLICY IF EXISTS "Participants can view complaint messages" ON public.complaint_messages;
+DROP POLICY IF EXISTS "Participants can post complaint messages" ON public.complaint_messages;
+DROP FUNCTION IF EXISTS public.complaint_participant_role(UUID, UUID);
+
+-- The side the caller speaks for on a complaint, or NULL when they are not part of it
+CREATE OR REPLACE FUNCTION public.complaint_participant_role(_complaint_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN c.customer_id = auth.uid() THEN 'customer'
+    WHEN EXISTS (SELECT 1 FROM public.shops s WHERE s.id = c.shop_id AND s.owner_id = auth.uid()) THEN 'shop'
+    WHEN has_role(auth.uid(), 'admin'::app_role) THEN 'admin'
+  END
+  FROM public.complaints c
+  WHERE c.id = _complaint_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complaint_participant_role(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complaint_participant_role(UUID) TO authenticated;
+
+CREATE POLICY "Participants can view complaint messages"
+ON public.complaint_messages
+FOR SELECT
+TO authenticated
+USING (complaint_participant_role(complaint_id) IS NOT NULL);
+
+-- Messages are posted under the sender's own role, and only while the complaint is open
+CREATE POLICY "Participants can post complaint messages"
+ON public.complaint_messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  sender_id = auth.uid()
+  AND sender_role = complaint_participant_role(complaint_id)
+  AND EXISTS (
+    SELECT 1 FROM public.complaints c
+    WHERE c.id = complaint_id AND c.status IN ('pending', 'in_progress')
+  )
+);
@@ -0,0 +1,4 @@
+-- is_active was callable without signing in, so anyone could probe the status of
+-- any user id. Only signed-in users need it (sign-in check and RLS policies).
+REVOKE EXECUTE ON FUNCTION public.is_active(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_active(UUID) TO authenticated;
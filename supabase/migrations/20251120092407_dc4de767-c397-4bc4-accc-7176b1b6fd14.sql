@@ -0,0 +1,115 @@
+-- Region filter: the address fallback passed the caller's text straight into ILIKE,
+-- so a region of '%' matched every shop without a city. Match it literally instead.
+CREATE OR REPLACE FUNCTION public.shop_in_region(_city TEXT, _address TEXT, _region TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT NULLIF(btrim(_region), '') IS NULL
+    OR lower(btrim(_city)) = lower(btrim(_region))
+    OR (
+      _city IS NULL
+      AND _address ILIKE '%' || replace(replace(replace(btrim(_region), '\', '\\'), '%', '\%'), '_', '\_') || '%' ESCAPE '\'
+    )
+$$;
+
+-- admin-reports pages through these with .range(); ordering only by an aggregate that
+-- can tie let rows move between pages, so exports could repeat or drop shops.
+CREATE OR REPLACE FUNCTION public.report_revenue_by_shop(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_name TEXT,
+  city TEXT,
+  bills BIGINT,
+  units_sold BIGINT,
+  revenue NUMERIC,
+  mrp_value NUMERIC,
+  customer_savings NUMERIC,
+  average_discount_percent NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.name,
+    s.city,
+    COUNT(DISTINCT t.bill_id),
+    SUM(t.quantity),
+    ROUND(SUM(t.price * t.quantity), 2),
+    ROUND(SUM(COALESCE(t.mrp, t.price) * t.quantity), 2),
+    ROUND(SUM((COALESCE(t.mrp, t.price) - t.price) * t.quantity), 2),
+    ROUND(SUM(COALESCE(t.discount_percent, 0) * t.quantity) / NULLIF(SUM(t.quantity), 0), 1)
+  FROM public.transactions t
+  JOIN public.shops s ON s.id = t.shop_id
+  WHERE t."timestamp" >= _from AND t."timestamp" < _to
+    AND public.shop_in_region(s.city, s.address, _region)
+  GROUP BY s.id, s.name, s.city
+  ORDER BY SUM(t.price * t.quantity) DESC, s.name, s.id
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_waste_prevented(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _region TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  shop_name TEXT,
+  city TEXT,
+  units_rescued BIGINT,
+  rescued_value NUMERIC,
+  customer_savings NUMERIC,
+  food_kg_rescued NUMERIC,
+  co2e_avoided_kg NUMERIC,
+  units_expired BIGINT,
+  expired_value NUMERIC,
+  rescue_rate_percent NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH rescued AS (
+    SELECT
+      t.shop_id,
+      SUM(t.quantity) AS units,
+      SUM(t.price * t.quantity) AS value
+    FROM public.transactions t
+    WHERE t."timestamp" >= _from AND t."timestamp" < _to
+      AND COALESCE(t.discount_percent, 0) > 0
+    GROUP BY t.shop_id
+  ),
+  impact AS (
+    SELECT i.shop_id, SUM(i.savings) AS savings, SUM(i.food_kg) AS food_kg, SUM(i.co2e_kg) AS co2e_kg
+    FROM public.impact_rescued_sales(_from, _to, _region) i
+    GROUP BY i.shop_id
+  ),
+  expired AS (
+    SELECT b.shop_id, SUM(b.quantity) AS units, SUM(b.mrp * b.quantity) AS value
+    FROM public.inventory_batches b
+    WHERE b.status = 'expired' AND b.quantity > 0
+      AND b.expiry_date >= _from::DATE AND b.expiry_date < _to::DATE
+    GROUP BY b.shop_id
+  )
+  SELECT
+    s.name,
+    s.city,
+    COALESCE(r.units, 0),
+    ROUND(COALESCE(r.value, 0), 2),
+    ROUND(COALESCE(i.savings, 0), 2),
+    ROUND(COALESCE(i.food_kg, 0), 2),
+    ROUND(COALESCE(i.co2e_kg, 0), 2),
+    COALESCE(e.units, 0),
+    ROUND(COALESCE(e.value, 0), 2),
+    ROUND(100.0 * COALESCE(r.units, 0) / NULLIF(COALESCE(r.units, 0) + COALESCE(e.units, 0), 0), 1)
+  FROM public.shops s
+  LEFT JOIN rescued r ON r.shop_id = s.id
+  LEFT JOIN impact i ON i.shop_id = s.id
+  LEFT JOIN expired e ON e.shop_id = s.id
+  WHERE (r.shop_id IS NOT NULL OR e.shop_id IS NOT NULL)
+    AND public.shop_in_region(s.city, s.address, _region)
+  ORDER BY COALESCE(r.units, 0) DESC, s.name, s.id
+$$;
@@ -0,0 +1,91 @@
+-- Active batches already past their expiry date were counted as expiring on the
+-- dashboard. Count only stock still inside the discount window, as the shop map does.
+CREATE OR REPLACE FUNCTION public.analytics_summary(
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE,
+  _city TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  total_shops BIGINT,
+  pending_shops BIGINT,
+  verified_shops BIGINT,
+  rejected_shops BIGINT,
+  new_shops BIGINT,
+  customers BIGINT,
+  shopkeepers BIGINT,
+  admins BIGINT,
+  new_users BIGINT,
+  total_products BIGINT,
+  expiring_batches BIGINT,
+  expiring_units BIGINT,
+  transactions BIGINT,
+  units_sold BIGINT,
+  revenue NUMERIC,
+  complaints_filed BIGINT,
+  complaints_resolved BIGINT,
+  open_complaints BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH region_shops AS (
+    SELECT s.id, s.verification_status, s.created_at
+    FROM public.shops s
+    WHERE s.created_at < _to AND public.shop_in_region(s.city, s.address, _city)
+  ),
+  category_products AS (
+    SELECT p.id
+    FROM public.products p
+    WHERE NULLIF(btrim(_category), '') IS NULL OR lower(p.category) = lower(btrim(_category))
+  ),
+  stock AS (
+    SELECT b.product_id, b.quantity, b.status, b.expiry_date
+    FROM public.inventory_batches b
+    JOIN region_shops rs ON rs.id = b.shop_id
+    JOIN category_products cp ON cp.id = b.product_id
+  ),
+  users AS (
+    SELECT * FROM public.analytics_region_users(_city, _to)
+  ),
+  sales AS (
+    SELECT * FROM public.analytics_sales(_from, _to, _city, _category)
+  ),
+  region_complaints AS (
+    SELECT c.status, c.created_at, c.resolved_at
+    FROM public.complaints c
+    LEFT JOIN public.shops s ON s.id = c.shop_id
+    LEFT JOIN public.products p ON p.id = c.product_id
+    WHERE (NULLIF(btrim(_city), '') IS NULL OR public.shop_in_region(s.city, s.address, _city))
+      AND (NULLIF(btrim(_category), '') IS NULL OR lower(p.category) = lower(btrim(_category)))
+  )
+  SELECT
+    (SELECT COUNT(*) FROM region_shops),
+    (SELECT COUNT(*) FROM region_shops WHERE verification_status = 'pending'),
+    (SELECT COUNT(*) FROM region_shops WHERE verification_status = 'verified'),
+    (SELECT COUNT(*) FROM region_shops WHERE verification_status = 'rejected'),
+    (SELECT COUNT(*) FROM region_shops WHERE created_at >= _from),
+    (SELECT COUNT(*) FROM users WHERE role = 'customer'),
+    (SELECT COUNT(*) FROM users WHERE role = 'shopkeeper'),
+    (SELECT COUNT(*) FROM users WHERE role = 'admin'),
+    (SELECT COUNT(*) FROM users WHERE joined_at >= _from),
+    CASE
+      WHEN NULLIF(btrim(_city), '') IS NULL THEN (SELECT COUNT(*) FROM category_products)
+      ELSE (SELECT COUNT(DISTINCT product_id) FROM stock)
+    END,
+    (SELECT COUNT(*) FROM stock
+      WHERE status = 'active'
+        AND expiry_date >= CURRENT_DATE
+        AND expiry_date <= CURRENT_DATE + public.setting_numeric('discount_threshold_days', 30)::INTEGER),
+    (SELECT COALESCE(SUM(quantity), 0) FROM stock
+      WHERE status = 'active'
+        AND expiry_date >= CURRENT_DATE
+        AND expiry_date <= CURRENT_DATE + public.setting_numeric('discount_threshold_days', 30)::INTEGER),
+    (SELECT COUNT(*) FROM sales),
+    (SELECT COALESCE(SUM(quantity), 0) FROM sales),
+    (SELECT COALESCE(SUM(revenue), 0) FROM sales),
+    (SELECT COUNT(*) FROM region_complaints WHERE created_at >= _from AND created_at < _to),
+    (SELECT COUNT(*) FROM region_complaints WHERE resolved_at >= _from AND resolved_at < _to),
+    (SELECT COUNT(*) FROM region_complaints WHERE status IN ('pending', 'in_progress'))
+$$;